@@ -0,0 +1,60 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** How long an open circuit turns calls away before letting them try again */
+  cooldownMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Tracks the health of one provider.
+ *
+ * The circuit opens after `failureThreshold` consecutive failures, and while
+ * open allowsRequest() is false so callers skip straight to a fallback. Once
+ * the cooldown passes it goes half-open: calls are let through again, the
+ * first success closes it and the first failure opens it for another cooldown.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+  private failures = 0;
+  private openedAt?: number;
+
+  constructor(
+    readonly name: string,
+    options: CircuitBreakerOptions = {}
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 30_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) return "closed";
+    return this.now() - this.openedAt < this.cooldownMs ? "open" : "half-open";
+  }
+
+  allowsRequest(): boolean {
+    return this.state !== "open";
+  }
+
+  success(): void {
+    if (this.openedAt !== undefined) {
+      console.info(`[circuit-breaker] ${this.name} closed`);
+    }
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+
+  failure(): void {
+    this.failures += 1;
+
+    if (this.state === "half-open" || (this.state === "closed" && this.failures >= this.failureThreshold)) {
+      this.openedAt = this.now();
+      console.warn(`[circuit-breaker] ${this.name} opened after ${this.failures} failures`);
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import Anthropic from "@anthropic-ai/sdk";
-import type { LlmAdapter } from "./interfaces";
+import type { LlmAdapter, LlmRequest } from "./interfaces";
 
 interface ClaudeConfig {
   apiKey: string;
@@ -26,7 +26,7 @@ export class ClaudeAdapter implements LlmAdapter {
     });
   }
 
-  async *generate(sessionId: string, prompt: string): AsyncIterable<string> {
+  async *generate(sessionId: string, request: LlmRequest): AsyncIterable<string> {
     const controller = new AbortController();
     this.activeStreams.set(sessionId, controller);
 
@@ -36,12 +36,11 @@ export class ClaudeAdapter implements LlmAdapter {
           model: this.config.model!,
           max_tokens: this.config.maxTokens!,
           temperature: this.config.temperature,
-          messages: [
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
+          system: request.system,
+          messages: request.messages.map((message) => ({
+            role: message.role,
+            content: message.content,
+          })),
           stream: true,
         },
         {
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from "vitest";
+import { RealtimeTranscriber } from "assemblyai";
+import { RealAdapterFactory } from "./factory";
+import type { SttAdapter } from "./interfaces";
+
+vi.mock("assemblyai", () => ({
+  RealtimeTranscriber: vi.fn().mockImplementation(() => ({
+    on: vi.fn(),
+    connect: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+describe("RealAdapterFactory", () => {
+  it("should open STT streams at the mic's 48 kHz unless told otherwise", async () => {
+    for (const [sttSampleRate, expected] of [
+      [undefined, 48_000],
+      [16_000, 16_000],
+    ] as const) {
+      const factory = new RealAdapterFactory({
+        sttProvider: "assemblyai",
+        assemblyaiApiKey: "test-key",
+        ...(sttSampleRate && { sttSampleRate }),
+      });
+      const stt = await (factory.stt() as SttAdapter | Promise<SttAdapter>);
+      await stt.start("session-1");
+
+      expect(RealtimeTranscriber).toHaveBeenLastCalledWith({ apiKey: "test-key", sampleRate: expected });
+    }
+  });
+});
@@ -1,5 +1,5 @@
-import type { AdapterFactory, LlmAdapter, SttAdapter, TtsAdapter } from "./interfaces";
-import type { SpeakerId } from "@basil/shared";
+import type { AdapterFactory, AdapterProviders, LlmAdapter, SttAdapter, SttTranscriptHandler, TtsAdapter } from "./interfaces";
+import type { AgentSpeakerId } from "@basil/shared";
 
 // Import adapters (these will be loaded lazily to avoid import errors if deps are missing)
 import { ClaudeAdapter } from "./claude";
@@ -51,6 +51,8 @@ export interface FactoryConfig {
   // Google Cloud credentials are read from GOOGLE_APPLICATION_CREDENTIALS env var
   
   // Custom configurations
+  /** Rate of the 16-bit mono mic PCM streamed to STT; the studio captures at 48 kHz */
+  sttSampleRate?: number;
   whisperEndpoint?: string;
   localLlamaEndpoint?: string;
   guestModel?: string;
@@ -68,11 +70,12 @@ export interface FactoryConfig {
   guestVoiceProfileId?: number;
   
   // Callbacks
-  onSttTranscript?: (sessionId: string, text: string, isFinal: boolean) => void;
+  /** Final transcripts carry timing (and word timings where the provider has them) */
+  onSttTranscript?: SttTranscriptHandler;
   onSttError?: (sessionId: string, error: Error) => void;
-  onTtsAudioChunk?: (sessionId: string, speaker: Exclude<SpeakerId, "you">, audioChunk: Buffer) => void;
-  onTtsComplete?: (sessionId: string, speaker: Exclude<SpeakerId, "you">) => void;
-  onTtsError?: (sessionId: string, speaker: Exclude<SpeakerId, "you">, error: Error) => void;
+  onTtsAudioChunk?: (sessionId: string, speaker: AgentSpeakerId, audioChunk: Buffer) => void;
+  onTtsComplete?: (sessionId: string, speaker: AgentSpeakerId) => void;
+  onTtsError?: (sessionId: string, speaker: AgentSpeakerId, error: Error) => void;
 }
 
 export class RealAdapterFactory implements AdapterFactory {
@@ -92,6 +95,7 @@ export class RealAdapterFactory implements AdapterFactory {
       togetherApiKey: process.env.TOGETHER_API_KEY,
       openaiApiKey: process.env.OPENAI_API_KEY,
 
+      sttSampleRate: 48_000,
       whisperEndpoint: process.env.WHISPER_ENDPOINT || "http://localhost:8001/transcribe",
       localLlamaEndpoint: process.env.LOCAL_LLAMA_ENDPOINT || "http://localhost:8080/v1",
       guestModel: process.env.GUEST_MODEL,
@@ -105,6 +109,15 @@ export class RealAdapterFactory implements AdapterFactory {
     };
   }
 
+  providers(): AdapterProviders {
+    const claudeTts = this.config.ttsProvider!;
+    return {
+      stt: this.config.sttProvider!,
+      tts: { claude: claudeTts, guest: this.config.guestVoiceProvider || claudeTts },
+      llm: { claude: "claude", guest: this.config.guestProvider! },
+    };
+  }
+
   stt(): SttAdapter {
     const provider = this.config.sttProvider!;
     
@@ -116,6 +129,7 @@ export class RealAdapterFactory implements AdapterFactory {
         return loadAssemblyAI().then(AssemblyAISttAdapter => 
           new AssemblyAISttAdapter({
             apiKey: this.config.assemblyaiApiKey!,
+            sampleRate: this.config.sttSampleRate,
             onTranscript: this.config.onSttTranscript,
             onError: this.config.onSttError,
           })
@@ -125,6 +139,7 @@ export class RealAdapterFactory implements AdapterFactory {
       case "google": {
         return loadGoogleStt().then(GoogleSttAdapter =>
           new GoogleSttAdapter({
+            sampleRateHertz: this.config.sttSampleRate,
             onTranscript: this.config.onSttTranscript,
             onError: this.config.onSttError,
           })
@@ -135,6 +150,7 @@ export class RealAdapterFactory implements AdapterFactory {
         return loadWhisperStt().then(WhisperSttAdapter =>
           new WhisperSttAdapter({
             endpoint: this.config.whisperEndpoint,
+            sampleRate: this.config.sttSampleRate,
             onTranscript: this.config.onSttTranscript,
             onError: this.config.onSttError,
           })
@@ -146,7 +162,7 @@ export class RealAdapterFactory implements AdapterFactory {
     }
   }
 
-  tts(speaker: Exclude<SpeakerId, "you"> = "claude"): TtsAdapter {
+  tts(speaker: AgentSpeakerId = "claude"): TtsAdapter {
     if (speaker === "guest") {
       return this.createGuestTts();
     }
@@ -158,7 +174,7 @@ export class RealAdapterFactory implements AdapterFactory {
     return this.createGuestTts();
   }
 
-  private createHostTts(speaker: Exclude<SpeakerId, "you">): TtsAdapter {
+  private createHostTts(speaker: AgentSpeakerId): TtsAdapter {
     const provider = this.config.ttsProvider!;
 
     switch (provider) {
@@ -206,7 +222,7 @@ export class RealAdapterFactory implements AdapterFactory {
 
   private createGuestTts(): TtsAdapter {
     const provider = this.config.guestVoiceProvider || this.config.ttsProvider || "google";
-    const speaker: Exclude<SpeakerId, "you"> = "guest";
+    const speaker: AgentSpeakerId = "guest";
 
     switch (provider) {
       case "google": {
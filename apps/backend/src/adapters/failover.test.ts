@@ -0,0 +1,219 @@
+import { describe, it, expect } from "vitest";
+import { CircuitBreaker } from "./circuit-breaker";
+import { FailoverAdapterFactory, type ProviderChange } from "./failover";
+import type { FactoryConfig } from "./factory";
+import type { AdapterFactory, LlmAdapter, SttAdapter, TtsAdapter } from "./interfaces";
+
+type Behaviour = "ok" | "fail" | "fail-midway";
+
+/** Adapters whose providers succeed or fail as `behaviour` says at call time */
+function fakeProviders(behaviour: Record<string, Behaviour>) {
+  const sttErrors: Record<string, (sessionId: string, error: Error) => void> = {};
+  const sttAudio: string[] = [];
+
+  const createFactory = (config: FactoryConfig): AdapterFactory => ({
+    stt(): SttAdapter {
+      const provider = config.sttProvider!;
+      sttErrors[provider] = config.onSttError!;
+      return {
+        start: async () => {
+          if (behaviour[provider] === "fail") throw new Error(`${provider} down`);
+        },
+        stop: async () => {},
+        sendAudio: () => sttAudio.push(provider),
+      };
+    },
+    tts(speaker = "claude"): TtsAdapter {
+      const provider = config.ttsProvider!;
+      return {
+        synthesize: async (sessionId, text) => {
+          if (behaviour[provider] === "fail") {
+            config.onTtsError?.(sessionId, speaker, new Error(`${provider} down`));
+            return;
+          }
+          config.onTtsAudioChunk?.(sessionId, speaker, Buffer.from(`${provider}:${text}`));
+          if (behaviour[provider] === "fail-midway") {
+            config.onTtsError?.(sessionId, speaker, new Error(`${provider} dropped`));
+          }
+        },
+        stop: async () => {},
+      };
+    },
+    llm(identifier): LlmAdapter {
+      const provider = identifier === "claude" ? "claude" : config.guestProvider!;
+      return {
+        id: provider,
+        async *generate() {
+          if (behaviour[provider] === "fail") throw new Error(`${provider} down`);
+          yield `${provider} says hi`;
+          if (behaviour[provider] === "fail-midway") throw new Error(`${provider} dropped`);
+        },
+        stop: async () => {},
+      };
+    },
+  });
+
+  return { createFactory, sttErrors, sttAudio };
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+const PRIMARIES: FactoryConfig = { sttProvider: "assemblyai", ttsProvider: "google", guestProvider: "groq" };
+
+describe("CircuitBreaker", () => {
+  it("should open after repeated failures and close again after a successful trial", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker("llm:groq", { failureThreshold: 2, cooldownMs: 1_000, now: () => now });
+
+    breaker.failure();
+    expect(breaker.state).toBe("closed");
+    breaker.failure();
+    expect(breaker.state).toBe("open");
+    expect(breaker.allowsRequest()).toBe(false);
+
+    now = 1_000;
+    expect(breaker.state).toBe("half-open");
+    breaker.failure();
+    expect(breaker.state).toBe("open");
+
+    now = 2_000;
+    breaker.success();
+    expect(breaker.state).toBe("closed");
+  });
+});
+
+describe("FailoverAdapterFactory", () => {
+  it("should retry an LLM reply on the next provider and report the switch", async () => {
+    const behaviour: Record<string, Behaviour> = { groq: "fail", together: "ok" };
+    const changes: ProviderChange[] = [];
+    const factory = new FailoverAdapterFactory({
+      ...PRIMARIES,
+      fallbacks: { guest: ["together", "local"] },
+      breaker: { failureThreshold: 1 },
+      createFactory: fakeProviders(behaviour).createFactory,
+      onProviderChange: (change) => changes.push(change),
+    });
+    const guest = factory.llm("guest");
+
+    expect(await collect(guest.generate("s1", { messages: [] }))).toEqual(["together says hi"]);
+    expect(changes).toEqual([
+      expect.objectContaining({ service: "llm", speaker: "guest", provider: "together", previous: "groq", reason: "groq: groq down" }),
+    ]);
+    expect(guest.id).toBe("together");
+    expect(factory.providers().llm.guest).toBe("together");
+    expect(factory.circuits()).toMatchObject({ "llm:groq": "open", "llm:together": "closed" });
+  });
+
+  it("should not restart a reply that already streamed", async () => {
+    const factory = new FailoverAdapterFactory({
+      ...PRIMARIES,
+      fallbacks: { guest: ["together"] },
+      createFactory: fakeProviders({ groq: "fail-midway", together: "ok" }).createFactory,
+    });
+
+    const chunks: string[] = [];
+    await expect(async () => {
+      for await (const chunk of factory.llm("guest").generate("s1", { messages: [] })) chunks.push(chunk);
+    }).rejects.toThrow("groq dropped");
+    expect(chunks).toEqual(["groq says hi"]);
+  });
+
+  it("should go back to the primary once its cooldown has passed", async () => {
+    const behaviour: Record<string, Behaviour> = { groq: "fail", together: "ok" };
+    const changes: ProviderChange[] = [];
+    const factory = new FailoverAdapterFactory({
+      ...PRIMARIES,
+      fallbacks: { guest: ["together"] },
+      breaker: { failureThreshold: 1, cooldownMs: 0 },
+      createFactory: fakeProviders(behaviour).createFactory,
+      onProviderChange: (change) => changes.push(change),
+    });
+    const guest = factory.llm("guest");
+
+    await collect(guest.generate("s1", { messages: [] }));
+    behaviour.groq = "ok";
+    expect(await collect(guest.generate("s1", { messages: [] }))).toEqual(["groq says hi"]);
+    expect(changes.map((change) => `${change.previous}->${change.provider}`)).toEqual(["groq->together", "together->groq"]);
+  });
+
+  it("should resynthesize a silent TTS failure on the fallback voice", async () => {
+    const audio: string[] = [];
+    const errors: Error[] = [];
+    const factory = new FailoverAdapterFactory({
+      ...PRIMARIES,
+      fallbacks: { tts: ["coqui"] },
+      createFactory: fakeProviders({ google: "fail", coqui: "ok" }).createFactory,
+      onTtsAudioChunk: (_sessionId, speaker, chunk) => audio.push(`${speaker} ${chunk.toString()}`),
+      onTtsError: (_sessionId, _speaker, error) => errors.push(error),
+    });
+
+    await factory.tts("guest").synthesize("s1", "Hello.");
+
+    expect(audio).toEqual(["guest coqui:Hello."]);
+    expect(errors).toEqual([]);
+    expect(factory.providers().tts).toEqual({ claude: "google", guest: "coqui" });
+  });
+
+  it("should pass the error on when a sentence fails after its audio started", async () => {
+    const errors: Error[] = [];
+    const factory = new FailoverAdapterFactory({
+      ...PRIMARIES,
+      fallbacks: { tts: ["coqui"] },
+      createFactory: fakeProviders({ google: "fail-midway", coqui: "ok" }).createFactory,
+      onTtsError: (_sessionId, _speaker, error) => errors.push(error),
+    });
+
+    await factory.tts("claude").synthesize("s1", "Hello.");
+
+    expect(errors.map((error) => error.message)).toEqual(["google dropped"]);
+  });
+
+  it("should move a broken STT stream to the next provider", async () => {
+    const providers = fakeProviders({ assemblyai: "ok", google: "ok" });
+    const changes: ProviderChange[] = [];
+    const sttErrors: Error[] = [];
+    const factory = new FailoverAdapterFactory({
+      ...PRIMARIES,
+      fallbacks: { stt: ["google"] },
+      createFactory: providers.createFactory,
+      onSttError: (_sessionId, error) => sttErrors.push(error),
+      onProviderChange: (change) => changes.push(change),
+    });
+    const stt = factory.stt();
+
+    await stt.start("s1");
+    stt.sendAudio!("s1", Buffer.alloc(4));
+    providers.sttErrors.assemblyai("s1", new Error("socket closed"));
+    await new Promise((resolve) => setImmediate(resolve));
+    stt.sendAudio!("s1", Buffer.alloc(4));
+
+    expect(providers.sttAudio).toEqual(["assemblyai", "google"]);
+    expect(changes).toEqual([expect.objectContaining({ service: "stt", provider: "google", sessionId: "s1" })]);
+    expect(sttErrors).toEqual([]);
+  });
+
+  it("should share one chain per role across rooms and report its live provider", async () => {
+    const behaviour: Record<string, Behaviour> = { groq: "ok", together: "ok" };
+    const factory = new FailoverAdapterFactory({
+      ...PRIMARIES,
+      fallbacks: { guest: ["together"] },
+      breaker: { failureThreshold: 1 },
+      createFactory: fakeProviders(behaviour).createFactory,
+    });
+    const firstRoom = factory.llm("guest");
+    await collect(firstRoom.generate("room-1", { messages: [] }));
+
+    behaviour.groq = "fail";
+    const secondRoom = factory.llm("guest");
+    await collect(secondRoom.generate("room-2", { messages: [] }));
+
+    expect(secondRoom).toBe(firstRoom);
+    expect(factory.stt()).toBe(factory.stt());
+    expect(factory.tts("guest")).not.toBe(factory.tts("claude"));
+    expect(factory.providers().llm.guest).toBe("together");
+  });
+});
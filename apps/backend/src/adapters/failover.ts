@@ -0,0 +1,427 @@
+import type { AgentSpeakerId, ProviderService, ProviderStatusPayload } from "@basil/shared";
+import { metrics } from "../services/metrics.js";
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitState } from "./circuit-breaker.js";
+import { RealAdapterFactory, type FactoryConfig } from "./factory.js";
+import type { AdapterFactory, AdapterProviders, LlmAdapter, LlmRequest, SttAdapter, TtsAdapter } from "./interfaces.js";
+
+type SttProvider = NonNullable<FactoryConfig["sttProvider"]>;
+type TtsProvider = NonNullable<FactoryConfig["ttsProvider"]>;
+type GuestProvider = NonNullable<FactoryConfig["guestProvider"]>;
+
+/** Providers to fall back to, in order, after each role's configured primary */
+export interface FallbackChains {
+  stt?: SttProvider[];
+  tts?: TtsProvider[];
+  guest?: GuestProvider[];
+}
+
+/** A provider switch; STT switches are per session, so they carry the session */
+export interface ProviderChange extends ProviderStatusPayload {
+  sessionId?: string;
+}
+
+export interface FailoverFactoryConfig extends FactoryConfig {
+  fallbacks?: FallbackChains;
+  breaker?: Omit<CircuitBreakerOptions, "now">;
+  onProviderChange?: (change: ProviderChange) => void;
+  /** Builds the adapters for one provider; defaults to RealAdapterFactory */
+  createFactory?: (config: FactoryConfig) => AdapterFactory;
+}
+
+/**
+ * Wraps RealAdapterFactory so each role (STT, each agent's TTS and LLM) runs
+ * on an ordered chain of providers instead of one.
+ *
+ * Every provider has a circuit breaker shared by all roles that use it. Calls
+ * go to the first provider whose circuit allows them and move down the chain
+ * when one fails: an LLM reply or TTS sentence is retried on the next provider
+ * as long as nothing has been streamed yet, and a failed STT stream is
+ * restarted on the next provider. Once a primary's cooldown passes it is tried
+ * first again. onProviderChange reports each switch, in either direction.
+ *
+ * Each role has one chain and one failover adapter, shared by every room.
+ * The adapters keep their state per session, so rooms don't see each other's.
+ */
+export class FailoverAdapterFactory implements AdapterFactory {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly chains = new Map<string, ProviderChain<unknown>>();
+  private readonly adapters = new Map<string, SttAdapter | TtsAdapter | LlmAdapter>();
+  private readonly primaries: AdapterProviders;
+
+  constructor(private readonly config: FailoverFactoryConfig = {}) {
+    this.primaries = new RealAdapterFactory(config).providers();
+  }
+
+  providers(): AdapterProviders {
+    const live = (service: ProviderService, speaker: AgentSpeakerId | undefined, fallback: string) =>
+      this.chains.get(roleKey(service, speaker))?.live ?? fallback;
+
+    return {
+      stt: live("stt", undefined, this.primaries.stt),
+      tts: {
+        claude: live("tts", "claude", this.primaries.tts.claude),
+        guest: live("tts", "guest", this.primaries.tts.guest),
+      },
+      llm: {
+        claude: live("llm", "claude", this.primaries.llm.claude),
+        guest: live("llm", "guest", this.primaries.llm.guest),
+      },
+    };
+  }
+
+  /** Circuit state of every provider that has been used, keyed "service:provider" */
+  circuits(): Record<string, CircuitState> {
+    return Object.fromEntries([...this.breakers].map(([name, breaker]) => [name, breaker.state]));
+  }
+
+  stt(): SttAdapter {
+    return this.shared("stt", undefined, () => {
+      const providers = chainOf(this.primaries.stt, this.config.fallbacks?.stt);
+      return new FailoverSttAdapter(
+        this.chain<SttAdapter, FailoverSttAdapter>("stt", undefined, providers, (provider, adapter) =>
+          this.factory({
+            sttProvider: provider as SttProvider,
+            onSttError: (sessionId, error) => adapter.handleError(provider, sessionId, error),
+          }).stt()
+        ),
+        this.config.onSttError
+      );
+    });
+  }
+
+  tts(speaker: AgentSpeakerId = "claude"): TtsAdapter {
+    return this.shared("tts", speaker, () => {
+      const providers = chainOf(this.primaries.tts[speaker], this.config.fallbacks?.tts);
+      return new FailoverTtsAdapter(
+        speaker,
+        this.chain<TtsAdapter, FailoverTtsAdapter>("tts", speaker, providers, (provider, adapter) =>
+          this.factory({
+            ttsProvider: provider as TtsProvider,
+            guestVoiceProvider: provider as TtsProvider,
+            onTtsAudioChunk: (sessionId, _speaker, chunk) => adapter.handleAudio(sessionId, chunk),
+            onTtsError: (sessionId, _speaker, error) => adapter.handleError(sessionId, error),
+          }).tts(speaker)
+        ),
+        this.config
+      );
+    });
+  }
+
+  llm(identifier: AgentSpeakerId): LlmAdapter {
+    return this.shared("llm", identifier, () => {
+      const providers =
+        identifier === "guest" ? chainOf(this.primaries.llm.guest, this.config.fallbacks?.guest) : ["claude"];
+      return new FailoverLlmAdapter(
+        this.chain<LlmAdapter, unknown>("llm", identifier, providers, (provider) =>
+          this.factory({ guestProvider: provider as GuestProvider }).llm(identifier)
+        )
+      );
+    });
+  }
+
+  /** The role's failover adapter, built on first use */
+  private shared<A extends SttAdapter | TtsAdapter | LlmAdapter>(
+    service: ProviderService,
+    speaker: AgentSpeakerId | undefined,
+    create: () => A
+  ): A {
+    const key = roleKey(service, speaker);
+    let adapter = this.adapters.get(key) as A | undefined;
+    if (!adapter) {
+      adapter = create();
+      this.adapters.set(key, adapter);
+    }
+    return adapter;
+  }
+
+  private factory(overrides: FactoryConfig): AdapterFactory {
+    const config = { ...this.config, ...overrides };
+    return this.config.createFactory ? this.config.createFactory(config) : new RealAdapterFactory(config);
+  }
+
+  private chain<A, W>(
+    service: ProviderService,
+    speaker: AgentSpeakerId | undefined,
+    providers: string[],
+    create: (provider: string, wrapper: W) => A | Promise<A>
+  ): ProviderChain<A, W> {
+    const chain = new ProviderChain<A, W>(service, speaker, providers, {
+      breaker: (provider) => this.breaker(`${service}:${provider}`),
+      create,
+      onChange: (change) => this.config.onProviderChange?.(change),
+    });
+    this.chains.set(roleKey(service, speaker), chain as ProviderChain<unknown>);
+    return chain;
+  }
+
+  private breaker(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, this.config.breaker);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+}
+
+interface ProviderChainHooks<A, W> {
+  breaker: (provider: string) => CircuitBreaker;
+  create: (provider: string, wrapper: W) => A | Promise<A>;
+  onChange: (change: ProviderChange) => void;
+}
+
+/** One role's providers in order, with their adapters created on first use */
+class ProviderChain<A, W = unknown> {
+  /** The provider that last served the role */
+  live: string;
+  private readonly adapters = new Map<string, Promise<A>>();
+  private wrapper?: W;
+  private lastFailure?: string;
+
+  constructor(
+    readonly service: ProviderService,
+    readonly speaker: AgentSpeakerId | undefined,
+    private readonly providers: string[],
+    private readonly hooks: ProviderChainHooks<A, W>
+  ) {
+    this.live = providers[0];
+  }
+
+  bind(wrapper: W): void {
+    this.wrapper = wrapper;
+  }
+
+  /** Providers to try, in order. With every circuit open, all of them: better a slow retry than dead air */
+  candidates(): string[] {
+    const allowed = this.providers.filter((provider) => this.hooks.breaker(provider).allowsRequest());
+    return allowed.length > 0 ? allowed : this.providers;
+  }
+
+  adapter(provider: string): Promise<A> {
+    let adapter = this.adapters.get(provider);
+    if (!adapter) {
+      adapter = (async () => this.hooks.create(provider, this.wrapper!))();
+      // A provider that could not be built (missing key, failed import) gets another go later
+      adapter.catch(() => this.adapters.delete(provider));
+      this.adapters.set(provider, adapter);
+    }
+    return adapter;
+  }
+
+  succeeded(provider: string, sessionId?: string): void {
+    this.hooks.breaker(provider).success();
+    if (provider === this.live) return;
+
+    const change: ProviderChange = {
+      service: this.service,
+      ...(this.speaker && { speaker: this.speaker }),
+      provider,
+      previous: this.live,
+      reason: this.lastFailure,
+      at: Date.now(),
+      ...(sessionId && { sessionId }),
+    };
+    this.live = provider;
+    this.hooks.onChange(change);
+  }
+
+  failed(provider: string, error: unknown): void {
+    this.lastFailure = `${provider}: ${error instanceof Error ? error.message : String(error)}`;
+    console.warn(`[failover] ${this.label()} failed on ${this.lastFailure}`);
+    metrics.providerErrors.inc({ service: this.service, provider });
+    this.hooks.breaker(provider).failure();
+  }
+
+  unavailable(lastError?: unknown): Error {
+    if (lastError instanceof Error) return lastError;
+    return new Error(`No ${this.label()} provider succeeded (${this.providers.join(", ")})`);
+  }
+
+  private label(): string {
+    return this.speaker ? `${this.speaker} ${this.service.toUpperCase()}` : this.service.toUpperCase();
+  }
+}
+
+class FailoverLlmAdapter implements LlmAdapter {
+  private readonly active = new Map<string, LlmAdapter>();
+
+  constructor(private readonly chain: ProviderChain<LlmAdapter>) {}
+
+  get id(): string {
+    return this.chain.candidates()[0];
+  }
+
+  async *generate(sessionId: string, request: LlmRequest): AsyncIterable<string> {
+    let lastError: unknown;
+
+    for (const provider of this.chain.candidates()) {
+      let streamed = false;
+      try {
+        const adapter = await this.chain.adapter(provider);
+        this.active.set(sessionId, adapter);
+        for await (const chunk of adapter.generate(sessionId, request)) {
+          streamed = true;
+          yield chunk;
+        }
+        this.chain.succeeded(provider);
+        return;
+      } catch (error) {
+        this.chain.failed(provider, error);
+        // Half a reply has already gone out; starting over elsewhere would repeat it
+        if (streamed) throw error;
+        lastError = error;
+      } finally {
+        this.active.delete(sessionId);
+      }
+    }
+
+    throw this.chain.unavailable(lastError);
+  }
+
+  async stop(sessionId: string): Promise<void> {
+    await this.active.get(sessionId)?.stop(sessionId);
+  }
+}
+
+interface TtsAttempt {
+  audio: boolean;
+  error?: Error;
+}
+
+class FailoverTtsAdapter implements TtsAdapter {
+  private readonly attempts = new Map<string, TtsAttempt>();
+  private readonly active = new Map<string, TtsAdapter>();
+
+  constructor(
+    private readonly speaker: AgentSpeakerId,
+    private readonly chain: ProviderChain<TtsAdapter, FailoverTtsAdapter>,
+    private readonly callbacks: Pick<FactoryConfig, "onTtsAudioChunk" | "onTtsError">
+  ) {
+    chain.bind(this);
+  }
+
+  async synthesize(sessionId: string, text: string): Promise<void> {
+    let lastError: unknown;
+
+    for (const provider of this.chain.candidates()) {
+      const attempt: TtsAttempt = { audio: false };
+      this.attempts.set(sessionId, attempt);
+      try {
+        const adapter = await this.chain.adapter(provider);
+        this.active.set(sessionId, adapter);
+        await adapter.synthesize(sessionId, text);
+      } catch (error) {
+        attempt.error = error as Error;
+      } finally {
+        this.attempts.delete(sessionId);
+        this.active.delete(sessionId);
+      }
+
+      if (!attempt.error) {
+        this.chain.succeeded(provider);
+        return;
+      }
+
+      this.chain.failed(provider, attempt.error);
+      lastError = attempt.error;
+      // Part of the sentence is already on air, so only the error goes out
+      if (attempt.audio) break;
+    }
+
+    this.callbacks.onTtsError?.(sessionId, this.speaker, this.chain.unavailable(lastError));
+  }
+
+  async stop(sessionId: string): Promise<void> {
+    await this.active.get(sessionId)?.stop(sessionId);
+  }
+
+  handleAudio(sessionId: string, chunk: Buffer): void {
+    const attempt = this.attempts.get(sessionId);
+    if (attempt) attempt.audio = true;
+    this.callbacks.onTtsAudioChunk?.(sessionId, this.speaker, chunk);
+  }
+
+  handleError(sessionId: string, error: Error): void {
+    const attempt = this.attempts.get(sessionId);
+    if (attempt) {
+      attempt.error = error;
+    } else {
+      this.callbacks.onTtsError?.(sessionId, this.speaker, error);
+    }
+  }
+}
+
+class FailoverSttAdapter implements SttAdapter {
+  private readonly sessions = new Map<string, { provider: string; adapter: SttAdapter }>();
+
+  constructor(
+    private readonly chain: ProviderChain<SttAdapter, FailoverSttAdapter>,
+    private readonly onError?: FactoryConfig["onSttError"]
+  ) {
+    chain.bind(this);
+  }
+
+  async start(sessionId: string): Promise<void> {
+    await this.startOn(sessionId, this.chain.candidates());
+  }
+
+  async stop(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    this.sessions.delete(sessionId);
+    await session?.adapter.stop(sessionId);
+  }
+
+  sendAudio(sessionId: string, audioChunk: Buffer): void {
+    this.sessions.get(sessionId)?.adapter.sendAudio?.(sessionId, audioChunk);
+  }
+
+  /** A provider's stream broke; move the session to the next provider that will start */
+  async handleError(provider: string, sessionId: string, error: Error): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.provider !== provider) return;
+
+    this.chain.failed(provider, error);
+    this.sessions.delete(sessionId);
+    try {
+      await session.adapter.stop(sessionId);
+    } catch (stopError) {
+      console.warn(`[failover] failed to stop ${provider} STT for ${sessionId}`, stopError);
+    }
+
+    try {
+      await this.startOn(
+        sessionId,
+        this.chain.candidates().filter((candidate) => candidate !== provider)
+      );
+    } catch {
+      this.onError?.(sessionId, error);
+    }
+  }
+
+  private async startOn(sessionId: string, providers: string[]): Promise<void> {
+    let lastError: unknown;
+
+    for (const provider of providers) {
+      try {
+        const adapter = await this.chain.adapter(provider);
+        await adapter.start(sessionId);
+        this.sessions.set(sessionId, { provider, adapter });
+        this.chain.succeeded(provider, sessionId);
+        return;
+      } catch (error) {
+        this.chain.failed(provider, error);
+        lastError = error;
+      }
+    }
+
+    throw this.chain.unavailable(lastError);
+  }
+}
+
+function roleKey(service: ProviderService, speaker: AgentSpeakerId | undefined): string {
+  return speaker ? `${service}:${speaker}` : service;
+}
+
+function chainOf(primary: string, fallbacks: string[] = []): string[] {
+  return [...new Set([primary, ...fallbacks])];
+}
@@ -1,4 +1,26 @@
-import type { SpeakerId } from "@basil/shared";
+import type { AgentSpeakerId } from "@basil/shared";
+
+/** A recognized word; times are milliseconds from the start of the audio streamed to the session */
+export interface SttWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+/** Where an utterance sits in the audio streamed to the session, in milliseconds */
+export interface SttTiming {
+  start: number;
+  end: number;
+  words?: SttWord[];
+}
+
+export type SttTranscriptHandler = (
+  sessionId: string,
+  text: string,
+  isFinal: boolean,
+  timing?: SttTiming
+) => void;
 
 export interface SttAdapter {
   start(sessionId: string): Promise<void>;
@@ -11,14 +33,32 @@ export interface TtsAdapter {
   stop(sessionId: string): Promise<void>;
 }
 
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRequest {
+  system?: string;
+  messages: LlmMessage[];
+}
+
 export interface LlmAdapter {
   readonly id: string;
-  generate(sessionId: string, prompt: string): AsyncIterable<string>;
+  generate(sessionId: string, request: LlmRequest): AsyncIterable<string>;
   stop(sessionId: string): Promise<void>;
 }
 
+/** Which provider backs each adapter, for labelling metrics */
+export interface AdapterProviders {
+  stt: string;
+  tts: Record<AgentSpeakerId, string>;
+  llm: Record<AgentSpeakerId, string>;
+}
+
 export interface AdapterFactory {
   stt(): SttAdapter;
-  tts(speaker?: Exclude<SpeakerId, "you">): TtsAdapter;
+  tts(speaker?: AgentSpeakerId): TtsAdapter;
   llm(identifier: "claude" | "guest"): LlmAdapter;
+  providers?(): AdapterProviders;
 }
@@ -67,7 +67,9 @@ describe("MockAdapterFactory", () => {
 
     it("should generate mock response", async () => {
       const llm = factory.llm("claude");
-      const generator = llm.generate("session-1", "Test prompt");
+      const generator = llm.generate("session-1", {
+        messages: [{ role: "user", content: "Test prompt" }],
+      });
       
       const results = [];
       for await (const chunk of generator) {
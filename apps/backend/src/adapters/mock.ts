@@ -1,5 +1,5 @@
 import { setTimeout as delay } from "node:timers/promises";
-import type { AdapterFactory, LlmAdapter, SttAdapter, TtsAdapter } from "./interfaces";
+import type { AdapterFactory, LlmAdapter, LlmRequest, SttAdapter, TtsAdapter } from "./interfaces";
 
 class MockStt implements SttAdapter {
   async start(sessionId: string): Promise<void> {
@@ -27,7 +27,8 @@ class MockTts implements TtsAdapter {
 class MockLlm implements LlmAdapter {
   constructor(readonly id: string) {}
 
-  async *generate(_sessionId: string, prompt: string): AsyncIterable<string> {
+  async *generate(_sessionId: string, request: LlmRequest): AsyncIterable<string> {
+    const prompt = request.messages[request.messages.length - 1]?.content ?? "";
     yield `mock-response(${this.id}): ${prompt.slice(0, 40)}...`;
   }
 
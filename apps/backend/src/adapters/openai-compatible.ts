@@ -1,5 +1,5 @@
 import OpenAI from "openai";
-import type { LlmAdapter } from "./interfaces";
+import type { LlmAdapter, LlmRequest } from "./interfaces";
 
 interface OpenAICompatibleConfig {
   apiKey: string;
@@ -28,7 +28,7 @@ export class OpenAICompatibleAdapter implements LlmAdapter {
     });
   }
 
-  async *generate(sessionId: string, prompt: string): AsyncIterable<string> {
+  async *generate(sessionId: string, request: LlmRequest): AsyncIterable<string> {
     const controller = new AbortController();
     this.activeStreams.set(sessionId, controller);
 
@@ -39,10 +39,11 @@ export class OpenAICompatibleAdapter implements LlmAdapter {
           max_tokens: this.config.maxTokens,
           temperature: this.config.temperature,
           messages: [
-            {
-              role: "user",
-              content: prompt,
-            },
+            ...(request.system ? [{ role: "system" as const, content: request.system }] : []),
+            ...request.messages.map((message) => ({
+              role: message.role,
+              content: message.content,
+            })),
           ],
           stream: true,
         },
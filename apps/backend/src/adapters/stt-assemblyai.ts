@@ -1,10 +1,10 @@
 import { RealtimeTranscriber } from "assemblyai";
-import type { SttAdapter } from "./interfaces";
+import type { SttAdapter, SttTranscriptHandler } from "./interfaces";
 
 interface AssemblyAIConfig {
   apiKey: string;
   sampleRate?: number;
-  onTranscript?: (sessionId: string, text: string, isFinal: boolean) => void;
+  onTranscript?: SttTranscriptHandler;
   onError?: (sessionId: string, error: Error) => void;
 }
 
@@ -36,10 +36,21 @@ export class AssemblyAISttAdapter implements SttAdapter {
 
     transcriber.on("transcript", (transcript) => {
       if (transcript.text && transcript.text.length > 0) {
+        // AssemblyAI times are already milliseconds from the start of the session
         this.config.onTranscript?.(
           sessionId,
           transcript.text,
-          transcript.message_type === "FinalTranscript"
+          transcript.message_type === "FinalTranscript",
+          {
+            start: transcript.audio_start,
+            end: transcript.audio_end,
+            words: transcript.words?.map((word) => ({
+              text: word.text,
+              start: word.start,
+              end: word.end,
+              confidence: word.confidence,
+            })),
+          }
         );
       }
     });
@@ -1,11 +1,11 @@
 import speech from "@google-cloud/speech";
-import type { SttAdapter } from "./interfaces";
+import type { SttAdapter, SttTranscriptHandler, SttWord } from "./interfaces";
 
 interface GoogleSttConfig {
   languageCode?: string;
   sampleRateHertz?: number;
   encoding?: string;
-  onTranscript?: (sessionId: string, text: string, isFinal: boolean) => void;
+  onTranscript?: SttTranscriptHandler;
   onError?: (sessionId: string, error: Error) => void;
 }
 
@@ -35,6 +35,7 @@ export class GoogleSttAdapter implements SttAdapter {
         encoding: this.config.encoding as any,
         sampleRateHertz: this.config.sampleRateHertz,
         languageCode: this.config.languageCode,
+        enableWordTimeOffsets: true,
       },
       interimResults: true,
     };
@@ -50,7 +51,7 @@ export class GoogleSttAdapter implements SttAdapter {
         if (result && result.alternatives[0]) {
           const transcript = result.alternatives[0].transcript;
           const isFinal = result.isFinal;
-          this.config.onTranscript?.(sessionId, transcript, isFinal);
+          this.config.onTranscript?.(sessionId, transcript, isFinal, isFinal ? this.timing(result) : undefined);
         }
       });
 
@@ -73,4 +74,24 @@ export class GoogleSttAdapter implements SttAdapter {
       stream.write(audioChunk);
     }
   }
+
+  // Word offsets come back as protobuf Durations from the start of the stream
+  private timing(result: any) {
+    const words: SttWord[] = (result.alternatives[0].words ?? []).map((word: any) => ({
+      text: word.word,
+      start: durationToMs(word.startTime),
+      end: durationToMs(word.endTime),
+    }));
+    if (words.length === 0) return undefined;
+
+    return {
+      start: words[0].start,
+      end: result.resultEndTime ? durationToMs(result.resultEndTime) : words[words.length - 1].end,
+      words,
+    };
+  }
+}
+
+function durationToMs(duration?: { seconds?: number | string | null; nanos?: number | null }): number {
+  return Number(duration?.seconds ?? 0) * 1000 + Math.round((duration?.nanos ?? 0) / 1e6);
 }
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { WhisperSttAdapter } from "./stt-whisper";
+
+/** What services/whisper-server.py answers for a chunk, times in seconds from its start */
+const SERVER_RESPONSE = {
+  text: " Hello there.",
+  is_final: true,
+  words: [
+    { word: " Hello", start: 0.5, end: 0.9, probability: 0.98 },
+    { word: " there.", start: 0.9, end: 1.4, probability: 0.95 },
+  ],
+  language: "en",
+  language_probability: 0.99,
+  start: 0.5,
+  end: 1.4,
+};
+
+describe("WhisperSttAdapter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("should place the server's segment and word timings on the session timeline", async () => {
+    const fetch = vi.fn().mockResolvedValue({ ok: true, json: async () => SERVER_RESPONSE });
+    vi.stubGlobal("fetch", fetch);
+    vi.useFakeTimers();
+    const onTranscript = vi.fn();
+    const stt = new WhisperSttAdapter({ endpoint: "http://whisper/transcribe", onTranscript });
+
+    await stt.start("s1");
+    // Two seconds of 48 kHz PCM already went out, so this chunk starts at 2000 ms
+    stt.sendAudio("s1", Buffer.alloc(48_000 * 2 * 2));
+    await vi.advanceTimersByTimeAsync(2_000);
+    stt.sendAudio("s1", Buffer.alloc(48_000 * 2));
+    await stt.stop("s1");
+
+    expect(fetch).toHaveBeenLastCalledWith("http://whisper/transcribe", {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream", "X-Sample-Rate": "48000" },
+      body: expect.any(Buffer),
+    });
+    expect(onTranscript).toHaveBeenLastCalledWith("s1", " Hello there.", true, {
+      start: 2_500,
+      end: 3_400,
+      words: [
+        { text: "Hello", start: 2_500, end: 2_900, confidence: 0.98 },
+        { text: "there.", start: 2_900, end: 3_400, confidence: 0.95 },
+      ],
+    });
+  });
+});
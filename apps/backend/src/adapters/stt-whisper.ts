@@ -1,29 +1,45 @@
-import type { SttAdapter } from "./interfaces";
+import type { SttAdapter, SttTiming, SttTranscriptHandler } from "./interfaces";
 
 interface WhisperConfig {
   endpoint?: string;
   model?: string;
-  onTranscript?: (sessionId: string, text: string, isFinal: boolean) => void;
+  /** Sample rate of the 16-bit mono PCM being streamed, used to place chunks on the session timeline */
+  sampleRate?: number;
+  onTranscript?: SttTranscriptHandler;
   onError?: (sessionId: string, error: Error) => void;
 }
 
+interface WhisperResponse {
+  text: string;
+  is_final?: boolean;
+  start?: number;
+  end?: number;
+  words?: { word: string; start: number; end: number; probability?: number }[];
+}
+
 /**
  * Adapter for local faster-whisper service.
- * Requires a separate faster-whisper HTTP service running (e.g., Python FastAPI server).
+ * Requires a separate faster-whisper HTTP service running (services/whisper-server.py).
  * 
- * Expected endpoint: POST /transcribe with audio chunks
- * Response: { text: string, is_final: boolean }
+ * Expected endpoint: POST /transcribe with audio chunks, their rate in X-Sample-Rate
+ * Response: { text: string, is_final: boolean, start?: number, end?: number,
+ *             words?: [{ word: string, start: number, end: number, probability?: number }] }
+ * with times in seconds from the start of the posted chunk (faster-whisper's
+ * word_timestamps output).
  */
 export class WhisperSttAdapter implements SttAdapter {
   private config: WhisperConfig;
   private activeSessions = new Set<string>();
   private audioBuffers = new Map<string, Buffer[]>();
   private processingIntervals = new Map<string, NodeJS.Timeout>();
+  /** Milliseconds of audio already posted per session */
+  private streamOffsets = new Map<string, number>();
 
   constructor(config: WhisperConfig = {}) {
     this.config = {
       endpoint: "http://localhost:8001/transcribe",
       model: "base",
+      sampleRate: 48_000,
       ...config,
     };
   }
@@ -36,6 +52,7 @@ export class WhisperSttAdapter implements SttAdapter {
 
     this.activeSessions.add(sessionId);
     this.audioBuffers.set(sessionId, []);
+    this.streamOffsets.set(sessionId, 0);
 
     // Process audio chunks every 2 seconds
     const interval = setInterval(() => {
@@ -58,6 +75,7 @@ export class WhisperSttAdapter implements SttAdapter {
     // Process any remaining audio
     await this.processAudioBuffer(sessionId);
     this.audioBuffers.delete(sessionId);
+    this.streamOffsets.delete(sessionId);
     
     console.info(`[whisper-stt] session ${sessionId} stopped`);
   }
@@ -78,11 +96,15 @@ export class WhisperSttAdapter implements SttAdapter {
     const audioData = Buffer.concat(chunks);
     this.audioBuffers.set(sessionId, []); // Clear buffer
 
+    const offset = this.streamOffsets.get(sessionId) ?? 0;
+    this.streamOffsets.set(sessionId, offset + (audioData.length / 2 / this.config.sampleRate!) * 1000);
+
     try {
       const response = await fetch(this.config.endpoint!, {
         method: "POST",
         headers: {
           "Content-Type": "application/octet-stream",
+          "X-Sample-Rate": String(this.config.sampleRate),
         },
         body: audioData,
       });
@@ -91,14 +113,29 @@ export class WhisperSttAdapter implements SttAdapter {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const result = await response.json() as { text: string; is_final?: boolean };
+      const result = await response.json() as WhisperResponse;
       
       if (result.text && result.text.trim().length > 0) {
-        this.config.onTranscript?.(sessionId, result.text, result.is_final ?? true);
+        this.config.onTranscript?.(sessionId, result.text, result.is_final ?? true, this.timing(result, offset));
       }
     } catch (error) {
       console.error(`[whisper-stt] error for ${sessionId}:`, error);
       this.config.onError?.(sessionId, error as Error);
     }
   }
+
+  private timing(result: WhisperResponse, offset: number): SttTiming | undefined {
+    const words = (result.words ?? []).map((word) => ({
+      text: word.word.trim(),
+      start: offset + word.start * 1000,
+      end: offset + word.end * 1000,
+      confidence: word.probability,
+    }));
+
+    const start = result.start ?? result.words?.[0]?.start;
+    const end = result.end ?? result.words?.[result.words.length - 1]?.end;
+    if (start === undefined || end === undefined) return undefined;
+
+    return { start: offset + start * 1000, end: offset + end * 1000, words };
+  }
 }
@@ -1,8 +1,8 @@
-import type { SpeakerId } from "@basil/shared";
+import type { AgentSpeakerId } from "@basil/shared";
 import type { TtsAdapter } from "./interfaces.js";
 
 interface CoquiConfig {
-  speaker?: Exclude<SpeakerId, "you">;
+  speaker?: AgentSpeakerId;
   modelName?: string;
   speakerIdx?: string;
   speakingRate?: number;
@@ -12,9 +12,9 @@ interface CoquiConfig {
   voiceProfileId?: number;      // EchoForge voice profile ID
   voiceProfileName?: string;    // Alternative: use profile name
 
-  onAudioChunk?: (sessionId: string, speaker: Exclude<SpeakerId, "you">, audioChunk: Buffer) => void;
-  onComplete?: (sessionId: string, speaker: Exclude<SpeakerId, "you">) => void;
-  onError?: (sessionId: string, speaker: Exclude<SpeakerId, "you">, error: Error) => void;
+  onAudioChunk?: (sessionId: string, speaker: AgentSpeakerId, audioChunk: Buffer) => void;
+  onComplete?: (sessionId: string, speaker: AgentSpeakerId) => void;
+  onError?: (sessionId: string, speaker: AgentSpeakerId, error: Error) => void;
 }
 
 /**
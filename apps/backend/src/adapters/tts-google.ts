@@ -1,16 +1,16 @@
 import textToSpeech from "@google-cloud/text-to-speech";
-import type { SpeakerId } from "@basil/shared";
+import type { AgentSpeakerId } from "@basil/shared";
 import type { TtsAdapter } from "./interfaces";
 
 interface GoogleTtsConfig {
-  speaker?: Exclude<SpeakerId, "you">;
+  speaker?: AgentSpeakerId;
   languageCode?: string;
   voiceName?: string;
   speakingRate?: number;
   pitch?: number;
-  onAudioChunk?: (sessionId: string, speaker: Exclude<SpeakerId, "you">, audioChunk: Buffer) => void;
-  onComplete?: (sessionId: string, speaker: Exclude<SpeakerId, "you">) => void;
-  onError?: (sessionId: string, speaker: Exclude<SpeakerId, "you">, error: Error) => void;
+  onAudioChunk?: (sessionId: string, speaker: AgentSpeakerId, audioChunk: Buffer) => void;
+  onComplete?: (sessionId: string, speaker: AgentSpeakerId) => void;
+  onError?: (sessionId: string, speaker: AgentSpeakerId, error: Error) => void;
 }
 
 export class GoogleTtsAdapter implements TtsAdapter {
@@ -1,14 +1,32 @@
 import type { Request, Response, Router } from "express";
 import type { ApiKeysPayload, RuntimeConfig } from "@basil/shared";
+import { join } from "node:path";
 import { appConfig } from "./config.js";
+import { BriefingLoader, isBriefingMetadata, isBriefingName } from "./services/briefing-loader.js";
+import { EpisodeLibrary, episodeFileContentType, isEpisodeId } from "./services/episode-library.js";
+import {
+  buildTranscript,
+  readEvents,
+  renderTranscript,
+  transcriptContentType,
+  TRANSCRIPT_FORMATS,
+  type TranscriptFormat,
+} from "./services/transcript-export.js";
 
 // Runtime configuration that can be updated without restarting
 export let runtimeConfig: Partial<RuntimeConfig> = {};
 
+export interface ApiRoutesOptions {
+  /** Whether the orchestrator has a room open for the episode; archive and delete refuse while it does */
+  isEpisodeOpen?: (episodeId: string) => boolean;
+}
+
 /**
  * Setup API routes for configuration management
  */
-export function setupApiRoutes(router: Router): void {
+export function setupApiRoutes(router: Router, options: ApiRoutesOptions = {}): void {
+  const isEpisodeOpen = options.isEpisodeOpen ?? (() => false);
+
   // POST /api/config/keys - Update API keys at runtime
   router.post("/api/config/keys", (req: Request, res: Response) => {
     try {
@@ -190,4 +208,175 @@ export function setupApiRoutes(router: Router): void {
       res.status(500).json({ error: "TTS synthesis failed" });
     }
   });
+
+  const episodes = new EpisodeLibrary(appConfig.recordingDir);
+
+  // GET /api/episodes?archived=true - List recorded episodes, newest first
+  router.get("/api/episodes", async (req: Request, res: Response) => {
+    try {
+      res.json(await episodes.list({ archived: req.query.archived === "true" }));
+    } catch (error) {
+      console.error("[api] failed to list episodes:", error);
+      res.status(500).json({ error: "Failed to list episodes" });
+    }
+  });
+
+  // GET /api/episodes/:episodeId - Episode metadata and files
+  router.get("/api/episodes/:episodeId", async (req: Request, res: Response) => {
+    try {
+      const episode = await episodes.get(req.params.episodeId);
+      if (!episode) {
+        return res.status(404).json({ error: "Episode not found" });
+      }
+      res.json(episode);
+    } catch (error) {
+      console.error("[api] failed to read episode:", error);
+      res.status(500).json({ error: "Failed to read episode" });
+    }
+  });
+
+  // GET /api/episodes/:episodeId/files/:filename - Download an artifact (supports Range requests)
+  router.get("/api/episodes/:episodeId/files/:filename", async (req: Request, res: Response) => {
+    const { episodeId, filename } = req.params;
+    let path: string | null;
+    try {
+      path = await episodes.filePath(episodeId, filename);
+    } catch (error) {
+      console.error(`[api] failed to locate ${episodeId}/${filename}:`, error);
+      return res.status(500).json({ error: "Failed to read episode" });
+    }
+    if (!path) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    res.setHeader("Content-Type", episodeFileContentType(filename));
+    // Let the studio UI on another port play audio and load captions directly
+    res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+    res.sendFile(path, { acceptRanges: true }, (error) => {
+      if (error && !res.headersSent) {
+        console.error(`[api] failed to send ${episodeId}/${filename}:`, error);
+        res.status(500).json({ error: "Failed to send file" });
+      }
+    });
+  });
+
+  // POST /api/episodes/:episodeId/archive - Move an episode out of the main list
+  router.post("/api/episodes/:episodeId/archive", async (req: Request, res: Response) => {
+    if (isEpisodeOpen(req.params.episodeId)) {
+      return res.status(409).json({ error: "Episode is still open" });
+    }
+
+    try {
+      if (!(await episodes.archive(req.params.episodeId))) {
+        return res.status(404).json({ error: "Episode not found" });
+      }
+      res.json(await episodes.get(req.params.episodeId));
+    } catch (error) {
+      console.error("[api] failed to archive episode:", error);
+      res.status(500).json({ error: "Failed to archive episode" });
+    }
+  });
+
+  // DELETE /api/episodes/:episodeId - Permanently delete an episode and its files
+  router.delete("/api/episodes/:episodeId", async (req: Request, res: Response) => {
+    if (isEpisodeOpen(req.params.episodeId)) {
+      return res.status(409).json({ error: "Episode is still open" });
+    }
+
+    try {
+      if (!(await episodes.delete(req.params.episodeId))) {
+        return res.status(404).json({ error: "Episode not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("[api] failed to delete episode:", error);
+      res.status(500).json({ error: "Failed to delete episode" });
+    }
+  });
+
+  // GET /api/episodes/:episodeId/transcript?format=md|json|html|txt - Merged transcript
+  router.get("/api/episodes/:episodeId/transcript", async (req: Request, res: Response) => {
+    const { episodeId } = req.params;
+    const format = (req.query.format ?? "md") as TranscriptFormat;
+
+    if (!isEpisodeId(episodeId)) {
+      return res.status(400).json({ error: "Invalid episode id" });
+    }
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Unsupported format, expected one of ${TRANSCRIPT_FORMATS.join(", ")}` });
+    }
+
+    try {
+      const location = await episodes.locate(episodeId);
+      if (!location) {
+        return res.status(404).json({ error: "Episode not found" });
+      }
+
+      const events = await readEvents(join(location.dir, "events.jsonl"));
+      const transcript = renderTranscript(buildTranscript(events, { episodeId }), format);
+      res.setHeader("Content-Type", transcriptContentType(format));
+      res.send(transcript);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return res.status(404).json({ error: "Episode not found" });
+      }
+      console.error("[api] failed to build transcript:", error);
+      res.status(500).json({ error: "Failed to build transcript" });
+    }
+  });
+
+  const briefings = new BriefingLoader(appConfig.briefingsDir);
+
+  // GET /api/briefings - Saved briefings with their metadata, by file name
+  router.get("/api/briefings", async (_req: Request, res: Response) => {
+    try {
+      res.json(await briefings.summaries());
+    } catch (error) {
+      console.error("[api] failed to list briefings:", error);
+      res.status(500).json({ error: "Failed to list briefings" });
+    }
+  });
+
+  // GET /api/briefings/:name - A briefing's metadata and notes
+  router.get("/api/briefings/:name", async (req: Request, res: Response) => {
+    const { name } = req.params;
+    if (!isBriefingName(name)) {
+      return res.status(400).json({ error: "Invalid briefing name" });
+    }
+
+    try {
+      res.json(await briefings.read(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return res.status(404).json({ error: "Briefing not found" });
+      }
+      console.error("[api] failed to read briefing:", error);
+      res.status(500).json({ error: "Failed to read briefing" });
+    }
+  });
+
+  // POST /api/briefings - Save a briefing from the prep page, replacing one of the same name
+  router.post("/api/briefings", async (req: Request, res: Response) => {
+    const { name, metadata = {}, content = "" } = req.body ?? {};
+    if (typeof name !== "string" || !isBriefingName(name)) {
+      return res.status(400).json({ error: "Invalid briefing name, expected a .md or .txt file name" });
+    }
+    if (!isBriefingMetadata(metadata)) {
+      return res.status(400).json({
+        error:
+          "Invalid metadata, expected title, topic and tone as strings, mustCover and avoidTopics as string lists and targetDuration as a number",
+      });
+    }
+    if (typeof content !== "string") {
+      return res.status(400).json({ error: "Expected content to be a string" });
+    }
+
+    try {
+      await briefings.save({ name, metadata, content });
+      res.status(201).json(await briefings.read(name));
+    } catch (error) {
+      console.error("[api] failed to save briefing:", error);
+      res.status(500).json({ error: "Failed to save briefing" });
+    }
+  });
 }
@@ -1,4 +1,7 @@
 import { config as loadEnv } from "dotenv";
+import type { FallbackChains } from "./adapters/failover.js";
+import type { FloorPolicy } from "./services/floor-manager.js";
+import type { RecordingFormat } from "./services/recorder.js";
 
 // Load environment variables
 loadEnv();
@@ -17,6 +20,11 @@ interface AppConfig {
   ttsProvider: "google" | "coqui";
   guestProvider: "groq" | "grok" | "together" | "local" | "openai";
 
+  // Failover
+  fallbacks: Required<FallbackChains>;
+  circuitFailureThreshold: number;
+  circuitCooldownMs: number;
+
   // API Keys
   anthropicApiKey?: string;
   assemblyaiApiKey?: string;
@@ -29,12 +37,25 @@ interface AppConfig {
   // Service Endpoints
   whisperEndpoint: string;
   localLlamaEndpoint: string;
+  echoforgeEndpoint: string;
+  claudeVoiceProfileId?: number;
+  guestVoiceProfileId?: number;
 
   // Guest Model
   guestModel?: string;
 
+  // Conversation
+  maxConsecutiveAgentTurns: number;
+  floorPolicy: FloorPolicy;
+  sessionResumeGraceMs: number;
+
   // Recording
   recordingDir: string;
+  recordingFormats: RecordingFormat[];
+  normalizeLoudness: boolean;
+  loudnessTargetLufs: number;
+  truePeakCeilingDbtp: number;
+  recordOnConnect: boolean;
   briefingsDir: string;
 }
 
@@ -50,6 +71,14 @@ function getOptionalEnv(key: string): string | undefined {
   return process.env[key];
 }
 
+function getListEnv(key: string): string[] {
+  return (process.env[key] ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+const STT_PROVIDERS = ["assemblyai", "google", "whisper"];
+const TTS_PROVIDERS = ["google", "coqui"];
+const GUEST_PROVIDERS = ["groq", "grok", "together", "local", "openai"];
+
 export const appConfig: AppConfig = {
   // Server
   port: Number(process.env.PORT || 4000),
@@ -64,6 +93,15 @@ export const appConfig: AppConfig = {
   ttsProvider: (process.env.TTS_PROVIDER as any) || "coqui",
   guestProvider: (process.env.GUEST_PROVIDER as any) || "groq",
 
+  // Failover
+  fallbacks: {
+    stt: getListEnv("STT_FALLBACKS") as any,
+    tts: getListEnv("TTS_FALLBACKS") as any,
+    guest: getListEnv("GUEST_FALLBACKS") as any,
+  },
+  circuitFailureThreshold: Number(process.env.CIRCUIT_FAILURE_THRESHOLD || 3),
+  circuitCooldownMs: Number(process.env.CIRCUIT_COOLDOWN_MS || 30_000),
+
   // API Keys
   anthropicApiKey: getOptionalEnv("ANTHROPIC_API_KEY"),
   assemblyaiApiKey: getOptionalEnv("ASSEMBLYAI_API_KEY"),
@@ -76,12 +114,26 @@ export const appConfig: AppConfig = {
   // Service Endpoints
   whisperEndpoint: process.env.WHISPER_ENDPOINT || "http://localhost:8001/transcribe",
   localLlamaEndpoint: process.env.LOCAL_LLAMA_ENDPOINT || "http://localhost:8080/v1",
+  echoforgeEndpoint: process.env.ECHOFORGE_ENDPOINT || "http://localhost:8000",
+  claudeVoiceProfileId: process.env.CLAUDE_VOICE_PROFILE_ID ? Number(process.env.CLAUDE_VOICE_PROFILE_ID) : undefined,
+  guestVoiceProfileId: process.env.GUEST_VOICE_PROFILE_ID ? Number(process.env.GUEST_VOICE_PROFILE_ID) : undefined,
 
   // Guest Model
   guestModel: getOptionalEnv("GUEST_MODEL"),
 
+  // Conversation
+  maxConsecutiveAgentTurns: Number(process.env.MAX_CONSECUTIVE_AGENT_TURNS || 3),
+  floorPolicy: (process.env.FLOOR_POLICY as any) || "least-recent",
+  sessionResumeGraceMs: Number(process.env.SESSION_RESUME_GRACE_MS || 30_000),
+
   // Recording
   recordingDir: process.env.RECORDING_DIR || "./recordings",
+  recordingFormats: (process.env.RECORDING_FORMATS?.split(",").map((format) => format.trim()) ??
+    ["wav"]) as RecordingFormat[],
+  normalizeLoudness: process.env.NORMALIZE_LOUDNESS !== "false",
+  loudnessTargetLufs: Number(process.env.LOUDNESS_TARGET_LUFS || -16),
+  truePeakCeilingDbtp: Number(process.env.TRUE_PEAK_CEILING_DBTP || -1),
+  recordOnConnect: process.env.RECORD_ON_CONNECT === "true",
   briefingsDir: process.env.BRIEFINGS_DIR || "./briefings",
 };
 
@@ -112,6 +164,15 @@ export function validateConfig(): void {
     }
   }
 
+  const unknownFallbacks = [
+    ...appConfig.fallbacks.stt.filter((provider) => !STT_PROVIDERS.includes(provider)),
+    ...appConfig.fallbacks.tts.filter((provider) => !TTS_PROVIDERS.includes(provider)),
+    ...appConfig.fallbacks.guest.filter((provider) => !GUEST_PROVIDERS.includes(provider)),
+  ];
+  if (unknownFallbacks.length > 0) {
+    errors.push(`Unknown fallback providers: ${unknownFallbacks.join(", ")}`);
+  }
+
   if (errors.length > 0) {
     console.error("Configuration validation failed:");
     errors.forEach(error => console.error(`  - ${error}`));
@@ -132,12 +193,22 @@ export function printConfig(): void {
     console.info(`STT Provider:      ${appConfig.sttProvider}`);
     console.info(`TTS Provider:      ${appConfig.ttsProvider}`);
     console.info(`Guest Provider:    ${appConfig.guestProvider}`);
+    const { stt, tts, guest } = appConfig.fallbacks;
+    if (stt.length + tts.length + guest.length > 0) {
+      console.info(`Fallbacks:         STT ${stt.join(" → ") || "none"}; TTS ${tts.join(" → ") || "none"}; guest ${guest.join(" → ") || "none"}`);
+    }
     if (appConfig.guestModel) {
       console.info(`Guest Model:       ${appConfig.guestModel}`);
     }
   }
   
+  console.info(`Agent Turn Limit:  ${appConfig.maxConsecutiveAgentTurns}`);
+  console.info(`Floor Policy:      ${appConfig.floorPolicy}`);
   console.info(`Recording Dir:     ${appConfig.recordingDir}`);
+  console.info(`Recording Formats: ${appConfig.recordingFormats.join(", ")}`);
+  console.info(
+    `Loudness Target:   ${appConfig.normalizeLoudness ? `${appConfig.loudnessTargetLufs} LUFS, ${appConfig.truePeakCeilingDbtp} dBTP` : "off"}`
+  );
   console.info(`Briefings Dir:     ${appConfig.briefingsDir}`);
   console.info("=".repeat(60));
 }
@@ -11,6 +11,8 @@ import type { ClientToServerEvents, ServerToClientEvents } from "@basil/shared";
 import { appConfig, validateConfig, printConfig } from "./config.js";
 import { logger } from "./logger.js";
 import { setupApiRoutes } from "./api-routes.js";
+import { metrics, PROMETHEUS_CONTENT_TYPE, registry } from "./services/metrics.js";
+import { configuredProbes, DeepHealthCheck } from "./services/health-probes.js";
 
 // Validate configuration on startup
 try {
@@ -54,20 +56,24 @@ app.use(
 app.use(express.json({ limit: "1mb" }));
 
 // Rate limiting: 100 requests per 15 minutes per IP
-// Skip for WebSocket upgrade path
+// Skip for WebSocket upgrade path, Prometheus scrapes and episode file reads
+// (audio players issue many Range requests while seeking through one take)
+const EPISODE_FILE_PATH = /^\/api\/episodes\/[^/]+\/files\//;
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
   message: "Too many requests from this IP, please try again later.",
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
-  skip: (req) => req.url === "/socket.io", // Skip WebSocket upgrade
+  skip: (req) => req.url === "/socket.io" || req.path === "/metrics" || EPISODE_FILE_PATH.test(req.path),
 });
 app.use(limiter);
 
 // Input validation schemas
 const healthQuerySchema = z.object({}).strict();
+const deepHealthQuerySchema = z.object({ refresh: z.enum(["true", "false"]).optional() }).strict();
 const readyQuerySchema = z.object({}).strict();
+const metricsQuerySchema = z.object({ format: z.enum(["prometheus", "json"]).optional() }).strict();
 
 // Health check endpoint
 app.get("/health", (req, res) => {
@@ -90,6 +96,28 @@ app.get("/health", (req, res) => {
   }
 });
 
+// Probes every configured provider (primaries and fallbacks); results are cached
+// for 30s unless ?refresh=true. Responds 503 when a primary provider fails
+const deepHealth = new DeepHealthCheck({ probes: configuredProbes(appConfig) });
+
+app.get("/health/deep", async (req, res) => {
+  let refresh: boolean;
+  try {
+    refresh = deepHealthQuerySchema.parse(req.query).refresh === "true";
+  } catch (error) {
+    logger.error({ error }, "Invalid query parameters for /health/deep");
+    res.status(400).json({ error: "Invalid query parameters" });
+    return;
+  }
+
+  const report = await deepHealth.run(refresh);
+  res.status(report.status === "down" ? 503 : 200).json({
+    ...report,
+    adapters: { enabled: appConfig.useRealAdapters },
+    circuits: orchestrator.circuits(),
+  });
+});
+
 // Ready check endpoint
 app.get("/ready", (req, res) => {
   try {
@@ -101,8 +129,31 @@ app.get("/ready", (req, res) => {
   }
 });
 
+// Prometheus scrape endpoint; ?format=json (or Accept: application/json) returns
+// the live latency percentiles over recent turns instead
+app.get("/metrics", (req, res) => {
+  try {
+    const { format } = metricsQuerySchema.parse(req.query);
+    const wantsJson = format === "json" || (!format && req.accepts(["text/plain", "application/json"]) === "application/json");
+
+    if (wantsJson) {
+      res.json({
+        timestamp: new Date().toISOString(),
+        unit: "ms",
+        ...orchestrator.latencyMetrics(),
+      });
+      return;
+    }
+
+    res.type(PROMETHEUS_CONTENT_TYPE).send(registry.render());
+  } catch (error) {
+    logger.error({ error }, "Invalid query parameters for /metrics");
+    res.status(400).json({ error: "Invalid query parameters" });
+  }
+});
+
 // Setup API routes for configuration management
-setupApiRoutes(app);
+setupApiRoutes(app, { isEpisodeOpen: (episodeId) => orchestrator.isEpisodeOpen(episodeId) });
 
 // Global error handler middleware
 app.use(
@@ -142,10 +193,27 @@ const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
 const orchestrator = new ProductionOrchestrator({
   useRealAdapters: appConfig.useRealAdapters,
   recordingDir: appConfig.recordingDir,
+  briefingsDir: appConfig.briefingsDir,
+  recordingFormats: appConfig.recordingFormats,
+  normalizeLoudness: appConfig.normalizeLoudness,
+  loudnessTargetLufs: appConfig.loudnessTargetLufs,
+  truePeakCeilingDbtp: appConfig.truePeakCeilingDbtp,
+  recordOnConnect: appConfig.recordOnConnect,
+  maxConsecutiveAgentTurns: appConfig.maxConsecutiveAgentTurns,
+  floorPolicy: appConfig.floorPolicy,
+  resumeGraceMs: appConfig.sessionResumeGraceMs,
+  fallbacks: appConfig.fallbacks,
+  circuitBreaker: {
+    failureThreshold: appConfig.circuitFailureThreshold,
+    cooldownMs: appConfig.circuitCooldownMs,
+  },
 });
 
 io.on("connection", async (socket) => {
   logger.info({ socketId: socket.id }, "New socket.io connection");
+  if (socket.handshake.auth?.reconnect === true) {
+    metrics.socketReconnects.inc();
+  }
 
   try {
     await orchestrator.register(socket);
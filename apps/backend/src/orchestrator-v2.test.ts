@@ -1,12 +1,46 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { ProductionOrchestrator } from "./orchestrator-v2";
+import { RealAdapterFactory } from "./adapters/factory";
 import { promises as fs } from "node:fs";
 
+/** Sockets that joined each socket.io room, so room broadcasts reach every member's emit */
+let rooms = new Map<string, any[]>();
+
+function createSocket(id: string, auth: Record<string, unknown> = {}): any {
+  const socket: any = {
+    id,
+    handshake: { auth },
+    emit: vi.fn(),
+    on: vi.fn(),
+    join: vi.fn((room: string) => rooms.set(room, [...(rooms.get(room) ?? []), socket])),
+    nsp: {
+      to: (room: string) => ({
+        emit: (...args: unknown[]) => rooms.get(room)?.forEach((member) => member.emit(...args)),
+      }),
+    },
+  };
+  return socket;
+}
+
+function pcm(value: number, samples: number): Buffer {
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    buffer.writeInt16LE(Math.round(value * 32767), i * 2);
+  }
+  return buffer;
+}
+
+function handlerFor(socket: any, event: string) {
+  return socket.on.mock.calls.find((call: any) => call[0] === event)?.[1];
+}
+
 describe("ProductionOrchestrator (Integration)", () => {
   let orchestrator: ProductionOrchestrator;
   const testRecordingDir = "./test-recordings-integration";
 
   beforeEach(() => {
+    rooms = new Map();
+
     // Create orchestrator
     orchestrator = new ProductionOrchestrator({
       useRealAdapters: false,
@@ -16,6 +50,8 @@ describe("ProductionOrchestrator (Integration)", () => {
   });
 
   afterEach(async () => {
+    vi.restoreAllMocks();
+
     // Cleanup
     if (orchestrator) {
       await orchestrator.shutdown();
@@ -30,22 +66,14 @@ describe("ProductionOrchestrator (Integration)", () => {
   });
 
   it("should register socket successfully", async () => {
-    const mockSocket: any = {
-      id: "test-socket-1",
-      emit: vi.fn(),
-      on: vi.fn(),
-    };
+    const mockSocket = createSocket("test-socket-1");
 
     await expect(orchestrator.register(mockSocket)).resolves.not.toThrow();
     expect(mockSocket.emit).toHaveBeenCalled();
   });
 
   it("should emit initial state on connection", async () => {
-    const mockSocket: any = {
-      id: "test-socket-1",
-      emit: vi.fn(),
-      on: vi.fn(),
-    };
+    const mockSocket = createSocket("test-socket-1");
 
     await orchestrator.register(mockSocket);
 
@@ -59,11 +87,7 @@ describe("ProductionOrchestrator (Integration)", () => {
   });
 
   it("should setup event handlers on socket", async () => {
-    const mockSocket: any = {
-      id: "test-socket-1",
-      emit: vi.fn(),
-      on: vi.fn(),
-    };
+    const mockSocket = createSocket("test-socket-1");
 
     await orchestrator.register(mockSocket);
 
@@ -75,11 +99,7 @@ describe("ProductionOrchestrator (Integration)", () => {
   });
 
   it("should cleanup session on disconnect", async () => {
-    const mockSocket: any = {
-      id: "test-disconnect",
-      emit: vi.fn(),
-      on: vi.fn(),
-    };
+    const mockSocket = createSocket("test-disconnect");
 
     await orchestrator.register(mockSocket);
     
@@ -94,17 +114,8 @@ describe("ProductionOrchestrator (Integration)", () => {
   });
 
   it("should handle multiple sessions concurrently", async () => {
-    const socket1: any = {
-      id: "session-1",
-      emit: vi.fn(),
-      on: vi.fn(),
-    };
-
-    const socket2: any = {
-      id: "session-2",
-      emit: vi.fn(),
-      on: vi.fn(),
-    };
+    const socket1 = createSocket("session-1");
+    const socket2 = createSocket("session-2");
 
     await Promise.all([
       orchestrator.register(socket1),
@@ -117,14 +128,402 @@ describe("ProductionOrchestrator (Integration)", () => {
   });
 
   it("should shutdown gracefully", async () => {
-    const mockSocket: any = {
-      id: "test-shutdown",
-      emit: vi.fn(),
-      on: vi.fn(),
-    };
+    const mockSocket = createSocket("test-shutdown");
 
     await orchestrator.register(mockSocket);
     
     await expect(orchestrator.shutdown()).resolves.not.toThrow();
   });
+
+  describe("STT wiring", () => {
+    it("should stream only voiced audio to STT and stop it on disconnect", async () => {
+      const stt = {
+        start: vi.fn().mockResolvedValue(undefined),
+        stop: vi.fn().mockResolvedValue(undefined),
+        sendAudio: vi.fn(),
+      };
+      const tts = { synthesize: vi.fn(), stop: vi.fn() };
+      vi.spyOn(RealAdapterFactory.prototype, "stt").mockReturnValue(stt);
+      vi.spyOn(RealAdapterFactory.prototype, "tts").mockReturnValue(tts);
+
+      orchestrator = new ProductionOrchestrator({
+        useRealAdapters: true,
+        episodeId: "test-stt",
+        recordingDir: testRecordingDir,
+      });
+
+      const mockSocket = createSocket("test-stt-socket");
+
+      await orchestrator.register(mockSocket);
+      expect(stt.start).toHaveBeenCalledWith("test-stt-socket");
+
+      const onAudio = handlerFor(mockSocket, "audio.chunk");
+
+      // 100 ms of silence is held back rather than streamed
+      await onAudio(pcm(0.001, 4800));
+      expect(stt.sendAudio).not.toHaveBeenCalled();
+
+      // Speech flushes the pre-roll and then streams the voiced chunk
+      await onAudio(pcm(0.05, 9600));
+      expect(stt.sendAudio).toHaveBeenCalledTimes(2);
+
+      await handlerFor(mockSocket, "disconnect")();
+      expect(stt.stop).toHaveBeenCalledWith("test-stt-socket");
+    });
+  });
+
+  describe("episode rooms", () => {
+    function snapshots(socket: any) {
+      return socket.emit.mock.calls.filter((call: any) => call[0] === "state.snapshot").map((call: any) => call[1]);
+    }
+
+    it("should let a second tab join the show instead of recording it again", async () => {
+      const stt = {
+        start: vi.fn().mockResolvedValue(undefined),
+        stop: vi.fn().mockResolvedValue(undefined),
+        sendAudio: vi.fn(),
+      };
+      vi.spyOn(RealAdapterFactory.prototype, "stt").mockReturnValue(stt);
+      vi.spyOn(RealAdapterFactory.prototype, "tts").mockReturnValue({ synthesize: vi.fn(), stop: vi.fn() });
+      orchestrator = new ProductionOrchestrator({
+        useRealAdapters: true,
+        episodeId: "test-rooms",
+        recordingDir: testRecordingDir,
+      });
+
+      const host = createSocket("host-tab");
+      const viewer = createSocket("second-tab");
+      await orchestrator.register(host);
+      await orchestrator.register(viewer);
+
+      expect(stt.start).toHaveBeenCalledTimes(1);
+      expect(host.join).toHaveBeenCalledWith("episode:test-rooms");
+      expect(viewer.join).toHaveBeenCalledWith("episode:test-rooms");
+
+      // Only the first tab to send audio feeds the show; the other tab's mic is dropped
+      await handlerFor(host, "audio.chunk")(pcm(0.001, 4800));
+      await handlerFor(viewer, "audio.chunk")(pcm(0.05, 9600));
+      expect(stt.sendAudio).not.toHaveBeenCalled();
+      await handlerFor(host, "audio.chunk")(pcm(0.05, 9600));
+      expect(stt.sendAudio).toHaveBeenCalled();
+
+      handlerFor(viewer, "client.toggle-autopilot")(true);
+      expect(snapshots(host).at(-1).autopilot).toBe(true);
+
+      await handlerFor(host, "disconnect")();
+      expect(stt.stop).not.toHaveBeenCalled();
+      await handlerFor(viewer, "disconnect")();
+      expect(stt.stop).toHaveBeenCalledWith("host-tab");
+    });
+
+    it("should keep separate episodes apart", async () => {
+      const first = createSocket("producer-1", { episodeId: "show-a" });
+      const second = createSocket("producer-2", { episodeId: "show-b" });
+      await orchestrator.register(first);
+      await orchestrator.register(second);
+
+      handlerFor(first, "client.toggle-autopilot")(true);
+      handlerFor(second, "client.request-state")();
+
+      expect(snapshots(first).at(-1).autopilot).toBe(true);
+      expect(snapshots(second).at(-1).autopilot).toBe(false);
+      expect(orchestrator.isEpisodeOpen("show-a")).toBe(true);
+
+      await orchestrator.shutdown();
+      expect(orchestrator.isEpisodeOpen("show-a")).toBe(false);
+      const episodes = await fs.readdir(testRecordingDir);
+      expect(episodes).toEqual(expect.arrayContaining(["show-a", "show-b"]));
+      expect(episodes).not.toContain("test-integration");
+    });
+
+    it("should open the next default show under a new episode id", async () => {
+      const first = createSocket("first-show");
+      await orchestrator.register(first);
+      await handlerFor(first, "disconnect")();
+
+      const second = createSocket("second-show");
+      await orchestrator.register(second);
+
+      expect(first.join).toHaveBeenCalledWith("episode:test-integration");
+      expect(second.join).toHaveBeenCalledWith(expect.stringMatching(/^episode:episode-\d+$/));
+    });
+
+    it("should refuse to reopen an episode that already has masters", async () => {
+      await fs.mkdir(`${testRecordingDir}/show-a`, { recursive: true });
+      await fs.writeFile(`${testRecordingDir}/show-a/host.wav`, "RIFF");
+      const socket = createSocket("producer-1", { episodeId: "show-a" });
+
+      await orchestrator.register(socket);
+
+      expect(socket.emit).toHaveBeenCalledWith("server.ack", "error: episode show-a is already recorded");
+      expect(orchestrator.isEpisodeOpen("show-a")).toBe(false);
+      expect(await fs.readFile(`${testRecordingDir}/show-a/host.wav`, "utf-8")).toBe("RIFF");
+    });
+
+    it("should refuse an episode id that is not a single path segment", async () => {
+      const socket = createSocket("sneaky", { episodeId: "../etc" });
+
+      await orchestrator.register(socket);
+
+      expect(socket.emit).toHaveBeenCalledWith("server.ack", "error: invalid episode id: ../etc");
+      expect(socket.join).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("client roles", () => {
+    function emitted(socket: any, event: string) {
+      return socket.emit.mock.calls.filter((call: any) => call[0] === event).map((call: any) => call.slice(1));
+    }
+
+    it("should seat a remote guest with their own STT stream and captions", async () => {
+      const stt = {
+        start: vi.fn().mockResolvedValue(undefined),
+        stop: vi.fn().mockResolvedValue(undefined),
+        sendAudio: vi.fn(),
+      };
+      let callbacks: any;
+      orchestrator = new ProductionOrchestrator({
+        useRealAdapters: true,
+        episodeId: "test-roles",
+        recordingDir: testRecordingDir,
+        createAdapterFactory: (config) => {
+          callbacks = config;
+          return {
+            stt: () => stt,
+            tts: () => ({ synthesize: vi.fn(), stop: vi.fn() }),
+            llm: () => ({ generate: async function* () {}, stop: vi.fn() }),
+          };
+        },
+      });
+
+      const host = createSocket("host");
+      const remote = createSocket("remote");
+      await orchestrator.register(host);
+      await orchestrator.register(remote);
+      await handlerFor(host, "hello")({ participantName: "Basil", role: "host" });
+      await handlerFor(remote, "hello")({ participantName: "Ada", role: "remote-guest" });
+
+      expect(emitted(remote, "session.role")).toEqual([["remote-guest"]]);
+      expect(stt.start).toHaveBeenCalledWith("host:remote");
+
+      await handlerFor(remote, "audio.chunk")(pcm(0.05, 9600));
+      expect(stt.sendAudio).toHaveBeenCalledWith("host:remote", expect.any(Buffer));
+      // STT is told the rate of the mic PCM it is sent
+      expect(callbacks.sttSampleRate).toBe(48_000);
+      expect(emitted(host, "orb.state")).toContainEqual(["remote", "speaking"]);
+
+      callbacks.onSttTranscript("host:remote", "Greetings from the remote line", true);
+      expect(emitted(host, "caption")).toContainEqual([
+        expect.objectContaining({ speaker: "remote", text: "Greetings from the remote line" }),
+      ]);
+
+      await handlerFor(remote, "disconnect")();
+      expect(stt.stop).toHaveBeenCalledWith("host:remote");
+      expect(stt.stop).not.toHaveBeenCalledWith("host");
+    });
+
+    it("should only let hosts and producers run the show", async () => {
+      const host = createSocket("host");
+      const producer = createSocket("producer");
+      const obs = createSocket("obs");
+      for (const socket of [host, producer, obs]) {
+        await orchestrator.register(socket);
+      }
+      await handlerFor(host, "hello")({ role: "host" });
+      await handlerFor(producer, "hello")({ role: "producer" });
+      await handlerFor(obs, "hello")({ role: "host" });
+
+      // The host's seat is taken, so a second host only watches
+      expect(emitted(obs, "session.role")).toEqual([["viewer"]]);
+
+      handlerFor(obs, "client.toggle-autopilot")(true);
+      expect(obs.emit).toHaveBeenCalledWith("server.ack", "error: only the host or producer can toggle autopilot");
+      expect(emitted(obs, "state.snapshot").at(-1)[0].autopilot).toBe(false);
+
+      handlerFor(producer, "client.toggle-thinking")({ on: true, speaker: "guest", durationMs: 10_000 });
+      expect(emitted(obs, "mode.thinking")).toEqual([[expect.objectContaining({ speaker: "guest", durationMs: 10_000 })]]);
+
+      handlerFor(producer, "client.toggle-thinking")({ on: false });
+      expect(emitted(obs, "mode.normal")).toEqual([[expect.objectContaining({ speaker: "guest" })]]);
+    });
+  });
+
+  describe("session resume", () => {
+    let stt: any;
+
+    beforeEach(() => {
+      stt = {
+        start: vi.fn().mockResolvedValue(undefined),
+        stop: vi.fn().mockResolvedValue(undefined),
+        sendAudio: vi.fn(),
+      };
+      vi.spyOn(RealAdapterFactory.prototype, "stt").mockReturnValue(stt);
+      vi.spyOn(RealAdapterFactory.prototype, "tts").mockReturnValue({ synthesize: vi.fn(), stop: vi.fn() });
+    });
+
+    function tokenOf(socket: any): string {
+      return socket.emit.mock.calls.find((call: any) => call[0] === "session.resume-token")[1];
+    }
+
+    it("should reattach a reconnecting host to the same session", async () => {
+      orchestrator = new ProductionOrchestrator({
+        useRealAdapters: true,
+        episodeId: "test-resume",
+        recordingDir: testRecordingDir,
+        resumeGraceMs: 10_000,
+      });
+
+      const before = createSocket("before-blip");
+      await orchestrator.register(before);
+      await handlerFor(before, "hello")({ role: "host" });
+      await handlerFor(before, "disconnect")();
+      expect(stt.stop).not.toHaveBeenCalled();
+
+      const after = createSocket("after-blip");
+      await orchestrator.register(after);
+      await handlerFor(after, "hello")({ role: "host", resumeToken: tokenOf(before) });
+
+      // Same seat and STT stream; a fresh host would have been turned away as a viewer
+      expect(after.emit).toHaveBeenCalledWith("session.role", "host");
+      expect(tokenOf(after)).toBe(tokenOf(before));
+      expect(stt.start).toHaveBeenCalledTimes(1);
+      await handlerFor(after, "audio.chunk")(pcm(0.05, 9600));
+      expect(stt.sendAudio).toHaveBeenCalledWith("before-blip", expect.any(Buffer));
+
+      await orchestrator.shutdown();
+      const log = await fs.readFile(`${testRecordingDir}/test-resume/events.jsonl`, "utf-8");
+      const types = log.trim().split("\n").map((line) => JSON.parse(line).type);
+      expect(types.filter((type) => type === "session.resume")).toHaveLength(1);
+      expect(types.filter((type) => type === "session.end")).toHaveLength(1);
+    });
+
+    it("should finalize the episode when nobody comes back in time", async () => {
+      orchestrator = new ProductionOrchestrator({
+        useRealAdapters: true,
+        episodeId: "test-resume-expired",
+        recordingDir: testRecordingDir,
+        resumeGraceMs: 20,
+      });
+
+      const socket = createSocket("gone");
+      await orchestrator.register(socket);
+      await handlerFor(socket, "hello")({ role: "host" });
+      await handlerFor(socket, "disconnect")();
+
+      await vi.waitFor(() => expect(stt.stop).toHaveBeenCalledWith("gone"));
+    });
+  });
+
+  describe("episode lifecycle", () => {
+    function emitted(socket: any, event: string) {
+      return socket.emit.mock.calls.filter((call: any) => call[0] === event).map((call: any) => call[1]);
+    }
+
+    beforeEach(() => {
+      orchestrator = new ProductionOrchestrator({
+        useRealAdapters: false,
+        episodeId: "test-lifecycle",
+        recordingDir: testRecordingDir,
+        recordOnConnect: false,
+      });
+    });
+
+    it("should only record between episode.start and episode.stop", async () => {
+      const host = createSocket("host");
+      await orchestrator.register(host);
+      await handlerFor(host, "hello")({ role: "host" });
+      expect(emitted(host, "state.snapshot")[0].episode).toEqual({ episodeId: "test-lifecycle", status: "armed" });
+
+      handlerFor(host, "episode.pause")();
+      expect(host.emit).toHaveBeenCalledWith("server.ack", "error: cannot pause an episode that is armed");
+
+      await handlerFor(host, "episode.start")({ title: "  Pilot  " });
+      handlerFor(host, "episode.pause")();
+      handlerFor(host, "episode.resume")();
+      await handlerFor(host, "episode.stop")();
+
+      expect(emitted(host, "episode.state").map((state: any) => state.status)).toEqual([
+        "recording",
+        "paused",
+        "recording",
+        "stopped",
+      ]);
+      expect(emitted(host, "episode.state")[0]).toMatchObject({ title: "Pilot", startedAt: expect.any(Number) });
+      expect(emitted(host, "recording.ready")).toEqual([
+        expect.objectContaining({ files: expect.arrayContaining(["session.yml", "transcript.md"]) }),
+      ]);
+
+      // Closing the room afterwards does not finalize the recording a second time
+      await handlerFor(host, "disconnect")();
+      expect(emitted(host, "recording.ready")).toHaveLength(1);
+
+      const log = await fs.readFile(`${testRecordingDir}/test-lifecycle/events.jsonl`, "utf-8");
+      const types = log.trim().split("\n").map((line) => JSON.parse(line).type);
+      expect(types.filter((type) => type.startsWith("episode."))).toEqual([
+        "episode.start",
+        "episode.pause",
+        "episode.resume",
+        "episode.stop",
+      ]);
+    });
+
+    it("should refuse lifecycle changes from viewers and unknown briefings", async () => {
+      const host = createSocket("host");
+      const viewer = createSocket("viewer");
+      await orchestrator.register(host);
+      await orchestrator.register(viewer);
+      await handlerFor(host, "hello")({ role: "host" });
+      await handlerFor(viewer, "hello")({ role: "viewer" });
+
+      await handlerFor(viewer, "episode.start")({});
+      expect(viewer.emit).toHaveBeenCalledWith("server.ack", "error: only the host or producer can start the episode");
+
+      await handlerFor(host, "episode.start")({ briefing: "../../etc/passwd" });
+      expect(host.emit).toHaveBeenCalledWith("server.ack", "error: invalid briefing: ../../etc/passwd");
+      expect(emitted(host, "episode.state")).toEqual([]);
+    });
+
+    it("should prepare the agents with a briefing attached mid-show", async () => {
+      const briefingsDir = `${testRecordingDir}/briefings`;
+      await fs.mkdir(briefingsDir, { recursive: true });
+      await fs.writeFile(`${briefingsDir}/pilot.md`, "---\ntopic: Tide pools\n---\n\nStart with anemones.\n");
+
+      const prompts: string[] = [];
+      let callbacks: any;
+      orchestrator = new ProductionOrchestrator({
+        useRealAdapters: true,
+        episodeId: "test-briefing",
+        recordingDir: testRecordingDir,
+        briefingsDir,
+        recordOnConnect: false,
+        createAdapterFactory: (config) => {
+          callbacks = config;
+          return {
+            stt: () => ({ start: vi.fn().mockResolvedValue(undefined), stop: vi.fn(), sendAudio: vi.fn() }),
+            tts: () => ({ synthesize: vi.fn().mockResolvedValue(undefined), stop: vi.fn() }),
+            llm: () => ({
+              generate: async function* (_sessionId: string, request: any) {
+                prompts.push(request.system);
+                yield "Sure.";
+              },
+              stop: vi.fn(),
+            }),
+          };
+        },
+      });
+
+      const host = createSocket("host");
+      await orchestrator.register(host);
+      await handlerFor(host, "hello")({ role: "host" });
+
+      await handlerFor(host, "episode.briefing")("missing.md");
+      expect(host.emit).toHaveBeenCalledWith("server.ack", "error: briefing not found: missing.md");
+
+      await handlerFor(host, "episode.briefing")("pilot.md");
+      expect(emitted(host, "episode.state").at(-1)).toMatchObject({ status: "armed", briefing: "pilot.md" });
+
+      callbacks.onSttTranscript("host", "Claude, where should we start?", true);
+      await vi.waitFor(() => expect(prompts.some((prompt) => prompt.includes("Tide pools"))).toBe(true));
+    });
+  });
 });
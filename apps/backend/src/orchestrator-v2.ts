@@ -1,61 +1,133 @@
 import { randomUUID } from "node:crypto";
-import type { Socket } from "socket.io";
+import { join } from "node:path";
 import type {
   CaptionPayload,
-  ClientToServerEvents,
+  ClientThinkingPayload,
+  EpisodeStartPayload,
+  EpisodeStatus,
+  HumanSpeakerId,
   ModeNormalPayload,
   ModeThinkingPayload,
-  OrchestratorStateSnapshot,
   OrbState,
-  ServerToClientEvents,
-  SharedScreenState,
+  ShowSegmentPayload,
   SpeakerId,
 } from "@basil/shared";
-import { RealAdapterFactory, type FactoryConfig } from "./adapters/factory.js";
-import { RecorderService } from "./services/recorder.js";
-import { EventLogger } from "./services/event-logger.js";
-import { BriefingLoader } from "./services/briefing-loader.js";
-import type { TtsAdapter } from "./adapters/interfaces.js";
+import type { FactoryConfig } from "./adapters/factory.js";
+import type { CircuitState } from "./adapters/circuit-breaker.js";
+import { FailoverAdapterFactory, type FallbackChains, type ProviderChange } from "./adapters/failover.js";
+import { RecorderService, type CaptionTiming, type RecordingFormat } from "./services/recorder.js";
+import { EventLogger, type EpisodeLifecycleEvent, type ModeTrigger } from "./services/event-logger.js";
+import { BriefingLoader, isBriefingName, type ParsedBriefing } from "./services/briefing-loader.js";
+import type {
+  AdapterFactory,
+  AdapterProviders,
+  LlmAdapter,
+  SttAdapter,
+  SttTiming,
+  TtsAdapter,
+} from "./adapters/interfaces.js";
 import { VadDetector } from "./services/vad-detector.js";
 import { CommandRouter, type CommandRouteResult } from "./services/command-router.js";
-
-interface OrchestratorConfig {
+import { TurnEngine } from "./services/turn-engine.js";
+import { ConversationHistory } from "./services/conversation-history.js";
+import { Showrunner } from "./services/showrunner.js";
+import { FloorManager, type FloorPolicy } from "./services/floor-manager.js";
+import { SttClock } from "./services/stt-clock.js";
+import { exportTranscript } from "./services/transcript-export.js";
+import {
+  exportLatencyMetrics,
+  LatencyTracker,
+  summarizeLatency,
+  turnSpans,
+  type LatencySummary,
+  type LatencyTrackerOptions,
+  type TurnLatency,
+} from "./services/latency-metrics.js";
+import { metrics } from "./services/metrics.js";
+import { EpisodeRoom, isClientRole, type StudioSocket } from "./services/episode-room.js";
+import { EpisodeLibrary, isEpisodeId } from "./services/episode-library.js";
+
+export interface OrchestratorConfig {
   useRealAdapters?: boolean;
+  /** Builds the STT/TTS/LLM adapters; defaults to real providers behind FailoverAdapterFactory. Replays swap in scripted adapters */
+  createAdapterFactory?: (config: FactoryConfig) => AdapterFactory;
   episodeId?: string;
-  briefingPath?: string;
+  /** Where briefings picked with episode.start or episode.briefing are read from */
+  briefingsDir?: string;
   recordingDir?: string;
+  maxConsecutiveAgentTurns?: number;
+  floorPolicy?: FloorPolicy;
+  recordingFormats?: RecordingFormat[];
+  normalizeLoudness?: boolean;
+  loudnessTargetLufs?: number;
+  truePeakCeilingDbtp?: number;
+  /** Providers each role falls back to after its primary */
+  fallbacks?: FallbackChains;
+  /** Consecutive failures before a provider is skipped, and for how long */
+  circuitBreaker?: { failureThreshold?: number; cooldownMs?: number };
+  /**
+   * How long a dropped client's role and seat, and a room with nobody left
+   * in it, wait for a reconnect before being closed. Off (0) by default
+   */
+  resumeGraceMs?: number;
+  /**
+   * Start recording as soon as a room opens, as before episodes had a
+   * lifecycle. When off, rooms open armed and record from episode.start
+   */
+  recordOnConnect?: boolean;
 }
 
 type AgentSpeaker = Extract<SpeakerId, "claude" | "guest">;
 
+// The studio streams 16-bit mono mic PCM at this rate, and STT is told so
+const MIC_SAMPLE_RATE = 48_000;
+
+// ~300 ms of mic PCM, enough to cover the VAD onset delay
+const STT_PREROLL_BYTES = MIC_SAMPLE_RATE * 2 * 0.3;
+
+// Beat between autopilot turns, and how long to wait for the host's
+// transcript before the show carries on after they stop talking
+const AUTOPILOT_TURN_GAP_MS = 600;
+const AUTOPILOT_RESUME_DELAY_MS = 4_000;
+
+// Recent turns kept for the live latency percentiles
+const LATENCY_WINDOW_TURNS = 500;
+
 export class ProductionOrchestrator {
-  private autopilot = false;
-  private orbStates: Record<SpeakerId, OrbState> = {
-    you: "idle",
-    claude: "idle",
-    guest: "idle",
-  };
-  private captions: CaptionPayload[] = [];
   private config: OrchestratorConfig;
-  private adapterFactory: RealAdapterFactory;
-  private recorder?: RecorderService;
-  private eventLogger?: EventLogger;
+  private adapterFactory: AdapterFactory;
   private briefingLoader: BriefingLoader;
+  /** One per open room, keyed by the session that opened it; adapter callbacks carry that id */
   private activeSessions = new Map<string, SessionContext>();
-  private sharedScreen: SharedScreenState = { mode: "conversation" };
-  private thinkingTimer?: NodeJS.Timeout;
+  /** Rooms by episode id, including ones still starting up */
+  private rooms = new Map<string, Promise<SessionContext>>();
+  /** Episode of the room sockets join when they don't ask for one; a fresh id once that room closes */
+  private defaultEpisodeId?: string;
+  private episodes: EpisodeLibrary;
   private duckingGain = Math.pow(10, -12 / 20);
+  private recentTurns: TurnLatency[] = [];
 
   constructor(config: OrchestratorConfig = {}) {
     this.config = {
-      useRealAdapters: process.env.USE_REAL_ADAPTERS === "true",
-      episodeId: config.episodeId || `episode-${Date.now()}`,
-      briefingPath: config.briefingPath,
+      useRealAdapters: config.useRealAdapters ?? process.env.USE_REAL_ADAPTERS === "true",
+      episodeId: config.episodeId,
+      briefingsDir: config.briefingsDir || "./briefings",
       recordingDir: config.recordingDir || "./recordings",
+      maxConsecutiveAgentTurns: config.maxConsecutiveAgentTurns,
+      floorPolicy: config.floorPolicy,
+      recordingFormats: config.recordingFormats,
+      normalizeLoudness: config.normalizeLoudness,
+      loudnessTargetLufs: config.loudnessTargetLufs,
+      truePeakCeilingDbtp: config.truePeakCeilingDbtp,
+      fallbacks: config.fallbacks,
+      circuitBreaker: config.circuitBreaker,
+      resumeGraceMs: config.resumeGraceMs ?? 0,
+      recordOnConnect: config.recordOnConnect ?? true,
     };
 
     // Initialize adapter factory
     const factoryConfig: FactoryConfig = {
+      sttSampleRate: MIC_SAMPLE_RATE,
       onSttTranscript: this.handleSttTranscript.bind(this),
       onSttError: this.handleSttError.bind(this),
       onTtsAudioChunk: this.handleTtsAudioChunk.bind(this),
@@ -63,24 +135,34 @@ export class ProductionOrchestrator {
       onTtsError: this.handleTtsError.bind(this),
     };
 
-    this.adapterFactory = new RealAdapterFactory(factoryConfig);
-    this.briefingLoader = new BriefingLoader();
-
-    console.info(`[orchestrator] initialized with episode: ${this.config.episodeId}`);
+    this.adapterFactory = config.createAdapterFactory
+      ? config.createAdapterFactory(factoryConfig)
+      : new FailoverAdapterFactory({
+          ...factoryConfig,
+          fallbacks: this.config.fallbacks,
+          breaker: this.config.circuitBreaker,
+          onProviderChange: this.handleProviderChange.bind(this),
+        });
+    this.briefingLoader = new BriefingLoader(this.config.briefingsDir);
+    this.episodes = new EpisodeLibrary(this.config.recordingDir);
+    this.defaultEpisodeId = this.config.episodeId;
+
+    console.info(`[orchestrator] initialized with episode: ${this.config.episodeId ?? "(new per show)"}`);
   }
 
-  async register(socket: Socket<ClientToServerEvents, ServerToClientEvents>): Promise<void> {
+  async register(socket: StudioSocket): Promise<void> {
     const sessionId = socket.id;
     console.info(`[orchestrator] registering session ${sessionId}`);
 
     try {
-      // Create session context
-      const context = await this.createSession(sessionId, socket);
-      this.activeSessions.set(sessionId, context);
+      // Join the episode's room, opening it if this is its first socket
+      const context = await this.openRoom(this.episodeIdFor(socket), sessionId);
+      context.room.join(socket);
+      metrics.activeSessions.set(this.connectedSockets());
 
       // Send initial state
       socket.emit("server.ack", "connected");
-      socket.emit("state.snapshot", this.snapshot());
+      socket.emit("state.snapshot", context.room.snapshot());
 
       // Set up event handlers
       this.setupSocketHandlers(socket, context);
@@ -92,112 +174,315 @@ export class ProductionOrchestrator {
     }
   }
 
-  private async createSession(
-    sessionId: string,
-    socket: Socket<ClientToServerEvents, ServerToClientEvents>
-  ): Promise<SessionContext> {
-    // Initialize event logger
+  /**
+   * Sockets pick their show with `auth: { episodeId }` when connecting; the rest share the default
+   * episode, which gets a new id for each show so a finished one is never reopened.
+   */
+  private episodeIdFor(socket: StudioSocket): string {
+    const requested = socket.handshake?.auth?.episodeId;
+    if (requested === undefined) return (this.defaultEpisodeId ??= `episode-${Date.now()}`);
+
+    if (typeof requested !== "string" || !isEpisodeId(requested)) {
+      throw new Error(`invalid episode id: ${String(requested)}`);
+    }
+    return requested;
+  }
+
+  private openRoom(episodeId: string, sessionId: string): Promise<SessionContext> {
+    let room = this.rooms.get(episodeId);
+    if (!room) {
+      console.info(`[orchestrator] opening room for episode ${episodeId}`);
+      room = this.createSession(sessionId, episodeId);
+      room.then(
+        (context) => this.activeSessions.set(context.sessionId, context),
+        () => this.rooms.delete(episodeId)
+      );
+      this.rooms.set(episodeId, room);
+    }
+    return room;
+  }
+
+  private async createSession(sessionId: string, episodeId: string): Promise<SessionContext> {
+    // Reopening would truncate the masters and append a second show to events.jsonl
+    if (await this.episodes.hasMasters(episodeId)) {
+      throw new Error(`episode ${episodeId} is already recorded`);
+    }
+
+    // Initialize event logger, measuring turn latency off the same events
+    const latency = new LatencyTracker({
+      ...this.latencyProviders(),
+      onTurn: (turn) => {
+        for (const [span, provider, ms] of turnSpans(turn)) {
+          metrics.turnLatency.observe({ span, provider }, ms / 1000);
+        }
+        this.recentTurns.push(turn);
+        if (this.recentTurns.length > LATENCY_WINDOW_TURNS) this.recentTurns.shift();
+      },
+    });
     const eventLogger = new EventLogger({
-      episodeId: this.config.episodeId!,
+      episodeId,
       outputDir: this.config.recordingDir,
+      onEvent: (event) => latency.record(event),
     });
     await eventLogger.start();
-    eventLogger.logSessionStart(sessionId, this.config.episodeId!, {
+    eventLogger.logSessionStart(sessionId, episodeId, {
       useRealAdapters: this.config.useRealAdapters,
-      briefingPath: this.config.briefingPath,
     });
 
     // Initialize recorder
     const recorder = new RecorderService({
-      episodeId: this.config.episodeId!,
+      episodeId,
       outputDir: this.config.recordingDir,
+      formats: this.config.recordingFormats,
+      duckingGain: this.duckingGain,
+      normalizeLoudness: this.config.normalizeLoudness,
+      targetLufs: this.config.loudnessTargetLufs,
+      truePeakDbtp: this.config.truePeakCeilingDbtp,
     });
-    await recorder.start();
-
-    // Load briefing if provided
-    let briefing;
-    if (this.config.briefingPath) {
-      try {
-        briefing = await this.briefingLoader.load(this.config.briefingPath);
-        console.info(`[orchestrator] loaded briefing: ${briefing.metadata.title || "untitled"}`);
-      } catch (error) {
-        console.warn(`[orchestrator] failed to load briefing:`, error);
-      }
+    const room = new EpisodeRoom(episodeId, recorder, eventLogger);
+    if (this.config.recordOnConnect) {
+      await recorder.start();
+      room.episode = { episodeId, status: "recording", startedAt: Date.now() };
+      eventLogger.logEpisode(sessionId, "episode.start");
     }
 
-    const vad = new VadDetector({
-      onSpeechStart: () => this.handleHumanSpeechStart(sessionId),
-      onSpeechEnd: () => this.handleHumanSpeechEnd(sessionId),
-    });
-
     const commandRouter = new CommandRouter();
 
-    const resolveAdapter = async <T>(adapter: T | Promise<T>): Promise<T> => {
-      if (adapter && typeof (adapter as any).then === "function") {
-        return await (adapter as unknown as Promise<T>);
-      }
-      return adapter as T;
-    };
+    // RealAdapterFactory loads the STT and TTS SDKs lazily and hands back a promise
+    const resolveAdapter = <T>(adapter: T | Promise<T>): Promise<T> => Promise.resolve(adapter);
 
+    let stt: SttAdapter | undefined;
     let claudeTts: TtsAdapter | undefined;
     let guestTts: TtsAdapter | undefined;
+    const llmAdapters: Partial<Record<AgentSpeaker, LlmAdapter>> = {};
 
     if (this.config.useRealAdapters) {
       try {
-        claudeTts = await resolveAdapter(this.adapterFactory.tts("claude") as any);
+        const adapter = await resolveAdapter(this.adapterFactory.stt());
+        await adapter.start(sessionId);
+        stt = adapter;
+      } catch (error) {
+        console.warn("[orchestrator] failed to initialize STT adapter", error);
+      }
+
+      try {
+        claudeTts = await resolveAdapter(this.adapterFactory.tts("claude"));
       } catch (error) {
         console.warn("[orchestrator] failed to initialize Claude TTS adapter", error);
       }
 
       try {
-        guestTts = await resolveAdapter(this.adapterFactory.tts("guest") as any);
+        guestTts = await resolveAdapter(this.adapterFactory.tts("guest"));
       } catch (error) {
         console.warn("[orchestrator] failed to initialize guest TTS adapter", error);
       }
+
+      for (const agent of ["claude", "guest"] as AgentSpeaker[]) {
+        try {
+          llmAdapters[agent] = this.adapterFactory.llm(agent);
+        } catch (error) {
+          console.warn(`[orchestrator] failed to initialize ${agent} LLM adapter`, error);
+        }
+      }
     }
 
-    return {
+    const ttsAdapters = {
+      claude: claudeTts,
+      guest: guestTts,
+    };
+
+    const history = new ConversationHistory();
+    // Without a briefing the agents still get the generic co-host/guest prompts
+    const genericPrompts = this.briefingLoader.parse("");
+
+    const floor = new FloorManager({
+      maxConsecutiveAgentTurns: this.config.maxConsecutiveAgentTurns,
+      policy: this.config.floorPolicy,
+    });
+
+    const turnEngine = new TurnEngine({
+      sessionId,
+      eventLogger,
+      history,
+      // Read on every turn, so a briefing attached mid-show takes effect from the next reply
+      getSystemPrompt: (speaker) => {
+        const prompts = context.briefing ?? genericPrompts;
+        return speaker === "claude" ? prompts.systemPromptClaude : prompts.systemPromptGuest;
+      },
+      llmAdapters,
+      ttsAdapters,
+      onTurnStart: (speaker) => this.handleAgentTurnStart(sessionId, speaker),
+      onSpeechStart: (speaker, text) => this.handleAgentSpeechStart(sessionId, speaker, text),
+      onSpeechEnd: (speaker, text) => void this.handleAgentSpeechEnd(sessionId, speaker, text),
+      onTurnEnd: (speaker) => this.handleAgentTurnEnd(sessionId, speaker),
+      getFollowUps: (speaker, reply, queued) => this.decideFollowUps(sessionId, speaker, reply, queued),
+    });
+
+    const context: SessionContext = {
       sessionId,
-      socket,
+      room,
       eventLogger,
       recorder,
-      briefing,
-      isRecording: false,
       isSpeaking: false,
-      vad,
+      // The host's STT stream is the session's own; a remote guest gets one when they join
+      seats: new Map([["you", this.createSeat(sessionId, "you", sessionId, recorder)]]),
       commandRouter,
-      ttsAdapters: {
-        claude: claudeTts,
-        guest: guestTts,
-      },
+      stt,
+      speechCaptions: {},
+      ttsAdapters,
+      history,
+      turnEngine,
+      floor,
+      showrunner: this.createShowrunner(sessionId),
       activeAgentSpeakers: new Set<AgentSpeaker>(),
       duckingActive: false,
       humanSpeaking: false,
+      resumeTimers: new Map(),
     };
+    return context;
   }
 
-  private setupSocketHandlers(
-    socket: Socket<ClientToServerEvents, ServerToClientEvents>,
-    context: SessionContext
-  ): void {
-    const { sessionId, eventLogger } = context;
+  /** The show's running order is planned from the briefing's target duration and topic */
+  private createShowrunner(sessionId: string, briefing?: ParsedBriefing): Showrunner {
+    return new Showrunner({
+      targetDuration: briefing?.metadata.targetDuration,
+      topic: briefing?.metadata.topic,
+      onSegmentChange: (segment) => this.handleShowSegment(sessionId, segment),
+      onComplete: () => this.handleShowComplete(sessionId),
+    });
+  }
+
+  /**
+   * Loads a briefing from the briefings dir and prepares the agents with it
+   * from the next turn on. A show already on autopilot keeps its running
+   * order; otherwise it is replanned.
+   */
+  private async attachBriefing(context: SessionContext, name: string): Promise<void> {
+    if (!isBriefingName(name)) throw new Error(`invalid briefing: ${name}`);
+
+    let briefing: ParsedBriefing;
+    try {
+      briefing = await this.briefingLoader.load(name);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") throw new Error(`briefing not found: ${name}`);
+      throw error;
+    }
+
+    context.briefing = briefing;
+    context.room.episode = { ...context.room.episode, briefing: name };
+    if (!context.showrunner.isRunning()) {
+      context.showrunner = this.createShowrunner(context.sessionId, briefing);
+    }
+    console.info(`[orchestrator] attached briefing ${name}: ${briefing.metadata.title || "untitled"}`);
+  }
+
+  private createSeat(
+    sessionId: string,
+    speaker: HumanSpeakerId,
+    sttStreamId: string,
+    recorder: RecorderService
+  ): HumanSeat {
+    return {
+      speaker,
+      sttStreamId,
+      vad: new VadDetector({
+        onSpeechStart: () => this.handleHumanSpeechStart(sessionId, speaker),
+        onSpeechEnd: () => this.handleHumanSpeechEnd(sessionId, speaker),
+      }),
+      speaking: false,
+      sttPreroll: [],
+      sttClock: new SttClock(recorder.getBusFormat(speaker)),
+    };
+  }
+
+  /** Seats a remote guest: their own VAD, recorder bus and STT stream */
+  private async openSeat(context: SessionContext, speaker: HumanSpeakerId): Promise<void> {
+    if (context.seats.has(speaker)) return;
+
+    const sttStreamId = `${context.sessionId}:${speaker}`;
+    context.seats.set(speaker, this.createSeat(context.sessionId, speaker, sttStreamId, context.recorder));
+    console.info(`[orchestrator] ${speaker} seat opened in ${context.room.id}`);
+
+    if (context.stt) {
+      try {
+        await context.stt.start(sttStreamId);
+      } catch (error) {
+        console.warn(`[orchestrator] failed to start STT for ${speaker}`, error);
+      }
+    }
+  }
+
+  private async closeSeat(context: SessionContext, speaker: HumanSpeakerId): Promise<void> {
+    const seat = context.seats.get(speaker);
+    // The host's seat lasts as long as the room so a reconnecting host keeps their pipeline
+    if (!seat || speaker === "you") return;
+
+    if (seat.speaking) this.handleHumanSpeechEnd(context.sessionId, speaker);
+    context.seats.delete(speaker);
+    this.updateOrbState(speaker, "idle", context);
+    console.info(`[orchestrator] ${speaker} seat closed in ${context.room.id}`);
+
+    try {
+      await context.stt?.stop(seat.sttStreamId);
+    } catch (error) {
+      console.warn(`[orchestrator] failed to stop STT for ${speaker}`, error);
+    }
+  }
+
+  /** The room and seat an STT stream belongs to */
+  private findSeat(sttStreamId: string): { context: SessionContext; seat: HumanSeat } | undefined {
+    for (const context of this.activeSessions.values()) {
+      for (const seat of context.seats.values()) {
+        if (seat.sttStreamId === sttStreamId) return { context, seat };
+      }
+    }
+    return undefined;
+  }
+
+  private setupSocketHandlers(socket: StudioSocket, context: SessionContext): void {
+    const { sessionId, eventLogger, room } = context;
 
     socket.on("hello", async (payload) => {
       const participant = payload.participantName ?? "anonymous";
-      console.info(`[orchestrator] hello from ${participant}`);
-      
-      socket.emit("server.ack", `hello ${participant}`);
-      eventLogger.log({
-        type: "session.start",
-        sessionId,
-        episodeId: payload.episodeId || this.config.episodeId!,
-        config: { participant },
-      } as any);
+      const requested = payload.role ?? "host";
+      console.info(`[orchestrator] hello from ${participant} (${requested})`);
+
+      const downtimeMs = payload.resumeToken ? room.resume(socket.id, payload.resumeToken) : undefined;
+      if (downtimeMs !== undefined) {
+        clearTimeout(context.resumeTimers.get(payload.resumeToken!));
+        context.resumeTimers.delete(payload.resumeToken!);
+        console.info(`[orchestrator] ${participant} resumed in ${room.id} after ${downtimeMs} ms`);
+      }
+
+      const previousSeat = room.seatOf(socket.id);
+      const role = room.setRole(socket.id, isClientRole(requested) ? requested : "viewer");
+      const seat = room.seatOf(socket.id);
+      if (seat !== previousSeat) {
+        if (previousSeat) await this.closeSeat(context, previousSeat);
+        if (seat) await this.openSeat(context, seat);
+      }
+
+      socket.emit("session.role", role);
+      socket.emit("session.resume-token", room.tokenOf(socket.id)!);
+      socket.emit(
+        "server.ack",
+        role === requested ? `hello ${participant}` : `hello ${participant}, ${requested} unavailable, joined as ${role}`
+      );
+
+      // A resumed client carries on the session it already started in the log
+      if (downtimeMs !== undefined) {
+        eventLogger.logSessionResume(socket.id, room.episodeId, downtimeMs);
+        return;
+      }
+      eventLogger.logSessionHello(socket.id, room.episodeId, participant, role);
     });
 
     socket.on("audio.chunk", async (chunk) => {
+      const speaker = room.claimMic(socket.id);
+      if (!speaker) return;
+
       try {
-        await this.handleAudioChunk(sessionId, chunk);
+        await this.handleAudioChunk(sessionId, speaker, chunk);
       } catch (error) {
         console.error(`[orchestrator] error handling audio chunk:`, error);
         eventLogger.logError(sessionId, error as Error, { event: "audio.chunk" });
@@ -205,53 +490,263 @@ export class ProductionOrchestrator {
     });
 
     socket.on("client.toggle-autopilot", (on) => {
-      this.autopilot = on;
+      if (!room.canControl(socket.id)) {
+        socket.emit("server.ack", "error: only the host or producer can toggle autopilot");
+        return;
+      }
+
+      room.autopilot = on;
       console.info(`[orchestrator] autopilot ${on ? "enabled" : "disabled"}`);
-      
-      socket.emit("server.ack", `autopilot ${on ? "enabled" : "disabled"}`);
-      socket.emit("state.snapshot", this.snapshot());
-      
+
       eventLogger.logAutopilot(sessionId, on);
+
+      if (on) {
+        context.showrunner.start();
+        this.scheduleAutopilotTurn(context, AUTOPILOT_TURN_GAP_MS);
+      } else {
+        this.stopShow(context);
+      }
+
+      socket.emit("server.ack", `autopilot ${on ? "enabled" : "disabled"}`);
+      room.broadcast("state.snapshot", room.snapshot());
+    });
+
+    socket.on("client.toggle-thinking", (payload) => {
+      if (!room.canControl(socket.id)) {
+        socket.emit("server.ack", "error: only the host or producer can toggle thinking mode");
+        return;
+      }
+
+      this.toggleThinkingMode(context, payload);
+    });
+
+    socket.on("episode.start", async (payload) => {
+      if (!this.canChangeEpisode(socket, context, "start", ["armed"])) return;
+
+      try {
+        await this.startEpisode(context, payload ?? {});
+        socket.emit("server.ack", "episode started");
+      } catch (error) {
+        console.warn(`[orchestrator] failed to start episode ${room.episodeId}:`, error);
+        socket.emit("server.ack", `error: ${error instanceof Error ? error.message : "unknown error"}`);
+      }
+    });
+
+    socket.on("episode.briefing", async (name) => {
+      if (!this.canChangeEpisode(socket, context, "brief", ["armed", "recording", "paused"])) return;
+
+      try {
+        await this.attachBriefing(context, name);
+        socket.emit("server.ack", `briefing ${name} attached`);
+        room.broadcast("episode.state", room.episode);
+        room.broadcast("state.snapshot", room.snapshot());
+      } catch (error) {
+        console.warn(`[orchestrator] failed to attach briefing to ${room.episodeId}:`, error);
+        socket.emit("server.ack", `error: ${error instanceof Error ? error.message : "unknown error"}`);
+      }
+    });
+
+    socket.on("episode.pause", () => {
+      if (!this.canChangeEpisode(socket, context, "pause", ["recording"])) return;
+
+      context.recorder.pause();
+      this.setEpisodeStatus(context, "paused", "episode.pause");
+      socket.emit("server.ack", "episode paused");
+    });
+
+    socket.on("episode.resume", () => {
+      if (!this.canChangeEpisode(socket, context, "resume", ["paused"])) return;
+
+      context.recorder.resume();
+      this.setEpisodeStatus(context, "recording", "episode.resume");
+      socket.emit("server.ack", "episode resumed");
+    });
+
+    socket.on("episode.stop", async () => {
+      if (!this.canChangeEpisode(socket, context, "stop", ["recording", "paused"])) return;
+
+      // The conversation can carry on off the record, but the show is over
+      this.stopShow(context);
+      room.autopilot = false;
+      this.setEpisodeStatus(context, "stopped", "episode.stop");
+      await this.finalizeRecording(context);
+      socket.emit("server.ack", "episode stopped");
     });
 
     socket.on("client.request-state", () => {
-      socket.emit("state.snapshot", this.snapshot());
+      socket.emit("state.snapshot", room.snapshot());
     });
 
     socket.on("disconnect", async () => {
-      console.info(`[orchestrator] session ${sessionId} disconnecting`);
-      await this.cleanupSession(sessionId);
+      console.info(`[orchestrator] session ${socket.id} disconnecting`);
+      const token = room.leave(socket.id);
+      metrics.activeSessions.set(this.connectedSockets());
+
+      if (token && this.config.resumeGraceMs! > 0) {
+        // Hold the client's place, and the room, in case this is a network blip
+        context.resumeTimers.set(
+          token,
+          setTimeout(() => void this.releaseParticipant(context, token), this.config.resumeGraceMs)
+        );
+        return;
+      }
+
+      if (token) {
+        await this.releaseParticipant(context, token);
+      } else {
+        await this.closeRoomIfEmpty(context);
+      }
     });
   }
 
-  private async handleAudioChunk(sessionId: string, chunk: ArrayBuffer): Promise<void> {
+  /** Acks an error unless the client may run the show and the episode is in one of `from` */
+  private canChangeEpisode(
+    socket: StudioSocket,
+    context: SessionContext,
+    action: string,
+    from: EpisodeStatus[]
+  ): boolean {
+    const { room } = context;
+    if (!room.canControl(socket.id)) {
+      socket.emit("server.ack", `error: only the host or producer can ${action} the episode`);
+      return false;
+    }
+    if (!from.includes(room.episode.status)) {
+      socket.emit("server.ack", `error: cannot ${action} an episode that is ${room.episode.status}`);
+      return false;
+    }
+    return true;
+  }
+
+  /** Attaches the chosen briefing, if any, and starts recording */
+  private async startEpisode(context: SessionContext, payload: EpisodeStartPayload): Promise<void> {
+    const { room } = context;
+    const title = payload.title?.trim() || undefined;
+
+    if (payload.briefing !== undefined) await this.attachBriefing(context, payload.briefing);
+
+    // Claimed before the recorder starts so a second episode.start cannot slip in
+    if (room.episode.status !== "armed") throw new Error(`episode is already ${room.episode.status}`);
+    const armed = room.episode;
+    room.episode = { ...armed, status: "recording", title };
+
+    try {
+      await context.recorder.start();
+    } catch (error) {
+      room.episode = armed;
+      throw error;
+    }
+
+    room.episode.startedAt = Date.now();
+    console.info(`[orchestrator] episode ${room.episodeId} started${title ? `: ${title}` : ""}`);
+    context.eventLogger.logEpisode(context.sessionId, "episode.start", { title, briefing: room.episode.briefing });
+    room.broadcast("episode.state", room.episode);
+    room.broadcast("state.snapshot", room.snapshot());
+  }
+
+  private setEpisodeStatus(
+    context: SessionContext,
+    status: EpisodeStatus,
+    type: EpisodeLifecycleEvent["type"]
+  ): void {
+    const { room } = context;
+    room.episode = { ...room.episode, status };
+    console.info(`[orchestrator] episode ${room.episodeId} ${status}`);
+    context.eventLogger.logEpisode(context.sessionId, type);
+    room.broadcast("episode.state", room.episode);
+    room.broadcast("state.snapshot", room.snapshot());
+  }
+
+  /** Frees a client's seat once it has gone for good, closing the room if it was the last one */
+  private async releaseParticipant(context: SessionContext, token: string): Promise<void> {
+    context.resumeTimers.delete(token);
+    const seat = context.room.forget(token);
+    if (seat) await this.closeSeat(context, seat);
+    await this.closeRoomIfEmpty(context);
+  }
+
+  private async closeRoomIfEmpty(context: SessionContext): Promise<void> {
+    // The show ends with its last socket; other tabs leaving do not stop the recording
+    if (context.room.size === 0 && !context.room.awaitingResume()) {
+      await this.cleanupSession(context.sessionId);
+    }
+  }
+
+  private async handleAudioChunk(sessionId: string, speaker: HumanSpeakerId, chunk: ArrayBuffer): Promise<void> {
     const context = this.activeSessions.get(sessionId);
-    if (!context) return;
+    const seat = context?.seats.get(speaker);
+    if (!context || !seat) return;
 
     const buffer = Buffer.isBuffer(chunk)
       ? chunk
       : Buffer.from(chunk instanceof ArrayBuffer ? new Uint8Array(chunk) : chunk);
     
-    context.vad.processAudio(buffer);
-    
-    // Send to STT if available
-    // For now, this is a placeholder - will be wired when STT is fully integrated
-    
-    // Record audio (for "you" speaker)
-    await context.recorder.writeAudioChunk("you", buffer);
+    const receivedAt = Date.now();
+    const wasSpeaking = seat.speaking;
+    seat.vad.processAudio(buffer);
+
+    // Only voiced audio is streamed to STT; silence is held back in a short
+    // pre-roll that gets flushed when the VAD reports speech start.
+    if (seat.speaking || wasSpeaking) {
+      this.sendToStt(context, seat, buffer, receivedAt);
+    } else {
+      this.bufferSttPreroll(context, seat, buffer, receivedAt);
+    }
+
+    // Each human is recorded on their own bus
+    metrics.audioBytes.inc({ direction: "in", speaker }, buffer.length);
+    await context.recorder.writeAudioChunk(speaker, buffer);
+  }
+
+  private sendToStt(context: SessionContext, seat: HumanSeat, chunk: Buffer, receivedAt: number): void {
+    if (!context.stt?.sendAudio) return;
+
+    context.stt.sendAudio(seat.sttStreamId, chunk);
+    seat.sttClock.append(chunk.length, receivedAt);
   }
 
-  private handleHumanSpeechStart(sessionId: string): void {
+  private bufferSttPreroll(context: SessionContext, seat: HumanSeat, chunk: Buffer, receivedAt: number): void {
+    if (!context.stt) return;
+
+    seat.sttPreroll.push({ chunk, receivedAt });
+    let size = seat.sttPreroll.reduce((total, buffered) => total + buffered.chunk.length, 0);
+    while (size > STT_PREROLL_BYTES && seat.sttPreroll.length > 1) {
+      size -= seat.sttPreroll.shift()!.chunk.length;
+    }
+  }
+
+  private flushSttPreroll(context: SessionContext, seat: HumanSeat): void {
+    for (const { chunk, receivedAt } of seat.sttPreroll) {
+      this.sendToStt(context, seat, chunk, receivedAt);
+    }
+    seat.sttPreroll = [];
+  }
+
+  private handleHumanSpeechStart(sessionId: string, speaker: HumanSpeakerId): void {
     const context = this.activeSessions.get(sessionId);
-    if (!context || context.humanSpeaking) return;
+    const seat = context?.seats.get(speaker);
+    if (!context || !seat || seat.speaking) return;
+
+    seat.speaking = true;
+    context.eventLogger.logVadSpeechStart(sessionId, speaker);
+    this.flushSttPreroll(context, seat);
+
+    // A second human joining in keeps the agents ducked and muted as they are
+    if (context.humanSpeaking) {
+      this.updateOrbState(speaker, "speaking", context);
+      return;
+    }
 
     context.humanSpeaking = true;
     context.duckingActive = true;
-    context.eventLogger.logVadSpeechStart(sessionId, "you");
+    context.recorder.setDucking(true);
+
+    void context.turnEngine.cancel();
 
     const interrupted = Array.from(context.activeAgentSpeakers);
     if (interrupted.length > 0) {
-      context.eventLogger.logBargeIn(sessionId, "you", interrupted);
+      context.eventLogger.logBargeIn(sessionId, speaker, interrupted);
+      metrics.bargeIns.inc();
       for (const speaker of interrupted) {
         void this.stopAgentPlayback(context, speaker);
       }
@@ -259,25 +754,33 @@ export class ProductionOrchestrator {
     }
 
     context.orbRestore = {
-      claude: this.orbStates.claude,
-      guest: this.orbStates.guest,
+      claude: context.room.orbStates.claude,
+      guest: context.room.orbStates.guest,
     };
 
-    this.updateOrbState("you", "speaking", context);
+    this.updateOrbState(speaker, "speaking", context);
     for (const agent of ["claude", "guest"] as AgentSpeaker[]) {
       this.updateOrbState(agent, "muted", context);
     }
   }
 
-  private handleHumanSpeechEnd(sessionId: string): void {
+  private handleHumanSpeechEnd(sessionId: string, speaker: HumanSpeakerId): void {
     const context = this.activeSessions.get(sessionId);
-    if (!context || !context.humanSpeaking) return;
+    const seat = context?.seats.get(speaker);
+    if (!context || !seat || !seat.speaking) return;
+
+    seat.speaking = false;
+    context.eventLogger.logVadSpeechEnd(sessionId, speaker);
+    seat.speechEndedAt = Date.now();
+    this.updateOrbState(speaker, "listening", context);
+
+    // The agents get the floor back once every human has stopped
+    if (Array.from(context.seats.values()).some((other) => other.speaking)) return;
 
     context.humanSpeaking = false;
     context.duckingActive = false;
-    context.eventLogger.logVadSpeechEnd(sessionId, "you");
-
-    this.updateOrbState("you", "listening", context);
+    context.recorder.setDucking(false);
+    this.scheduleAutopilotTurn(context, AUTOPILOT_RESUME_DELAY_MS);
 
     const restore = context.orbRestore;
     if (restore) {
@@ -299,31 +802,48 @@ export class ProductionOrchestrator {
 
     switch (command.action) {
       case "thinking":
-        this.enterThinkingMode(context, command);
+        this.enterThinkingMode(context, (command.targets[0] as AgentSpeaker) || "claude", command.durationMs);
         break;
       case "address": {
         const targets = new Set<AgentSpeaker>(command.targets as AgentSpeaker[]);
         context.pendingTargets = targets;
-        context.socket.emit("server.ack", `routing to ${Array.from(targets).join(", ")}`);
+        context.room.broadcast("server.ack", `routing to ${Array.from(targets).join(", ")}`);
         break;
       }
       default:
-        context.pendingTargets = undefined;
         break;
     }
   }
 
-  private enterThinkingMode(context: SessionContext, command: CommandRouteResult): void {
-    const speaker = (command.targets[0] as AgentSpeaker) || "claude";
-    const durationMs = command.durationMs ?? 30_000;
+  /** Thinking mode from the producer console rather than a spoken command */
+  private toggleThinkingMode(context: SessionContext, payload: ClientThinkingPayload): void {
+    const { thinking } = context.room.sharedScreen;
+    if (!payload.on) {
+      if (thinking) this.exitThinkingMode(context, thinking.speaker as AgentSpeaker, "console");
+      return;
+    }
+
+    const { durationMs } = payload;
+    this.enterThinkingMode(
+      context,
+      payload.speaker === "guest" ? "guest" : "claude",
+      typeof durationMs === "number" && durationMs > 0 ? durationMs : undefined,
+      "console"
+    );
+  }
+
+  private enterThinkingMode(
+    context: SessionContext,
+    speaker: AgentSpeaker,
+    durationMs = 30_000,
+    trigger: ModeTrigger = "command"
+  ): void {
     const startedAt = Date.now();
     const endsAt = startedAt + durationMs;
+    const { room } = context;
 
-    if (this.thinkingTimer) {
-      clearTimeout(this.thinkingTimer);
-    }
-
-    this.sharedScreen = {
+    room.clearThinkingTimer();
+    room.sharedScreen = {
       mode: "thinking",
       thinking: {
         speaker,
@@ -339,11 +859,8 @@ export class ProductionOrchestrator {
       startedAt,
     };
 
-    this.broadcastSharedScreen();
-
-    for (const session of this.activeSessions.values()) {
-      session.socket.emit("mode.thinking", payload);
-    }
+    room.broadcast("shared-screen.state", room.sharedScreen);
+    room.broadcast("mode.thinking", payload);
 
     this.updateOrbState(speaker, "thinking", context);
     for (const other of ["claude", "guest"] as AgentSpeaker[]) {
@@ -352,44 +869,38 @@ export class ProductionOrchestrator {
       }
     }
 
-    context.eventLogger.logThinkingMode(context.sessionId, speaker, durationMs);
+    context.eventLogger.logThinkingMode(context.sessionId, speaker, durationMs, trigger);
+    metrics.thinkingEntries.inc();
 
-    this.thinkingTimer = setTimeout(() => {
-      this.exitThinkingMode(context, speaker);
+    room.thinkingTimer = setTimeout(() => {
+      this.exitThinkingMode(context, speaker, "timer");
     }, durationMs);
   }
 
-  private exitThinkingMode(context: SessionContext, speaker: AgentSpeaker): void {
-    if (this.sharedScreen.mode !== "thinking") {
+  private exitThinkingMode(context: SessionContext, speaker: AgentSpeaker, trigger: ModeTrigger): void {
+    const { room } = context;
+    if (room.sharedScreen.mode !== "thinking") {
       return;
     }
 
-    if (this.thinkingTimer) {
-      clearTimeout(this.thinkingTimer);
-      this.thinkingTimer = undefined;
-    }
-
-    this.sharedScreen = { mode: "conversation" };
-    this.broadcastSharedScreen();
+    room.clearThinkingTimer();
+    room.sharedScreen = { mode: "conversation" };
+    room.broadcast("shared-screen.state", room.sharedScreen);
 
     const payload: ModeNormalPayload = {
       speaker,
       endedAt: Date.now(),
     };
 
-    for (const session of this.activeSessions.values()) {
-      session.socket.emit("mode.normal", payload);
-    }
+    room.broadcast("mode.normal", payload);
+
+    context.eventLogger.logNormalMode(context.sessionId, speaker, trigger);
 
     for (const agent of ["claude", "guest"] as AgentSpeaker[]) {
       this.updateOrbState(agent, "listening", context);
     }
-  }
 
-  private broadcastSharedScreen(): void {
-    for (const session of this.activeSessions.values()) {
-      session.socket.emit("shared-screen.state", this.sharedScreen);
-    }
+    this.scheduleAutopilotTurn(context, AUTOPILOT_TURN_GAP_MS);
   }
 
   private async stopAgentPlayback(context: SessionContext, speaker: AgentSpeaker): Promise<void> {
@@ -409,50 +920,302 @@ export class ProductionOrchestrator {
     }
   }
 
-  private handleSttTranscript(sessionId: string, text: string, isFinal: boolean): void {
-    const context = this.activeSessions.get(sessionId);
-    if (!context) return;
+  private handleSttTranscript(sttStreamId: string, text: string, isFinal: boolean, timing?: SttTiming): void {
+    const found = this.findSeat(sttStreamId);
+    if (!found) return;
 
-    console.info(`[orchestrator] STT (${isFinal ? "final" : "partial"}): ${text}`);
+    const { context, seat } = found;
+    const { sessionId } = context;
+    const { speaker } = seat;
+    console.info(`[orchestrator] STT ${speaker} (${isFinal ? "final" : "partial"}): ${text}`);
 
     if (isFinal) {
+      // Only the first final after the speaker stops counts towards STT latency
+      if (seat.speechEndedAt !== undefined && !seat.speaking) {
+        metrics.sttDuration.observe({ provider: this.providers.stt }, (Date.now() - seat.speechEndedAt) / 1000);
+        seat.speechEndedAt = undefined;
+      }
+
+      const captionTiming = this.toCaptionTiming(seat, timing);
       const caption: CaptionPayload = {
         id: randomUUID(),
-        speaker: "you",
+        speaker,
         text,
-        timestamp: Date.now(),
+        timestamp: captionTiming?.start ?? Date.now(),
       };
 
-      this.addCaption(caption);
-      context.socket.emit("caption", caption);
-      context.recorder.addCaption("you", text);
-      context.eventLogger.logSttTranscript(sessionId, "you", text, true);
+      this.publishCaption(context, caption);
+      context.recorder.addCaption(speaker, text, captionTiming);
+      context.eventLogger.logSttTranscript(sessionId, speaker, text, true);
+      context.history.append(speaker, text, caption.timestamp);
+      context.floor.humanTurn();
 
       // Update orb state
-      this.updateOrbState("you", "listening", context);
+      this.updateOrbState(speaker, "listening", context);
 
       const command = context.commandRouter.route(text);
       if (command) {
         this.handleCommand(context, command);
       }
+
+      this.startAgentTurn(context, command);
+    }
+  }
+
+  /** Moves STT stream times onto the wall clock the recorder works in */
+  private toCaptionTiming(seat: HumanSeat, timing?: SttTiming): CaptionTiming | undefined {
+    if (!timing) return undefined;
+
+    const toWall = (streamMs: number) => seat.sttClock.toWallTime(streamMs);
+    const start = toWall(timing.start);
+    const end = toWall(timing.end);
+    if (start === undefined || end === undefined) return undefined;
+
+    return {
+      start,
+      end,
+      words: timing.words?.map((word) => ({
+        ...word,
+        start: toWall(word.start) ?? start,
+        end: toWall(word.end) ?? end,
+      })),
+    };
+  }
+
+  private startAgentTurn(context: SessionContext, command: CommandRouteResult | null): void {
+    if (command?.action === "thinking") return;
+
+    // A bare "Claude," is held until the next utterance carries the question
+    if (command?.action === "address" && !command.remainder) return;
+
+    const targets = context.pendingTargets ?? new Set<AgentSpeaker>(["claude"]);
+    context.pendingTargets = undefined;
+
+    void context.turnEngine.respond(context.floor.order(Array.from(targets)));
+  }
+
+  private decideFollowUps(
+    sessionId: string,
+    speaker: AgentSpeaker,
+    reply: string,
+    queued: AgentSpeaker[]
+  ): AgentSpeaker[] {
+    const context = this.activeSessions.get(sessionId);
+    if (!context) return [];
+
+    const decision = context.floor.agentTurn(speaker, reply, queued);
+
+    // During autopilot the showrunner decides who speaks next
+    if (context.showrunner.isRunning()) return [];
+
+    context.eventLogger.logFloorHandoff(sessionId, speaker, decision.targets, decision.reason);
+    if (decision.targets.length > 0) {
+      console.info(`[orchestrator] crosstalk: ${speaker} -> ${decision.targets.join(", ")} (${decision.reason})`);
+    }
+
+    return decision.targets;
+  }
+
+  private handleAgentTurnStart(sessionId: string, speaker: AgentSpeaker): void {
+    const context = this.activeSessions.get(sessionId);
+    if (!context || context.humanSpeaking) return;
+
+    this.updateOrbState(speaker, "thinking", context);
+  }
+
+  private handleAgentSpeechStart(sessionId: string, speaker: AgentSpeaker, text: string): void {
+    const context = this.activeSessions.get(sessionId);
+    if (!context) return;
+
+    context.speechCaptions[speaker] = {
+      caption: { id: randomUUID(), speaker, text, timestamp: Date.now() },
+      startedAt: Date.now(),
+      published: false,
+      writes: [],
+    };
+  }
+
+  /**
+   * Called once a sentence has been synthesized. Its caption has already gone
+   * out with the first audio chunk; this waits for the last chunk to land and
+   * records the cue. Sentences that produced no audio (no TTS adapter, or
+   * synthesis failed) are captioned now instead, untimed.
+   */
+  private async handleAgentSpeechEnd(sessionId: string, speaker: AgentSpeaker, text: string): Promise<void> {
+    const context = this.activeSessions.get(sessionId);
+    const speech = context?.speechCaptions[speaker];
+    if (!context || !speech || speech.caption.text !== text) return;
+
+    context.speechCaptions[speaker] = undefined;
+    metrics.ttsDuration.observe({ provider: this.providers.tts[speaker], speaker }, (Date.now() - speech.startedAt) / 1000);
+    await Promise.all(speech.writes);
+
+    if (speech.start !== undefined && speech.end !== undefined) {
+      context.recorder.addCaption(speaker, text, { start: speech.start, end: speech.end });
+      return;
+    }
+    if (speech.published) return;
+
+    speech.caption.timestamp = Date.now();
+    this.publishCaption(context, speech.caption);
+    context.recorder.addCaption(speaker, text, speech.caption.timestamp);
+  }
+
+  private publishCaption(context: SessionContext, caption: CaptionPayload): void {
+    context.room.addCaption(caption);
+    context.room.broadcast("caption", caption);
+  }
+
+  private handleAgentTurnEnd(sessionId: string, speaker: AgentSpeaker): void {
+    const context = this.activeSessions.get(sessionId);
+    if (!context) return;
+
+    if (context.activeAgentSpeakers.has(speaker)) {
+      // The final segment's completion may have been held back while the LLM was still streaming
+      this.handleTtsComplete(sessionId, speaker);
+    } else if (!context.humanSpeaking) {
+      this.updateOrbState(speaker, "listening", context);
+    }
+
+    this.scheduleAutopilotTurn(context, AUTOPILOT_TURN_GAP_MS);
+  }
+
+  private scheduleAutopilotTurn(context: SessionContext, delayMs: number): void {
+    if (!context.showrunner.isRunning()) return;
+
+    if (context.autopilotTimer) {
+      clearTimeout(context.autopilotTimer);
     }
+
+    context.autopilotTimer = setTimeout(() => {
+      context.autopilotTimer = undefined;
+      this.runAutopilotTurn(context);
+    }, delayMs);
   }
 
-  private handleSttError(sessionId: string, error: Error): void {
+  private runAutopilotTurn(context: SessionContext): void {
+    if (!context.room.autopilot || !context.showrunner.isRunning()) return;
+
+    // Only take the floor when nobody else has it; whoever ends the current
+    // turn schedules the next attempt
+    if (
+      context.humanSpeaking ||
+      context.turnEngine.isBusy() ||
+      context.activeAgentSpeakers.size > 0 ||
+      context.pendingTargets ||
+      context.room.sharedScreen.mode === "thinking"
+    ) {
+      return;
+    }
+
+    const cue = context.showrunner.nextCue();
+    if (!cue) return;
+
+    console.info(`[orchestrator] autopilot cue: ${cue.segment.title} -> ${cue.speaker}`);
+    void context.turnEngine.respond([cue.speaker], cue.direction);
+  }
+
+  private handleShowSegment(sessionId: string, segment: ShowSegmentPayload): void {
     const context = this.activeSessions.get(sessionId);
     if (!context) return;
 
-    console.error(`[orchestrator] STT error for ${sessionId}:`, error);
-    context.eventLogger.logError(sessionId, error, { service: "stt" });
-    context.socket.emit("server.ack", `stt error: ${error.message}`);
+    console.info(`[orchestrator] show segment ${segment.index + 1}/${segment.total}: ${segment.title}`);
+    context.room.showSegment = segment;
+    context.eventLogger.logShowSegment(sessionId, segment.id, segment.title, segment.index, segment.endsAt);
+    context.room.broadcast("show.segment", segment);
+  }
+
+  private handleShowComplete(sessionId: string): void {
+    const context = this.activeSessions.get(sessionId);
+    if (!context) return;
+
+    console.info(`[orchestrator] show complete for ${sessionId}`);
+    context.eventLogger.logShowComplete(sessionId);
+    context.eventLogger.logAutopilot(sessionId, false);
+
+    const { room } = context;
+    room.autopilot = false;
+    room.showSegment = undefined;
+    room.broadcast("server.ack", "autopilot complete");
+    room.broadcast("state.snapshot", room.snapshot());
+  }
+
+  private stopShow(context: SessionContext): void {
+    if (context.autopilotTimer) {
+      clearTimeout(context.autopilotTimer);
+      context.autopilotTimer = undefined;
+    }
+
+    if (context.showrunner.isRunning()) {
+      context.showrunner.stop();
+      context.room.showSegment = undefined;
+    }
+  }
+
+  private handleSttError(sttStreamId: string, error: Error): void {
+    const found = this.findSeat(sttStreamId);
+    if (!found) return;
+
+    const { context, seat } = found;
+    console.error(`[orchestrator] STT error for ${sttStreamId}:`, error);
+    context.eventLogger.logError(context.sessionId, error, { service: "stt", speaker: seat.speaker });
+    context.room.broadcast("server.ack", `stt error: ${error.message}`);
+  }
+
+  private handleProviderChange(change: ProviderChange): void {
+    const { sessionId, ...status } = change;
+    const role = status.speaker ? `${status.speaker} ${status.service.toUpperCase()}` : status.service.toUpperCase();
+    console.warn(`[orchestrator] ${role} switched from ${status.previous} to ${status.provider}`);
+    metrics.providerSwitches.inc({ service: status.service, from: status.previous, to: status.provider });
+
+    for (const context of this.activeSessions.values()) {
+      // STT fails over per stream; the new stream's clock starts from zero
+      if (status.service === "stt") {
+        const seat = Array.from(context.seats.values()).find((candidate) => candidate.sttStreamId === sessionId);
+        if (!seat) continue;
+        seat.sttClock = new SttClock(context.recorder.getBusFormat(seat.speaker));
+      }
+
+      context.eventLogger.logProviderFailover(context.sessionId, status);
+      context.room.broadcast("provider.status", status);
+      context.room.broadcast("server.ack", `${role} now on ${status.provider}`);
+    }
   }
 
   private handleTtsAudioChunk(sessionId: string, speaker: AgentSpeaker, audioChunk: Buffer): void {
     const context = this.activeSessions.get(sessionId);
     if (!context) return;
 
-    const processedChunk = context.duckingActive ? this.applyGain(audioChunk, this.duckingGain) : audioChunk;
-    context.recorder.writeAudioChunk(speaker, processedChunk);
+    // Isolated tracks stay clean; the recorder ducks agents in the program mix
+    const write = context.recorder.writeAudioChunk(speaker, audioChunk);
+    metrics.audioBytes.inc({ direction: "out", speaker }, audioChunk.length);
+
+    const speech = context.speechCaptions[speaker];
+    if (speech) {
+      const recording = context.recorder.isRecording();
+      speech.writes.push(
+        write.then((placement) => {
+          // Off the record nothing lands on a track, but the room still sees the caption with the audio
+          if (!placement) {
+            if (!recording && !speech.published) {
+              speech.published = true;
+              speech.caption.timestamp = Date.now();
+              this.publishCaption(context, speech.caption);
+            }
+            return;
+          }
+
+          // The caption goes out as soon as the sentence's audio starts
+          if (speech.start === undefined) {
+            speech.start = placement.start;
+            speech.caption.timestamp = Math.round(placement.start);
+            if (!speech.published) this.publishCaption(context, speech.caption);
+            speech.published = true;
+          }
+          speech.end = placement.end;
+        })
+      );
+    }
 
     if (!context.activeAgentSpeakers.has(speaker)) {
       context.activeAgentSpeakers.add(speaker);
@@ -460,13 +1223,16 @@ export class ProductionOrchestrator {
       this.updateOrbState(speaker, "speaking", context);
     }
 
-    context.eventLogger.logTtsChunk(sessionId, speaker, processedChunk.length);
+    context.eventLogger.logTtsChunk(sessionId, speaker, audioChunk.length);
   }
 
   private handleTtsComplete(sessionId: string, speaker: AgentSpeaker): void {
     const context = this.activeSessions.get(sessionId);
     if (!context) return;
 
+    // Replies are synthesized sentence by sentence; only the last one ends the utterance
+    if (context.turnEngine.hasPendingSpeech(speaker)) return;
+
     console.info(`[orchestrator] TTS complete for ${sessionId} (${speaker})`);
     context.eventLogger.logTtsComplete(sessionId, speaker);
     context.activeAgentSpeakers.delete(speaker);
@@ -485,66 +1251,132 @@ export class ProductionOrchestrator {
     context.activeAgentSpeakers.delete(speaker);
   }
 
-  private addCaption(caption: CaptionPayload): void {
-    this.captions = [caption, ...this.captions].slice(0, 20);
-  }
-
   private updateOrbState(
     speaker: SpeakerId,
     state: OrbState,
     context: SessionContext
   ): void {
-    const oldState = this.orbStates[speaker];
-    if (oldState === state) return;
-
-    this.orbStates[speaker] = state;
-
-    for (const session of this.activeSessions.values()) {
-      session.socket.emit("orb.state", speaker, state);
-    }
+    const oldState = context.room.setOrbState(speaker, state);
+    if (oldState === undefined) return;
 
+    context.room.broadcast("orb.state", speaker, state);
     context.eventLogger.logOrbStateChange(context.sessionId, speaker, oldState, state);
   }
 
+  /** Closes a room: stops its pipeline, then finalizes the recording and its exports */
   private async cleanupSession(sessionId: string): Promise<void> {
     const context = this.activeSessions.get(sessionId);
     if (!context) return;
 
+    const { room } = context;
+    this.activeSessions.delete(sessionId);
+    this.rooms.delete(room.episodeId);
+    if (room.episodeId === this.defaultEpisodeId) this.defaultEpisodeId = undefined;
+    room.clearThinkingTimer();
+    for (const timer of context.resumeTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.stopShow(context);
+    await context.turnEngine.cancel();
+
+    for (const seat of context.seats.values()) {
+      try {
+        await context.stt?.stop(seat.sttStreamId);
+      } catch (error) {
+        console.warn(`[orchestrator] failed to stop STT for ${seat.sttStreamId}`, error);
+      }
+    }
+
+    // An episode still on the record ends with its room; one that was stopped is already finalized
+    const recording = room.episode.status === "recording" || room.episode.status === "paused";
+    if (recording) {
+      room.episode = { ...room.episode, status: "stopped" };
+      context.eventLogger.logEpisode(sessionId, "episode.stop");
+    }
+    context.eventLogger.logSessionEnd(sessionId);
+    if (recording) await this.finalizeRecording(context);
+
+    try {
+      await context.eventLogger.stop();
+      console.info(`[orchestrator] session ${sessionId} cleaned up`);
+    } catch (error) {
+      console.error(`[orchestrator] error cleaning up session ${sessionId}:`, error);
+    }
+  }
+
+  /** Stops the recorder, exports the transcript and latency report next to it, and tells the room */
+  private async finalizeRecording(context: SessionContext): Promise<void> {
+    const { room, sessionId } = context;
+
     try {
       // Stop recording and save files
       const files = await context.recorder.stop();
       console.info(`[orchestrator] recording stopped, files: ${files.join(", ")}`);
-      
-      context.socket.emit("recording.ready", { files });
 
-      // Stop event logger
-      context.eventLogger.logSessionEnd(sessionId);
-      await context.eventLogger.stop();
+      // Everything logged so far has to be on disk before it is read back for the transcript
+      await context.eventLogger.flush();
 
-      this.activeSessions.delete(sessionId);
-      console.info(`[orchestrator] session ${sessionId} cleaned up`);
+      const episodeDir = join(this.config.recordingDir!, room.episodeId);
+      try {
+        files.push(...(await exportTranscript(episodeDir, room.episodeId)));
+      } catch (error) {
+        console.warn(`[orchestrator] failed to export transcript for ${sessionId}`, error);
+      }
+
+      try {
+        files.push(
+          await exportLatencyMetrics(episodeDir, { ...this.latencyProviders(), episodeId: room.episodeId })
+        );
+      } catch (error) {
+        console.warn(`[orchestrator] failed to export latency metrics for ${sessionId}`, error);
+      }
+
+      room.broadcast("recording.ready", { episodeId: room.episodeId, files });
     } catch (error) {
-      console.error(`[orchestrator] error cleaning up session ${sessionId}:`, error);
+      console.error(`[orchestrator] error finalizing recording for ${sessionId}:`, error);
     }
+  }
 
-    if (this.activeSessions.size === 0) {
-      if (this.thinkingTimer) {
-        clearTimeout(this.thinkingTimer);
-        this.thinkingTimer = undefined;
-      }
-      this.sharedScreen = { mode: "conversation" };
+  private connectedSockets(): number {
+    let total = 0;
+    for (const context of this.activeSessions.values()) {
+      total += context.room.size;
     }
+    return total;
   }
 
-  private snapshot(): OrchestratorStateSnapshot {
+  /** Latency percentiles over the most recent turns across all sessions */
+  latencyMetrics(): { activeSessions: number; latency: LatencySummary; lastTurn?: TurnLatency } {
     return {
-      orbStates: { ...this.orbStates },
-      captions: [...this.captions].slice(0, 6),
-      autopilot: this.autopilot,
-      sharedScreen: this.sharedScreen,
+      activeSessions: this.connectedSockets(),
+      latency: summarizeLatency(this.recentTurns),
+      lastTurn: this.recentTurns[this.recentTurns.length - 1],
     };
   }
 
+  /** Whether a room for `episodeId` is open, i.e. its files may still be written */
+  isEpisodeOpen(episodeId: string): boolean {
+    return this.rooms.has(episodeId);
+  }
+
+  /** Circuit breaker state per "service:provider"; empty when the factory does no failover */
+  circuits(): Record<string, CircuitState> {
+    return this.adapterFactory instanceof FailoverAdapterFactory ? this.adapterFactory.circuits() : {};
+  }
+
+  /** Which provider currently serves each role; labels the latency and Prometheus metrics */
+  private get providers(): AdapterProviders {
+    if (!this.config.useRealAdapters) {
+      return { stt: "mock", tts: { claude: "mock", guest: "mock" }, llm: { claude: "mock", guest: "mock" } };
+    }
+    const unknown = { claude: "unknown", guest: "unknown" };
+    return this.adapterFactory.providers?.() ?? { stt: "unknown", tts: unknown, llm: unknown };
+  }
+
+  private latencyProviders(): Omit<LatencyTrackerOptions, "onTurn"> {
+    return { sttProvider: this.providers.stt, ttsProviders: this.providers.tts };
+  }
+
   async shutdown(): Promise<void> {
     console.info("[orchestrator] shutting down...");
     
@@ -556,39 +1388,56 @@ export class ProductionOrchestrator {
   }
 }
 
-  private applyGain(buffer: Buffer, gain: number): Buffer {
-    const scaled = Buffer.allocUnsafe(buffer.length);
-
-    for (let i = 0; i < buffer.length; i += 2) {
-      if (i + 1 >= buffer.length) {
-        scaled[i] = buffer[i];
-        continue;
-      }
-
-      const sample = buffer.readInt16LE(i);
-      let value = Math.round(sample * gain);
-      value = Math.max(-32768, Math.min(32767, value));
-      scaled.writeInt16LE(value, i);
-    }
+/** The sentence an agent is currently speaking, timed by where its audio lands on the track */
+interface SpeechCaption {
+  caption: CaptionPayload;
+  /** When synthesis of the sentence began */
+  startedAt: number;
+  start?: number;
+  end?: number;
+  /** Whether the caption has gone out to the room */
+  published: boolean;
+  /** Track writes still in flight for this sentence */
+  writes: Promise<void>[];
+}
 
-    return scaled;
-  }
+/** A microphone in the room, with its own VAD, STT stream and recorder bus */
+interface HumanSeat {
+  speaker: HumanSpeakerId;
+  sttStreamId: string;
+  vad: VadDetector;
+  speaking: boolean;
+  sttPreroll: { chunk: Buffer; receivedAt: number }[];
+  sttClock: SttClock;
+  /** When this speaker last stopped talking, until their final transcript arrives */
+  speechEndedAt?: number;
+}
 
+/** A room's conversation pipeline; there is one per show however many sockets have joined */
 interface SessionContext {
   sessionId: string;
-  socket: Socket<ClientToServerEvents, ServerToClientEvents>;
+  room: EpisodeRoom;
   eventLogger: EventLogger;
   recorder: RecorderService;
-  briefing?: any;
-  isRecording: boolean;
+  briefing?: ParsedBriefing;
   isSpeaking: boolean;
-  vad: VadDetector;
+  seats: Map<HumanSpeakerId, HumanSeat>;
   commandRouter: CommandRouter;
+  stt?: SttAdapter;
+  speechCaptions: Partial<Record<AgentSpeaker, SpeechCaption>>;
   ttsAdapters: Partial<Record<AgentSpeaker, TtsAdapter>>;
+  history: ConversationHistory;
+  turnEngine: TurnEngine;
+  floor: FloorManager;
+  showrunner: Showrunner;
+  autopilotTimer?: NodeJS.Timeout;
   activeAgentSpeakers: Set<AgentSpeaker>;
   duckingActive: boolean;
+  /** Whether any human is talking */
   humanSpeaking: boolean;
   lastCommand?: CommandRouteResult;
   orbRestore?: Partial<Record<AgentSpeaker, OrbState>>;
   pendingTargets?: Set<AgentSpeaker>;
+  /** Grace timers of clients that dropped, by resume token */
+  resumeTimers: Map<string, NodeJS.Timeout>;
 }
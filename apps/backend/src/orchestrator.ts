@@ -19,6 +19,7 @@ export class Orchestrator {
   private autopilot = false;
   private orbStates: Record<SpeakerId, OrbState> = {
     you: "idle",
+    remote: "idle",
     claude: "idle",
     guest: "idle",
   };
@@ -141,6 +142,7 @@ function mockLineFor(speaker: SpeakerId): string {
       "I want to press on the privacy angle here.",
       "Let's mark this for post-production notes.",
     ],
+    remote: ["Jumping in from the remote line, I've seen the same thing."],
     claude: [
       "That's fascinating because it mirrors the lab results.",
       "Give me thirty seconds and I'll synthesize the benchmarks.",
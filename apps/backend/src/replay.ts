@@ -0,0 +1,51 @@
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { formatReplayReport, SessionReplay } from "./services/event-replay.js";
+
+const USAGE = `Usage: pnpm replay <episode-dir | events.jsonl> [--speed 1] [--session <id>] [--out <dir>] [--tolerance 500]
+
+Re-drives the orchestrator from a recorded event log with scripted adapters and
+diffs the events it produces against the original. Exits non-zero when events
+are missing or extra.`;
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      speed: { type: "string", default: "1" },
+      session: { type: "string" },
+      out: { type: "string" },
+      tolerance: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 2);
+  }
+
+  const target = positionals[0];
+  const eventsPath = (await fs.stat(target)).isDirectory() ? join(target, "events.jsonl") : target;
+
+  const replay = await SessionReplay.fromFile(eventsPath, {
+    speed: Number(values.speed),
+    sessionId: values.session,
+    outputDir: values.out,
+    driftToleranceMs: values.tolerance === undefined ? undefined : Number(values.tolerance),
+  });
+  const result = await replay.run();
+
+  const reportPath = join(result.outputDir, "replay-report.json");
+  await fs.writeFile(reportPath, JSON.stringify(result.report, null, 2), "utf-8");
+
+  console.log(formatReplayReport(result.report));
+  console.log(`Replayed recording and report written to ${result.outputDir}`);
+  process.exit(result.report.identical ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error("[replay] failed:", error);
+  process.exit(2);
+});
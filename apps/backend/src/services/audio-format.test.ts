@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { convertPcm, createWavHeader, parseWavHeader, type AudioFormat } from "./audio-format";
+
+const MONO_48K: AudioFormat = { sampleRate: 48_000, channels: 1, bitDepth: 16 };
+
+function pcm(samples: number[]): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => buffer.writeInt16LE(sample, i * 2));
+  return buffer;
+}
+
+function samples(buffer: Buffer): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < buffer.length; i += 2) {
+    result.push(buffer.readInt16LE(i));
+  }
+  return result;
+}
+
+describe("audio-format", () => {
+  it("should round-trip a WAV header", () => {
+    const header = createWavHeader({ sampleRate: 22_050, channels: 2, bitDepth: 16 }, 1000);
+
+    expect(parseWavHeader(header)).toEqual({
+      format: { sampleRate: 22_050, channels: 2, bitDepth: 16 },
+      dataOffset: 44,
+    });
+  });
+
+  it("should skip extra chunks before the audio data", () => {
+    const header = createWavHeader(MONO_48K, 0);
+    const list = Buffer.concat([Buffer.from("LIST"), Buffer.from([3, 0, 0, 0]), Buffer.from("abc\0")]);
+    const wav = Buffer.concat([header.subarray(0, 36), list, header.subarray(36)]);
+
+    expect(parseWavHeader(wav)?.dataOffset).toBe(56);
+  });
+
+  it("should ignore raw PCM and non-16-bit WAV files", () => {
+    expect(parseWavHeader(pcm([1, 2, 3, 4, 5, 6]))).toBeUndefined();
+
+    const float = createWavHeader(MONO_48K, 0);
+    float.writeUInt16LE(3, 20);
+    float.writeUInt16LE(32, 34);
+    expect(parseWavHeader(float)).toBeUndefined();
+  });
+
+  it("should pass through audio that is already in the target format", () => {
+    const input = pcm([1, 2, 3]);
+
+    expect(convertPcm(input, MONO_48K, MONO_48K)).toBe(input);
+  });
+
+  it("should downmix stereo to mono", () => {
+    const stereo: AudioFormat = { sampleRate: 48_000, channels: 2, bitDepth: 16 };
+
+    expect(samples(convertPcm(pcm([100, 300, -100, -300]), stereo, MONO_48K))).toEqual([200, -200]);
+  });
+
+  it("should upsample with linear interpolation", () => {
+    const mono24k: AudioFormat = { sampleRate: 24_000, channels: 1, bitDepth: 16 };
+
+    expect(samples(convertPcm(pcm([0, 100, 200]), mono24k, MONO_48K))).toEqual([0, 50, 100, 150, 200, 200]);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * PCM helpers shared by the recorder and the audio path.
+ *
+ * Everything here works on signed 16-bit little-endian PCM, which is what the
+ * browser sends for the host and what the TTS adapters produce once their WAV
+ * header is stripped.
+ */
+
+export interface AudioFormat {
+  sampleRate: number;
+  channels: number;
+  bitDepth: 16;
+}
+
+export interface WavHeader {
+  format: AudioFormat;
+  /** Byte offset of the first PCM sample */
+  dataOffset: number;
+}
+
+export const WAV_HEADER_SIZE = 44;
+
+export const DEFAULT_BUS_FORMAT: AudioFormat = { sampleRate: 48_000, channels: 1, bitDepth: 16 };
+
+export function bytesPerFrame(format: AudioFormat): number {
+  return (format.bitDepth / 8) * format.channels;
+}
+
+export function createWavHeader(format: AudioFormat, dataLength: number): Buffer {
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+  const blockAlign = bytesPerFrame(format);
+
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(format.bitDepth, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(dataLength, 40);
+
+  return header;
+}
+
+/**
+ * Reads the header of a WAV file that starts at the beginning of `buffer`.
+ * Returns undefined if the buffer does not start with a 16-bit PCM WAV header
+ * or the header is not complete in this buffer.
+ */
+export function parseWavHeader(buffer: Buffer): WavHeader | undefined {
+  if (buffer.length < 12) return undefined;
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    return undefined;
+  }
+
+  let format: AudioFormat | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      if (body + 16 > buffer.length) return undefined;
+
+      const audioFormat = buffer.readUInt16LE(body);
+      const bitDepth = buffer.readUInt16LE(body + 14);
+      // 0xfffe is WAVE_FORMAT_EXTENSIBLE, which Coqui uses for plain PCM too
+      if ((audioFormat !== 1 && audioFormat !== 0xfffe) || bitDepth !== 16) return undefined;
+
+      format = {
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitDepth: 16,
+      };
+    } else if (id === "data") {
+      return format ? { format, dataOffset: body } : undefined;
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  return undefined;
+}
+
+export function isSameFormat(a: AudioFormat, b: AudioFormat): boolean {
+  return a.sampleRate === b.sampleRate && a.channels === b.channels && a.bitDepth === b.bitDepth;
+}
+
+/**
+ * Converts whole frames of 16-bit PCM between channel layouts and sample rates.
+ * Channels are downmixed by averaging or upmixed by copying; rates are
+ * converted with linear interpolation, which is plenty for speech.
+ */
+export function convertPcm(pcm: Buffer, from: AudioFormat, to: AudioFormat): Buffer {
+  if (isSameFormat(from, to)) return pcm;
+
+  const inputFrames = Math.floor(pcm.length / bytesPerFrame(from));
+  const mono = new Float32Array(inputFrames);
+
+  for (let frame = 0; frame < inputFrames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < from.channels; channel++) {
+      sum += pcm.readInt16LE((frame * from.channels + channel) * 2);
+    }
+    mono[frame] = sum / from.channels;
+  }
+
+  const ratio = from.sampleRate / to.sampleRate;
+  const outputFrames = Math.floor(inputFrames / ratio);
+  const output = Buffer.alloc(outputFrames * bytesPerFrame(to));
+
+  for (let frame = 0; frame < outputFrames; frame++) {
+    const position = frame * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, inputFrames - 1);
+    const fraction = position - index;
+    const value = Math.round(mono[index] + (mono[next] - mono[index]) * fraction);
+    const sample = Math.max(-32768, Math.min(32767, value));
+
+    for (let channel = 0; channel < to.channels; channel++) {
+      output.writeInt16LE(sample, (frame * to.channels + channel) * 2);
+    }
+  }
+
+  return output;
+}
+
+/** Scales 16-bit PCM by a linear gain, clamping to the sample range. */
+export function applyGain(pcm: Buffer, gain: number): Buffer {
+  const scaled = Buffer.allocUnsafe(pcm.length);
+
+  for (let i = 0; i < pcm.length; i += 2) {
+    if (i + 1 >= pcm.length) {
+      scaled[i] = pcm[i];
+      continue;
+    }
+
+    const sample = pcm.readInt16LE(i);
+    let value = Math.round(sample * gain);
+    value = Math.max(-32768, Math.min(32767, value));
+    scaled.writeInt16LE(value, i);
+  }
+
+  return scaled;
+}
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * Peak limiter with instant attack and exponential release. Feed it
+ * interleaved float samples (on the 16-bit scale) and it returns clamped PCM
+ * whose peaks stay at or below the ceiling.
+ */
+export class PeakLimiter {
+  private readonly ceiling: number;
+  private readonly release: number;
+  private envelope = 1;
+  private minEnvelope = 1;
+
+  constructor(
+    private readonly format: AudioFormat,
+    ceilingDb: number,
+    releaseMs = 100
+  ) {
+    this.ceiling = dbToGain(ceilingDb) * 32767;
+    this.release = 1 - Math.exp(-1 / ((format.sampleRate * releaseMs) / 1000));
+  }
+
+  /** Largest gain reduction applied so far, in dB (0 if the limiter never engaged) */
+  get maxReductionDb(): number {
+    return this.minEnvelope < 1 ? Math.round(20 * Math.log10(this.minEnvelope) * 10) / 10 : 0;
+  }
+
+  process(samples: Float32Array): Buffer {
+    const { channels } = this.format;
+    const frames = Math.floor(samples.length / channels);
+    const output = Buffer.alloc(frames * channels * 2);
+
+    for (let frame = 0; frame < frames; frame++) {
+      let peak = 0;
+      for (let channel = 0; channel < channels; channel++) {
+        peak = Math.max(peak, Math.abs(samples[frame * channels + channel]));
+      }
+
+      const target = peak > this.ceiling ? this.ceiling / peak : 1;
+      this.envelope = target < this.envelope ? target : this.envelope + (target - this.envelope) * this.release;
+      this.minEnvelope = Math.min(this.minEnvelope, this.envelope);
+
+      for (let channel = 0; channel < channels; channel++) {
+        const index = frame * channels + channel;
+        const value = Math.round(samples[index] * this.envelope);
+        output.writeInt16LE(Math.max(-32768, Math.min(32767, value)), index * 2);
+      }
+    }
+
+    return output;
+  }
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { promises as fs } from "node:fs";
-import { BriefingLoader } from "./briefing-loader";
+import { BriefingLoader, isBriefingMetadata, isBriefingName } from "./briefing-loader";
 import path from "node:path";
 
 describe("BriefingLoader", () => {
@@ -222,6 +222,62 @@ Content`;
     expect(briefing.systemPromptGuest).toContain("casual and fun");
   });
 
+  it("should save a briefing that loads back the same", async () => {
+    await loader.save({
+      name: "pilot.md",
+      metadata: {
+        title: "Claude's First Show",
+        tone: "warm",
+        mustCover: ["Code completion accuracy, privacy concerns", "Pricing"],
+        avoidTopics: [],
+        targetDuration: 20,
+      },
+      content: "Background notes\n",
+    });
+
+    expect(await loader.read("pilot.md")).toEqual({
+      name: "pilot.md",
+      metadata: {
+        title: "Claude's First Show",
+        tone: "warm",
+        mustCover: ["Code completion accuracy, privacy concerns", "Pricing"],
+        targetDuration: 20,
+      },
+      content: "Background notes",
+    });
+    expect((await loader.load("pilot.md")).systemPromptClaude).toContain("- Pricing");
+  });
+
+  it("should only accept plain briefing file names", async () => {
+    expect(isBriefingName("pilot.md")).toBe(true);
+    expect(isBriefingName("notes.txt")).toBe(true);
+    expect(isBriefingName("../secrets.md")).toBe(false);
+    expect(isBriefingName(".hidden.md")).toBe(false);
+    expect(isBriefingName("script.sh")).toBe(false);
+
+    await expect(loader.save({ name: "../escape.md", metadata: {}, content: "" })).rejects.toThrow(
+      "invalid briefing name"
+    );
+  });
+
+  it("should only accept briefing metadata fields of the right type", () => {
+    expect(isBriefingMetadata({})).toBe(true);
+    expect(isBriefingMetadata({ title: "Pilot", mustCover: ["Pricing"], targetDuration: 20 })).toBe(true);
+    expect(isBriefingMetadata({ title: "Pilot", "x\ninjected": "yes" })).toBe(false);
+    expect(isBriefingMetadata({ title: ["Pilot"] })).toBe(false);
+    expect(isBriefingMetadata({ mustCover: "Pricing" })).toBe(false);
+    expect(isBriefingMetadata({ avoidTopics: [1] })).toBe(false);
+    expect(isBriefingMetadata({ targetDuration: "20" })).toBe(false);
+    expect(isBriefingMetadata(["Pilot"])).toBe(false);
+    expect(isBriefingMetadata(null)).toBe(false);
+  });
+
+  it("should keep metadata keys on one line when writing frontmatter", () => {
+    const written = loader.stringify({ ["title\nmustCover"]: "Pilot" } as any, "");
+
+    expect(written).toBe("---\ntitle mustCover: Pilot\n---\n\n\n");
+  });
+
   it("should return empty array if briefings directory doesn't exist", async () => {
     const nonExistentLoader = new BriefingLoader("./non-existent-dir");
     const files = await nonExistentLoader.list();
@@ -1,7 +1,7 @@
 import { promises as fs } from "node:fs";
 import { join } from "node:path";
 
-interface BriefingMetadata {
+export interface BriefingMetadata {
   title?: string;
   topic?: string;
   tone?: string;
@@ -10,13 +10,51 @@ interface BriefingMetadata {
   targetDuration?: number;
 }
 
-interface ParsedBriefing {
+export interface ParsedBriefing {
   metadata: BriefingMetadata;
   content: string;
   systemPromptClaude: string;
   systemPromptGuest: string;
 }
 
+/** A saved briefing as the prep page edits it, before the prompts are generated */
+export interface BriefingDocument {
+  name: string;
+  metadata: BriefingMetadata;
+  content: string;
+}
+
+/** Briefings picked by clients are a single .md or .txt file name in the briefings dir. */
+export function isBriefingName(value: string): boolean {
+  return /^[\w.-]+\.(md|txt)$/.test(value) && !value.startsWith(".");
+}
+
+const METADATA_FIELDS: Record<keyof BriefingMetadata, "string" | "strings" | "number"> = {
+  title: "string",
+  topic: "string",
+  tone: "string",
+  mustCover: "strings",
+  avoidTopics: "strings",
+  targetDuration: "number",
+};
+
+/** Frontmatter sent by clients holds only BriefingMetadata keys, each of the right type. */
+export function isBriefingMetadata(value: unknown): value is BriefingMetadata {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+
+  return Object.entries(value).every(([key, field]) => {
+    if (!Object.prototype.hasOwnProperty.call(METADATA_FIELDS, key)) return false;
+    switch (METADATA_FIELDS[key as keyof BriefingMetadata]) {
+      case "string":
+        return typeof field === "string";
+      case "strings":
+        return Array.isArray(field) && field.every((item) => typeof item === "string");
+      case "number":
+        return typeof field === "number" && Number.isFinite(field);
+    }
+  });
+}
+
 export class BriefingLoader {
   private briefingsDir: string;
 
@@ -30,7 +68,10 @@ export class BriefingLoader {
       : join(this.briefingsDir, briefingPath);
     
     const content = await fs.readFile(fullPath, "utf-8");
-    
+    return this.parse(content);
+  }
+
+  parse(content: string): ParsedBriefing {
     // Parse frontmatter and content
     const { metadata, body } = this.parseFrontmatter(content);
     
@@ -63,10 +104,18 @@ export class BriefingLoader {
   private parseYaml(yaml: string): BriefingMetadata {
     const metadata: BriefingMetadata = {};
     const lines = yaml.split("\n");
+    // The array key a "- item" line belongs to
+    let listKey: "mustCover" | "avoidTopics" | undefined;
     
     for (const line of lines) {
       const trimmed = line.trim();
       if (!trimmed || trimmed.startsWith("#")) continue;
+
+      if (trimmed.startsWith("- ") && listKey) {
+        metadata[listKey]!.push(unquote(trimmed.slice(2).trim()));
+        continue;
+      }
+      listKey = undefined;
       
       const colonIndex = trimmed.indexOf(":");
       if (colonIndex === -1) continue;
@@ -81,8 +130,11 @@ export class BriefingLoader {
         }
         if (value.startsWith("[") && value.endsWith("]")) {
           // Parse inline array: [item1, item2, item3]
-          const items = value.slice(1, -1).split(",").map(s => s.trim().replace(/['"]/g, ""));
+          const items = value.slice(1, -1).split(",").map(s => unquote(s.trim()));
           metadata[key] = items;
+        } else if (!value) {
+          // Block list, one "- item" per line
+          listKey = key;
         }
         continue;
       }
@@ -91,7 +143,7 @@ export class BriefingLoader {
       if (key === "targetDuration") {
         metadata[key] = parseInt(value, 10);
       } else {
-        (metadata as any)[key] = value.replace(/['"]/g, "");
+        (metadata as any)[key] = unquote(value);
       }
     }
     
@@ -175,6 +227,61 @@ Your role is to be an engaged participant who contributes meaningfully to the di
     return prompt;
   }
 
+  /** Loads a briefing by file name for editing, without generating its prompts */
+  async read(name: string): Promise<BriefingDocument> {
+    if (!isBriefingName(name)) {
+      throw new Error(`invalid briefing name: ${name}`);
+    }
+
+    const { metadata, body } = this.parseFrontmatter(await fs.readFile(join(this.briefingsDir, name), "utf-8"));
+    return { name, metadata, content: body.trim() };
+  }
+
+  /**
+   * Writes a briefing to the briefings dir as Markdown with frontmatter,
+   * replacing any briefing of the same name.
+   */
+  async save(briefing: BriefingDocument): Promise<void> {
+    if (!isBriefingName(briefing.name)) {
+      throw new Error(`invalid briefing name: ${briefing.name}`);
+    }
+
+    await fs.mkdir(this.briefingsDir, { recursive: true });
+    await fs.writeFile(join(this.briefingsDir, briefing.name), this.stringify(briefing.metadata, briefing.content), "utf-8");
+    console.info(`[briefing-loader] saved ${briefing.name}`);
+  }
+
+  stringify(metadata: BriefingMetadata, content: string): string {
+    const lines: string[] = [];
+    for (const [name, value] of Object.entries(metadata)) {
+      const key = oneLine(name);
+      if (!key || value === undefined || value === "") continue;
+
+      if (Array.isArray(value)) {
+        const items = value.map((item) => oneLine(item)).filter(Boolean);
+        if (items.length === 0) continue;
+        lines.push(`${key}:`, ...items.map((item) => `  - ${item}`));
+      } else {
+        lines.push(`${key}: ${oneLine(String(value))}`);
+      }
+    }
+
+    return `---\n${lines.join("\n")}\n---\n\n${content.trim()}\n`;
+  }
+
+  /** Every briefing in the briefings dir with its metadata, for picking one; unreadable files are skipped */
+  async summaries(): Promise<Omit<BriefingDocument, "content">[]> {
+    const summaries: Omit<BriefingDocument, "content">[] = [];
+    for (const name of (await this.list()).filter(isBriefingName).sort()) {
+      try {
+        summaries.push({ name, metadata: (await this.read(name)).metadata });
+      } catch (error) {
+        console.warn(`[briefing-loader] could not read ${name}:`, error);
+      }
+    }
+    return summaries;
+  }
+
   async list(): Promise<string[]> {
     try {
       const files = await fs.readdir(this.briefingsDir);
@@ -185,3 +292,12 @@ Your role is to be an engaged participant who contributes meaningfully to the di
     }
   }
 }
+
+/** Strips the quotes around a frontmatter value, keeping apostrophes inside it */
+function unquote(value: string): string {
+  return value.replace(/^(['"])(.*)\1$/, "$2");
+}
+
+function oneLine(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { ConversationHistory } from "./conversation-history";
+
+describe("ConversationHistory", () => {
+  it("should render the agent's own lines as assistant turns", () => {
+    const history = new ConversationHistory();
+    history.append("you", "What do you think?");
+    history.append("claude", "I think it depends.");
+    history.append("guest", "I disagree.");
+
+    const request = history.buildRequest("claude", "system prompt");
+
+    expect(request.system).toBe("system prompt");
+    expect(request.messages).toEqual([
+      { role: "user", content: "Basil: What do you think?" },
+      { role: "assistant", content: "I think it depends." },
+      { role: "user", content: "Guest: I disagree." },
+    ]);
+  });
+
+  it("should merge consecutive lines from other speakers into one user turn", () => {
+    const history = new ConversationHistory();
+    history.append("you", "Guest, your view?");
+    history.append("guest", "Skeptical.");
+
+    const request = history.buildRequest("claude");
+
+    expect(request.messages).toEqual([
+      { role: "user", content: "Basil: Guest, your view?\n\nGuest: Skeptical." },
+    ]);
+  });
+
+  it("should drop leading assistant turns", () => {
+    const history = new ConversationHistory();
+    history.append("claude", "Welcome to the show.");
+    history.append("you", "Thanks!");
+
+    const request = history.buildRequest("claude");
+
+    expect(request.messages[0]).toEqual({ role: "user", content: "Basil: Thanks!" });
+  });
+
+  it("should keep only the newest entries within the token budget", () => {
+    const history = new ConversationHistory({ maxHistoryTokens: 10 });
+    history.append("you", "a".repeat(40));
+    history.append("guest", "b".repeat(20));
+    history.append("you", "c".repeat(20));
+
+    const request = history.buildRequest("claude");
+
+    expect(request.messages).toHaveLength(1);
+    expect(request.messages[0].content).not.toContain("aaaa");
+    expect(request.messages[0].content).toContain("Guest: bbbb");
+    expect(request.messages[0].content).toContain("Basil: cccc");
+  });
+
+  it("should always include the latest entry even if it exceeds the budget", () => {
+    const history = new ConversationHistory({ maxHistoryTokens: 1 });
+    history.append("you", "A long question that blows the budget");
+
+    expect(history.buildRequest("guest").messages).toHaveLength(1);
+  });
+
+  it("should use custom speaker names and ignore blank lines", () => {
+    const history = new ConversationHistory({ speakerNames: { guest: "Ada" } });
+    history.append("guest", "   ");
+    history.append("guest", "Hello");
+
+    expect(history.getEntries()).toHaveLength(1);
+    expect(history.buildRequest("claude").messages[0].content).toBe("Ada: Hello");
+  });
+
+  it("should append a direction as the closing user turn", () => {
+    const history = new ConversationHistory();
+    history.append("claude", "Welcome back");
+
+    expect(history.buildRequest("claude", undefined, "Open the show").messages).toEqual([
+      { role: "user", content: "Showrunner: Open the show" },
+    ]);
+
+    history.append("you", "Let's start");
+    expect(history.buildRequest("guest", undefined, "State your stance").messages).toEqual([
+      { role: "user", content: "Claude: Welcome back\n\nBasil: Let's start\n\nShowrunner: State your stance" },
+    ]);
+  });
+});
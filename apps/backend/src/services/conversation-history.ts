@@ -0,0 +1,105 @@
+import type { AgentSpeakerId, SpeakerId } from "@basil/shared";
+import type { LlmMessage, LlmRequest } from "../adapters/interfaces.js";
+
+export interface HistoryEntry {
+  speaker: SpeakerId;
+  text: string;
+  timestamp: number;
+}
+
+export interface ConversationHistoryOptions {
+  maxHistoryTokens?: number;
+  speakerNames?: Partial<Record<SpeakerId, string>>;
+}
+
+const DEFAULT_SPEAKER_NAMES: Record<SpeakerId, string> = {
+  you: "Basil",
+  remote: "Remote Guest",
+  claude: "Claude",
+  guest: "Guest",
+};
+
+/**
+ * Shared transcript of the show, rendered per agent as an LLM request.
+ *
+ * From an agent's point of view its own lines are `assistant` turns and every
+ * other participant's lines are `user` turns prefixed with the speaker's name.
+ * Only the newest entries that fit the token budget are sent; token counts are
+ * estimated at roughly four characters per token.
+ */
+export class ConversationHistory {
+  private readonly maxHistoryTokens: number;
+  private readonly speakerNames: Record<SpeakerId, string>;
+  private entries: HistoryEntry[] = [];
+
+  constructor(options: ConversationHistoryOptions = {}) {
+    this.maxHistoryTokens = options.maxHistoryTokens ?? 6_000;
+    this.speakerNames = { ...DEFAULT_SPEAKER_NAMES, ...options.speakerNames };
+  }
+
+  append(speaker: SpeakerId, text: string, timestamp = Date.now()): void {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    this.entries.push({ speaker, text: trimmed, timestamp });
+  }
+
+  getEntries(): HistoryEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Renders the history for `agent`. A `direction` (e.g. a showrunner cue) is
+   * appended as the final user turn so the agent has something to act on even
+   * when nobody has spoken yet.
+   */
+  buildRequest(agent: AgentSpeakerId, system?: string, direction?: string): LlmRequest {
+    const window: HistoryEntry[] = [];
+    let budget = this.maxHistoryTokens;
+
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      const cost = estimateTokens(entry.text);
+      if (cost > budget && window.length > 0) break;
+
+      window.unshift(entry);
+      budget -= cost;
+    }
+
+    const messages: LlmMessage[] = [];
+    for (const entry of window) {
+      const role = entry.speaker === agent ? "assistant" : "user";
+      const content = role === "user" ? `${this.speakerNames[entry.speaker]}: ${entry.text}` : entry.text;
+
+      pushMessage(messages, role, content);
+    }
+
+    // Chat APIs expect the conversation to open with a user turn
+    while (messages.length > 0 && messages[0].role === "assistant") {
+      messages.shift();
+    }
+
+    if (direction?.trim()) {
+      pushMessage(messages, "user", `Showrunner: ${direction.trim()}`);
+    }
+
+    return { system, messages };
+  }
+}
+
+function pushMessage(messages: LlmMessage[], role: LlmMessage["role"], content: string): void {
+  const previous = messages[messages.length - 1];
+  if (previous && previous.role === role) {
+    previous.content += `\n\n${content}`;
+  } else {
+    messages.push({ role, content });
+  }
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
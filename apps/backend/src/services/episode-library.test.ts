@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { EpisodeLibrary, isEpisodeId, parseSessionYaml } from "./episode-library";
+
+const SESSION_YML = `episodeId: ep-2
+recordingStartTime: 2026-10-01T18:00:00.000Z
+recordingEndTime: 2026-10-01T18:20:00.000Z
+duration: 1200000
+tracks:
+  you:
+    file: you.wav
+    sampleRate: 48000
+    loudness:
+      integratedLufs: -18.2
+      normalized: null
+program: null
+models:
+  claude: claude-3-5-haiku-20241022
+`;
+
+describe("parseSessionYaml", () => {
+  it("should read back what the recorder writes", () => {
+    expect(parseSessionYaml(SESSION_YML)).toEqual({
+      episodeId: "ep-2",
+      recordingStartTime: "2026-10-01T18:00:00.000Z",
+      recordingEndTime: "2026-10-01T18:20:00.000Z",
+      duration: 1200000,
+      tracks: {
+        you: {
+          file: "you.wav",
+          sampleRate: 48000,
+          loudness: { integratedLufs: -18.2, normalized: null },
+        },
+      },
+      program: null,
+      models: { claude: "claude-3-5-haiku-20241022" },
+    });
+  });
+
+  it("should parse lists", () => {
+    expect(parseSessionYaml("mustCover:\n  - one\n  - 2\nafter: x\n")).toEqual({
+      mustCover: ["one", 2],
+      after: "x",
+    });
+  });
+});
+
+describe("isEpisodeId", () => {
+  it("should only accept a single, non-hidden path segment", () => {
+    expect(isEpisodeId("episode-2026_10.1")).toBe(true);
+    expect(isEpisodeId("..")).toBe(false);
+    expect(isEpisodeId(".archive")).toBe(false);
+    expect(isEpisodeId("a/b")).toBe(false);
+    expect(isEpisodeId("")).toBe(false);
+  });
+});
+
+describe("EpisodeLibrary", () => {
+  let dir: string;
+  let library: EpisodeLibrary;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "episodes-"));
+    library = new EpisodeLibrary(dir);
+
+    await fs.mkdir(join(dir, "ep-1"));
+    await fs.writeFile(join(dir, "ep-1", "events.jsonl"), "{}\n");
+    await fs.writeFile(join(dir, "ep-1", "session.yml"), SESSION_YML.replace("2026-10-01", "2026-09-01"));
+    await fs.mkdir(join(dir, "ep-2"));
+    await fs.writeFile(join(dir, "ep-2", "you.wav"), Buffer.alloc(100));
+    await fs.writeFile(join(dir, "ep-2", "session.yml"), SESSION_YML);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should list episodes newest first with their files and metadata", async () => {
+    const episodes = await library.list();
+
+    expect(episodes.map((episode) => episode.episodeId)).toEqual(["ep-2", "ep-1"]);
+    expect(episodes[0]).toMatchObject({
+      archived: false,
+      startedAt: "2026-10-01T18:00:00.000Z",
+      durationMs: 1200000,
+      files: [
+        expect.objectContaining({ name: "session.yml" }),
+        expect.objectContaining({ name: "you.wav", size: 100 }),
+      ],
+    });
+    expect(episodes[0].metadata?.models).toEqual({ claude: "claude-3-5-haiku-20241022" });
+  });
+
+  it("should list an episode that has no session.yml yet", async () => {
+    await fs.mkdir(join(dir, "live"));
+
+    const episode = await library.get("live");
+
+    expect(episode).toMatchObject({ episodeId: "live", durationMs: null, metadata: null, files: [] });
+  });
+
+  it("should resolve files inside the episode only", async () => {
+    expect(await library.filePath("ep-2", "you.wav")).toBe(join(dir, "ep-2", "you.wav"));
+    expect(await library.filePath("ep-2", "missing.wav")).toBeNull();
+    expect(await library.filePath("ep-2", "../ep-1/events.jsonl")).toBeNull();
+    expect(await library.filePath("..", "ep-1")).toBeNull();
+  });
+
+  it("should tell recorded episodes from ones without masters", async () => {
+    expect(await library.hasMasters("ep-2")).toBe(true);
+    expect(await library.hasMasters("ep-1")).toBe(false);
+    expect(await library.hasMasters("new-show")).toBe(false);
+
+    await library.archive("ep-2");
+    expect(await library.hasMasters("ep-2")).toBe(true);
+  });
+
+  it("should archive an episode out of the main list", async () => {
+    expect(await library.archive("ep-1")).toBe(true);
+
+    expect((await library.list()).map((episode) => episode.episodeId)).toEqual(["ep-2"]);
+    expect((await library.list({ archived: true })).map((episode) => episode.episodeId)).toEqual(["ep-1"]);
+    expect(await library.get("ep-1")).toMatchObject({ archived: true });
+    expect(await library.filePath("ep-1", "events.jsonl")).toBe(join(dir, ".archive", "ep-1", "events.jsonl"));
+    expect(await library.archive("ep-1")).toBe(false);
+  });
+
+  it("should delete an episode", async () => {
+    expect(await library.delete("ep-2")).toBe(true);
+
+    expect(await library.get("ep-2")).toBeNull();
+    expect(await library.delete("ep-2")).toBe(false);
+  });
+});
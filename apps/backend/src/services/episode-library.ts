@@ -0,0 +1,251 @@
+import { promises as fs } from "node:fs";
+import { extname, join } from "node:path";
+
+export interface EpisodeFile {
+  name: string;
+  size: number;
+  modifiedAt: string;
+}
+
+export interface EpisodeSummary {
+  episodeId: string;
+  archived: boolean;
+  /** From session.yml, falling back to the directory's creation time */
+  startedAt: string;
+  /** Null while the episode is still recording or if it never finished */
+  durationMs: number | null;
+  totalSize: number;
+  files: EpisodeFile[];
+  /** Parsed session.yml, if the recorder got as far as writing it */
+  metadata: Record<string, unknown> | null;
+}
+
+export interface EpisodeLocation {
+  dir: string;
+  archived: boolean;
+}
+
+const ARCHIVE_DIR = ".archive";
+
+const MASTER_EXTENSIONS = new Set([".wav", ".opus"]);
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".wav": "audio/wav",
+  ".opus": "audio/ogg",
+  ".vtt": "text/vtt; charset=utf-8",
+  ".srt": "application/x-subrip; charset=utf-8",
+  ".jsonl": "application/x-ndjson; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".yml": "text/yaml; charset=utf-8",
+  ".md": "text/markdown; charset=utf-8",
+  ".html": "text/html; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+/** Episode ids and artifact names are a single path segment under the recording dir. */
+export function isEpisodeId(value: string): boolean {
+  return /^[\w.-]+$/.test(value) && !value.startsWith(".");
+}
+
+export function episodeFileContentType(filename: string): string {
+  return CONTENT_TYPES[extname(filename).toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * Read-mostly view over the recording directory: one subdirectory per
+ * episode, with archived episodes moved under `.archive/`.
+ */
+export class EpisodeLibrary {
+  constructor(private readonly recordingDir = "./recordings") {}
+
+  async list(options: { archived?: boolean } = {}): Promise<EpisodeSummary[]> {
+    const archived = options.archived ?? false;
+    const root = archived ? join(this.recordingDir, ARCHIVE_DIR) : this.recordingDir;
+
+    let entries;
+    try {
+      entries = await fs.readdir(root, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const episodes: EpisodeSummary[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory() || !isEpisodeId(entry.name)) continue;
+      try {
+        episodes.push(await this.describe(entry.name, { dir: join(root, entry.name), archived }));
+      } catch (error) {
+        console.warn(`[episode-library] failed to read episode ${entry.name}`, error);
+      }
+    }
+
+    // Newest first; ISO timestamps sort lexically
+    return episodes.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  async get(episodeId: string): Promise<EpisodeSummary | null> {
+    const location = await this.locate(episodeId);
+    return location ? this.describe(episodeId, location) : null;
+  }
+
+  /** Finds an episode's directory, active or archived. */
+  async locate(episodeId: string): Promise<EpisodeLocation | null> {
+    if (!isEpisodeId(episodeId)) return null;
+
+    for (const location of [
+      { dir: join(this.recordingDir, episodeId), archived: false },
+      { dir: join(this.recordingDir, ARCHIVE_DIR, episodeId), archived: true },
+    ]) {
+      if (await isDirectory(location.dir)) return location;
+    }
+    return null;
+  }
+
+  /** Absolute path of one of an episode's files, or null if there is no such file. */
+  async filePath(episodeId: string, filename: string): Promise<string | null> {
+    if (!isEpisodeId(filename)) return null;
+
+    const location = await this.locate(episodeId);
+    if (!location) return null;
+
+    const path = join(location.dir, filename);
+    try {
+      return (await fs.stat(path)).isFile() ? path : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Whether an episode, active or archived, already has audio masters that a new recording would overwrite. */
+  async hasMasters(episodeId: string): Promise<boolean> {
+    const location = await this.locate(episodeId);
+    if (!location) return false;
+
+    const names = await fs.readdir(location.dir);
+    return names.some((name) => MASTER_EXTENSIONS.has(extname(name).toLowerCase()));
+  }
+
+  /** Moves an episode under `.archive/`. Returns false if there is no active episode by that id. */
+  async archive(episodeId: string): Promise<boolean> {
+    const location = await this.locate(episodeId);
+    if (!location || location.archived) return false;
+
+    const archiveRoot = join(this.recordingDir, ARCHIVE_DIR);
+    await fs.mkdir(archiveRoot, { recursive: true });
+    await fs.rename(location.dir, join(archiveRoot, episodeId));
+
+    console.info(`[episode-library] archived ${episodeId}`);
+    return true;
+  }
+
+  /** Permanently removes an episode, active or archived. */
+  async delete(episodeId: string): Promise<boolean> {
+    const location = await this.locate(episodeId);
+    if (!location) return false;
+
+    await fs.rm(location.dir, { recursive: true, force: true });
+
+    console.info(`[episode-library] deleted ${episodeId}`);
+    return true;
+  }
+
+  private async describe(episodeId: string, location: EpisodeLocation): Promise<EpisodeSummary> {
+    const entries = await fs.readdir(location.dir, { withFileTypes: true });
+    const files: EpisodeFile[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isFile() || !isEpisodeId(entry.name)) continue;
+      const stat = await fs.stat(join(location.dir, entry.name));
+      files.push({ name: entry.name, size: stat.size, modifiedAt: stat.mtime.toISOString() });
+    }
+    files.sort((a, b) => a.name.localeCompare(b.name));
+
+    let metadata: Record<string, unknown> | null = null;
+    if (files.some((file) => file.name === "session.yml")) {
+      metadata = parseSessionYaml(await fs.readFile(join(location.dir, "session.yml"), "utf-8"));
+    }
+
+    const startedAt =
+      typeof metadata?.recordingStartTime === "string"
+        ? metadata.recordingStartTime
+        : (await fs.stat(location.dir)).birthtime.toISOString();
+
+    return {
+      episodeId,
+      archived: location.archived,
+      startedAt,
+      durationMs: typeof metadata?.duration === "number" ? metadata.duration : null,
+      totalSize: files.reduce((total, file) => total + file.size, 0),
+      files,
+      metadata,
+    };
+  }
+}
+
+/**
+ * Reads back the YAML subset the recorder writes: nested maps by two-space
+ * indentation, `- item` lists and unquoted scalars.
+ */
+export function parseSessionYaml(content: string): Record<string, unknown> {
+  const lines = content
+    .split("\n")
+    .filter((line) => line.trim() && !line.trimStart().startsWith("#"))
+    .map((line) => ({ indent: line.length - line.trimStart().length, text: line.trim() }));
+
+  let index = 0;
+
+  const parseBlock = (indent: number): Record<string, unknown> | unknown[] => {
+    if (lines[index]?.text.startsWith("- ")) {
+      const items: unknown[] = [];
+      while (index < lines.length && lines[index].indent === indent && lines[index].text.startsWith("- ")) {
+        items.push(parseScalar(lines[index].text.slice(2)));
+        index++;
+      }
+      return items;
+    }
+
+    const map: Record<string, unknown> = {};
+    while (index < lines.length && lines[index].indent === indent) {
+      const { text } = lines[index];
+      const colon = text.indexOf(":");
+      if (colon === -1) {
+        index++;
+        continue;
+      }
+
+      const key = text.slice(0, colon).trim();
+      const value = text.slice(colon + 1).trim();
+      index++;
+
+      if (value) {
+        map[key] = parseScalar(value);
+      } else if (index < lines.length && lines[index].indent > indent) {
+        map[key] = parseBlock(lines[index].indent);
+      } else {
+        map[key] = null;
+      }
+    }
+    return map;
+  };
+
+  const root = parseBlock(lines[0]?.indent ?? 0);
+  return Array.isArray(root) ? {} : root;
+}
+
+function parseScalar(value: string): unknown {
+  if (value === "null" || value === "~") return null;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (/^(["']).*\1$/.test(value)) return value.slice(1, -1);
+  return value;
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await fs.stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
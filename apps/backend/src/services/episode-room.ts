@@ -0,0 +1,266 @@
+import { randomUUID } from "node:crypto";
+import type { Socket } from "socket.io";
+import type {
+  CaptionPayload,
+  ClientRole,
+  ClientToServerEvents,
+  EpisodeState,
+  HumanSpeakerId,
+  OrchestratorStateSnapshot,
+  OrbState,
+  ServerToClientEvents,
+  SharedScreenState,
+  ShowSegmentPayload,
+  SpeakerId,
+} from "@basil/shared";
+import type { EventLogger } from "./event-logger.js";
+import type { RecorderService } from "./recorder.js";
+
+export type StudioSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+const CLIENT_ROLES: readonly ClientRole[] = ["host", "producer", "viewer", "remote-guest"];
+
+/** The microphone seat each role sits in; producers and viewers have none */
+const ROLE_SEATS: Partial<Record<ClientRole, HumanSpeakerId>> = {
+  host: "you",
+  "remote-guest": "remote",
+};
+
+export function isClientRole(value: unknown): value is ClientRole {
+  return CLIENT_ROLES.includes(value as ClientRole);
+}
+
+/**
+ * One show on the backend: the sockets taking part in it, the state they
+ * all see, and the single recorder and event log it writes.
+ *
+ * Members are joined to a socket.io room of the same name and every
+ * broadcast goes through that room, so two producers connecting with
+ * different episode IDs run separate shows, while a second tab on the same
+ * episode just joins in instead of starting another recording.
+ *
+ * Each member says what it is in `hello`: the host and a remote guest each
+ * hold one microphone seat, a producer drives the show without audio, and a
+ * viewer only watches. A member that drops keeps its role and seat under a
+ * resume token until it reconnects or is forgotten.
+ *
+ * The room opens armed; `episode` tracks whether it is being recorded.
+ */
+export class EpisodeRoom {
+  /** socket.io room name */
+  readonly id: string;
+  episode: EpisodeState;
+  autopilot = false;
+  orbStates: Record<SpeakerId, OrbState> = {
+    you: "idle",
+    remote: "idle",
+    claude: "idle",
+    guest: "idle",
+  };
+  sharedScreen: SharedScreenState = { mode: "conversation" };
+  showSegment?: ShowSegmentPayload;
+  thinkingTimer?: NodeJS.Timeout;
+  private captions: CaptionPayload[] = [];
+  private readonly members = new Map<string, StudioSocket>();
+  /** Everyone who has joined, by resume token, including members that dropped and may come back */
+  private readonly participants = new Map<string, Participant>();
+  /** Resume token of each connected member */
+  private readonly tokens = new Map<string, string>();
+  /** Which participant holds each microphone seat */
+  private readonly seats = new Map<HumanSpeakerId, string>();
+
+  constructor(
+    readonly episodeId: string,
+    readonly recorder: RecorderService,
+    readonly eventLogger: EventLogger
+  ) {
+    this.id = `episode:${episodeId}`;
+    this.episode = { episodeId, status: "armed" };
+  }
+
+  get size(): number {
+    return this.members.size;
+  }
+
+  /** Adds a member and returns the resume token it can reclaim its place with after a reconnect */
+  join(socket: StudioSocket): string {
+    const token = randomUUID();
+    this.members.set(socket.id, socket);
+    this.participants.set(token, { socketId: socket.id });
+    this.tokens.set(socket.id, token);
+    void socket.join(this.id);
+    return token;
+  }
+
+  /**
+   * Removes a connected member but keeps its role and seat for a resume.
+   * Returns its resume token; call forget() with it once the grace period
+   * is over.
+   */
+  leave(socketId: string): string | undefined {
+    this.members.delete(socketId);
+    const token = this.tokens.get(socketId);
+    this.tokens.delete(socketId);
+
+    const participant = token ? this.participants.get(token) : undefined;
+    if (participant?.socketId !== socketId) return undefined;
+
+    participant.socketId = undefined;
+    participant.leftAt = Date.now();
+    return token;
+  }
+
+  /**
+   * Moves `socketId` into the participant `token` belongs to, role and seat
+   * included. A socket that is still attached to it (the server has not yet
+   * noticed the old connection drop) is detached. Returns how long the
+   * participant was away, or undefined for a token this room doesn't know.
+   */
+  resume(socketId: string, token: string): number | undefined {
+    const participant = this.participants.get(token);
+    const current = this.tokens.get(socketId);
+    if (!participant || !current || current === token) return undefined;
+
+    if (participant.socketId) this.tokens.delete(participant.socketId);
+    this.forget(current);
+    participant.socketId = socketId;
+    this.tokens.set(socketId, token);
+
+    const downtimeMs = participant.leftAt === undefined ? 0 : Date.now() - participant.leftAt;
+    participant.leftAt = undefined;
+    return downtimeMs;
+  }
+
+  /** Drops a participant for good, freeing its seat. Returns the seat it held */
+  forget(token: string): HumanSpeakerId | undefined {
+    const participant = this.participants.get(token);
+    if (!participant) return undefined;
+
+    this.participants.delete(token);
+    if (participant.socketId) this.tokens.delete(participant.socketId);
+    return this.releaseSeat(token);
+  }
+
+  /** Whether a member that dropped may still come back */
+  awaitingResume(): boolean {
+    for (const participant of this.participants.values()) {
+      if (!participant.socketId) return true;
+    }
+    return false;
+  }
+
+  tokenOf(socketId: string): string | undefined {
+    return this.tokens.get(socketId);
+  }
+
+  /**
+   * Gives a member its role and returns the one it actually got: a host or
+   * remote guest whose seat is already held by another member joins as a
+   * viewer instead of fighting over the microphone.
+   */
+  setRole(socketId: string, role: ClientRole): ClientRole {
+    const token = this.tokens.get(socketId);
+    const participant = token ? this.participants.get(token) : undefined;
+    if (!token || !participant) return "viewer";
+
+    this.releaseSeat(token);
+
+    const seat = ROLE_SEATS[role];
+    if (seat && this.seats.has(seat)) {
+      participant.role = "viewer";
+      return "viewer";
+    }
+
+    if (seat) this.seats.set(seat, token);
+    participant.role = role;
+    return role;
+  }
+
+  roleOf(socketId: string): ClientRole | undefined {
+    const token = this.tokens.get(socketId);
+    return token ? this.participants.get(token)?.role : undefined;
+  }
+
+  seatOf(socketId: string): HumanSpeakerId | undefined {
+    const token = this.tokens.get(socketId);
+    for (const [seat, holder] of this.seats) {
+      if (holder === token) return seat;
+    }
+    return undefined;
+  }
+
+  /**
+   * The seat `socketId`'s audio feeds, or undefined when it should be
+   * dropped. A member that never sent a role takes the host's seat with its
+   * first audio if nobody holds it, as every client did before roles.
+   */
+  claimMic(socketId: string): HumanSpeakerId | undefined {
+    const seat = this.seatOf(socketId);
+    const token = this.tokens.get(socketId);
+    if (seat || !token || this.roleOf(socketId) || this.seats.has("you")) return seat;
+
+    this.seats.set("you", token);
+    return "you";
+  }
+
+  /** Hosts and producers run the show; members without a role are treated as hosts */
+  canControl(socketId: string): boolean {
+    const role = this.roleOf(socketId);
+    return role === undefined || role === "host" || role === "producer";
+  }
+
+  broadcast<Ev extends keyof ServerToClientEvents>(event: Ev, ...args: Parameters<ServerToClientEvents[Ev]>): void {
+    const member = this.members.values().next().value;
+    if (!member) return;
+
+    (member.nsp.to(this.id).emit as (event: string, ...args: unknown[]) => boolean)(event, ...args);
+  }
+
+  addCaption(caption: CaptionPayload): void {
+    this.captions = [caption, ...this.captions].slice(0, 20);
+  }
+
+  /** Returns the previous state, or undefined when `state` is already current */
+  setOrbState(speaker: SpeakerId, state: OrbState): OrbState | undefined {
+    const previous = this.orbStates[speaker];
+    if (previous === state) return undefined;
+
+    this.orbStates[speaker] = state;
+    return previous;
+  }
+
+  clearThinkingTimer(): void {
+    if (this.thinkingTimer) {
+      clearTimeout(this.thinkingTimer);
+      this.thinkingTimer = undefined;
+    }
+  }
+
+  snapshot(): OrchestratorStateSnapshot {
+    return {
+      orbStates: { ...this.orbStates },
+      captions: this.captions.slice(0, 6),
+      autopilot: this.autopilot,
+      sharedScreen: this.sharedScreen,
+      showSegment: this.showSegment,
+      episode: this.episode,
+    };
+  }
+
+  private releaseSeat(token: string): HumanSpeakerId | undefined {
+    for (const [seat, holder] of this.seats) {
+      if (holder === token) {
+        this.seats.delete(seat);
+        return seat;
+      }
+    }
+    return undefined;
+  }
+}
+
+interface Participant {
+  /** Undefined while disconnected and waiting to resume */
+  socketId?: string;
+  leftAt?: number;
+  role?: ClientRole;
+}
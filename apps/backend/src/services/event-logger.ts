@@ -1,11 +1,18 @@
 import { createWriteStream, WriteStream } from "node:fs";
 import { promises as fs } from "node:fs";
 import { join } from "node:path";
+import type { ClientRole } from "@basil/shared";
 import type { CommandRouteResult } from "./command-router";
 
 export type EventType =
   | "session.start"
   | "session.end"
+  | "session.resume"
+  | "session.hello"
+  | "episode.start"
+  | "episode.pause"
+  | "episode.resume"
+  | "episode.stop"
   | "vad.speech-start"
   | "vad.speech-end"
   | "stt.partial"
@@ -20,8 +27,12 @@ export type EventType =
   | "mode.thinking"
   | "mode.normal"
   | "autopilot.toggle"
+  | "show.segment"
+  | "show.complete"
   | "barge-in"
+  | "floor.handoff"
   | "command.route"
+  | "provider.failover"
   | "error";
 
 interface BaseEvent {
@@ -41,6 +52,28 @@ export interface SessionEndEvent extends BaseEvent {
   duration: number;
 }
 
+/** A participant reconnected and took back its place in the room */
+export interface SessionResumeEvent extends BaseEvent {
+  type: "session.resume";
+  episodeId: string;
+  downtimeMs: number;
+}
+
+/** A client said hello and took the role it was given, which may not be the one it asked for */
+export interface SessionHelloEvent extends BaseEvent {
+  type: "session.hello";
+  episodeId: string;
+  participant: string;
+  role: ClientRole;
+}
+
+/** The episode went on or off the record; only what happens while recording is in the masters */
+export interface EpisodeLifecycleEvent extends BaseEvent {
+  type: "episode.start" | "episode.pause" | "episode.resume" | "episode.stop";
+  title?: string;
+  briefing?: string;
+}
+
 export interface VadEvent extends BaseEvent {
   type: "vad.speech-start" | "vad.speech-end";
   speaker: string;
@@ -85,10 +118,14 @@ export interface OrbStateChangeEvent extends BaseEvent {
   newState: string;
 }
 
+/** What switched thinking mode: a spoken command, the producer console, or its timer running out */
+export type ModeTrigger = "command" | "console" | "timer";
+
 export interface ModeEvent extends BaseEvent {
   type: "mode.thinking" | "mode.normal";
   speaker: string;
   duration?: number;
+  trigger?: ModeTrigger;
 }
 
 export interface AutopilotEvent extends BaseEvent {
@@ -96,12 +133,40 @@ export interface AutopilotEvent extends BaseEvent {
   enabled: boolean;
 }
 
+export interface ShowSegmentEvent extends BaseEvent {
+  type: "show.segment";
+  segment: string;
+  title: string;
+  index: number;
+  endsAt: number;
+}
+
+export interface ShowCompleteEvent extends BaseEvent {
+  type: "show.complete";
+}
+
 export interface BargeInEvent extends BaseEvent {
   type: "barge-in";
   interrupter: string;
   interrupted: string[];
 }
 
+export interface FloorHandoffEvent extends BaseEvent {
+  type: "floor.handoff";
+  from: string;
+  to: string[];
+  reason: string;
+}
+
+export interface ProviderFailoverEvent extends BaseEvent {
+  type: "provider.failover";
+  service: string;
+  speaker?: string;
+  provider: string;
+  previous: string;
+  reason?: string;
+}
+
 export interface ErrorEvent extends BaseEvent {
   type: "error";
   error: string;
@@ -112,6 +177,9 @@ export interface ErrorEvent extends BaseEvent {
 export type LogEvent =
   | SessionStartEvent
   | SessionEndEvent
+  | SessionResumeEvent
+  | SessionHelloEvent
+  | EpisodeLifecycleEvent
   | VadEvent
   | SttEvent
   | LlmEvent
@@ -119,13 +187,19 @@ export type LogEvent =
   | OrbStateChangeEvent
   | ModeEvent
   | AutopilotEvent
+  | ShowSegmentEvent
+  | ShowCompleteEvent
   | BargeInEvent
+  | FloorHandoffEvent
   | CommandRouteEvent
+  | ProviderFailoverEvent
   | ErrorEvent;
 
 interface EventLoggerConfig {
   outputDir?: string;
   episodeId: string;
+  /** Sees every event as it is written, e.g. for live metrics */
+  onEvent?: (event: LogEvent) => void;
 }
 
 export class EventLogger {
@@ -167,6 +241,19 @@ export class EventLogger {
 
     const line = JSON.stringify(fullEvent) + "\n";
     this.stream.write(line);
+
+    try {
+      this.config.onEvent?.(fullEvent);
+    } catch (error) {
+      console.warn("[event-logger] onEvent listener failed:", error);
+    }
+  }
+
+  /** Resolves once every event logged so far has been written, e.g. before reading the log back */
+  async flush(): Promise<void> {
+    if (!this.stream) return;
+
+    await new Promise<void>((resolve) => this.stream!.write("", () => resolve()));
   }
 
   async stop(): Promise<void> {
@@ -198,6 +285,37 @@ export class EventLogger {
     } as Omit<SessionEndEvent, "timestamp">);
   }
 
+  logSessionResume(sessionId: string, episodeId: string, downtimeMs: number): void {
+    this.log({
+      type: "session.resume",
+      sessionId,
+      episodeId,
+      downtimeMs,
+    } as Omit<SessionResumeEvent, "timestamp">);
+  }
+
+  logSessionHello(sessionId: string, episodeId: string, participant: string, role: ClientRole): void {
+    this.log({
+      type: "session.hello",
+      sessionId,
+      episodeId,
+      participant,
+      role,
+    } as Omit<SessionHelloEvent, "timestamp">);
+  }
+
+  logEpisode(
+    sessionId: string,
+    type: EpisodeLifecycleEvent["type"],
+    details: { title?: string; briefing?: string } = {}
+  ): void {
+    this.log({
+      type,
+      sessionId,
+      ...details,
+    } as Omit<EpisodeLifecycleEvent, "timestamp">);
+  }
+
   logVadSpeechStart(sessionId: string, speaker: string, confidence?: number): void {
     this.log({
       type: "vad.speech-start",
@@ -288,12 +406,22 @@ export class EventLogger {
     } as Omit<OrbStateChangeEvent, "timestamp">);
   }
 
-  logThinkingMode(sessionId: string, speaker: string, duration: number): void {
+  logThinkingMode(sessionId: string, speaker: string, duration: number, trigger?: ModeTrigger): void {
     this.log({
       type: "mode.thinking",
       sessionId,
       speaker,
       duration,
+      trigger,
+    } as Omit<ModeEvent, "timestamp">);
+  }
+
+  logNormalMode(sessionId: string, speaker: string, trigger?: ModeTrigger): void {
+    this.log({
+      type: "mode.normal",
+      sessionId,
+      speaker,
+      trigger,
     } as Omit<ModeEvent, "timestamp">);
   }
 
@@ -305,6 +433,24 @@ export class EventLogger {
     } as Omit<AutopilotEvent, "timestamp">);
   }
 
+  logShowSegment(sessionId: string, segment: string, title: string, index: number, endsAt: number): void {
+    this.log({
+      type: "show.segment",
+      sessionId,
+      segment,
+      title,
+      index,
+      endsAt,
+    } as Omit<ShowSegmentEvent, "timestamp">);
+  }
+
+  logShowComplete(sessionId: string): void {
+    this.log({
+      type: "show.complete",
+      sessionId,
+    } as Omit<ShowCompleteEvent, "timestamp">);
+  }
+
   logBargeIn(sessionId: string, interrupter: string, interrupted: string[]): void {
     this.log({
       type: "barge-in",
@@ -314,6 +460,16 @@ export class EventLogger {
     } as Omit<BargeInEvent, "timestamp">);
   }
 
+  logFloorHandoff(sessionId: string, from: string, to: string[], reason: string): void {
+    this.log({
+      type: "floor.handoff",
+      sessionId,
+      from,
+      to,
+      reason,
+    } as Omit<FloorHandoffEvent, "timestamp">);
+  }
+
   logCommandRoute(sessionId: string, command: CommandRouteResult): void {
     this.log({
       type: "command.route",
@@ -326,6 +482,21 @@ export class EventLogger {
     } as Omit<CommandRouteEvent, "timestamp">);
   }
 
+  logProviderFailover(
+    sessionId: string,
+    change: { service: string; speaker?: string; provider: string; previous: string; reason?: string }
+  ): void {
+    this.log({
+      type: "provider.failover",
+      sessionId,
+      service: change.service,
+      speaker: change.speaker,
+      provider: change.provider,
+      previous: change.previous,
+      reason: change.reason,
+    } as Omit<ProviderFailoverEvent, "timestamp">);
+  }
+
   logError(sessionId: string, error: Error, context?: Record<string, any>): void {
     this.log({
       type: "error",
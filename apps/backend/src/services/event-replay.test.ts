@@ -0,0 +1,155 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { diffEventStreams, formatReplayReport, SessionReplay } from "./event-replay";
+import type { LogEvent } from "./event-logger";
+import { logEvent } from "./test-events";
+
+const START = logEvent(0, { type: "session.start", episodeId: "ep-1", config: {} });
+
+describe("diffEventStreams", () => {
+  const original = [
+    START,
+    logEvent(100, { type: "orb.state-change", speaker: "claude", oldState: "idle", newState: "thinking" }),
+    logEvent(400, { type: "orb.state-change", speaker: "claude", oldState: "thinking", newState: "speaking" }),
+    logEvent(900, { type: "barge-in", interrupter: "you", interrupted: ["claude"] }),
+  ];
+
+  it("should report identical streams", () => {
+    const report = diffEventStreams(original, original);
+
+    expect(report.identical).toBe(true);
+    expect(report.differences).toEqual([]);
+    expect(report.types.find((summary) => summary.type === "orb.state-change")).toMatchObject({
+      original: 2,
+      replayed: 2,
+      matched: 2,
+      maxDriftMs: 0,
+    });
+  });
+
+  it("should report missing and extra events without shifting later matches", () => {
+    const replayed = [
+      START,
+      logEvent(120, { type: "orb.state-change", speaker: "claude", oldState: "idle", newState: "speaking" }),
+      logEvent(420, { type: "orb.state-change", speaker: "claude", oldState: "thinking", newState: "speaking" }),
+    ];
+
+    const report = diffEventStreams(original, replayed);
+
+    expect(report.identical).toBe(false);
+    expect(report.differences.map((difference) => [difference.kind, difference.signature])).toEqual([
+      ["missing", "claude idle->thinking"],
+      ["extra", "claude idle->speaking"],
+      ["missing", "you cut [claude]"],
+    ]);
+  });
+
+  it("should flag drift beyond the tolerance, scaling replay time by speed", () => {
+    // At 2x the replay's 200 ms is 400 ms of session time
+    const replayed = [
+      logEvent(0, { type: "session.start", episodeId: "ep-1", config: {} }),
+      logEvent(50, { type: "orb.state-change", speaker: "claude", oldState: "idle", newState: "thinking" }),
+      logEvent(200, { type: "orb.state-change", speaker: "claude", oldState: "thinking", newState: "speaking" }),
+      logEvent(800, { type: "barge-in", interrupter: "you", interrupted: ["claude"] }),
+    ];
+
+    const report = diffEventStreams(original, replayed, { speed: 2, driftToleranceMs: 300 });
+
+    expect(report.identical).toBe(true);
+    expect(report.differences).toEqual([
+      { kind: "drift", type: "barge-in", signature: "you cut [claude]", time: 900, driftMs: 700 },
+    ]);
+    expect(formatReplayReport(report)).toContain("~ 0.90s barge-in you cut [claude] (+700 ms)");
+  });
+});
+
+describe("SessionReplay", () => {
+  let outputDir: string | undefined;
+
+  afterEach(async () => {
+    if (outputDir) await fs.rm(outputDir, { recursive: true, force: true });
+    outputDir = undefined;
+  });
+
+  it("should require a session.start", () => {
+    expect(() => new SessionReplay([logEvent(0, { type: "vad.speech-start", speaker: "you" })])).toThrow(/session.start/);
+    expect(() => new SessionReplay([START], { sessionId: "other" })).toThrow(/other/);
+    expect(() => new SessionReplay([START], { speed: 0 })).toThrow(/speed/);
+  });
+
+  it("should re-drive the orchestrator from the recorded inputs", async () => {
+    outputDir = await fs.mkdtemp(join(tmpdir(), "replay-test-"));
+    const original = [
+      START,
+      logEvent(0, { type: "session.start", episodeId: "ep-1", config: {} }, "other-session"),
+      logEvent(10, { type: "session.hello", episodeId: "ep-1", participant: "Basil", role: "host" }),
+      logEvent(300, { type: "vad.speech-start", speaker: "you" }),
+      logEvent(900, { type: "vad.speech-end", speaker: "you" }),
+      logEvent(1_000, { type: "stt.final", speaker: "you", text: "Claude, what do you think?" }),
+      logEvent(1_050, { type: "llm.start", speaker: "claude" }),
+      logEvent(1_200, { type: "llm.chunk", speaker: "claude", text: "I think it works." }),
+      logEvent(1_250, { type: "llm.complete", speaker: "claude", latency: 200 }),
+      logEvent(1_300, { type: "tts.start", speaker: "claude" }),
+      logEvent(2_000, { type: "tts.complete", speaker: "claude" }),
+      logEvent(2_400, { type: "session.end", duration: 2_400 }),
+    ];
+
+    const result = await new SessionReplay(original, { speed: 4, outputDir }).run();
+
+    expect(result.sessionId).toBe("s1");
+    const types = result.replayed.map((logged) => logged.type);
+    expect(types).toEqual(expect.arrayContaining(["vad.speech-start", "vad.speech-end", "command.route", "tts.complete"]));
+    expect(result.replayed).toContainEqual(expect.objectContaining({ type: "llm.chunk", text: "I think it works." }));
+    expect(result.replayed).toContainEqual(
+      expect.objectContaining({ type: "session.hello", participant: "Basil", role: "host" })
+    );
+    expect(result.emitted.map((emission) => emission.event)).toContain("orb.state");
+
+    const llm = result.report.types.find((summary) => summary.type === "llm.start");
+    expect(llm).toMatchObject({ original: 1, replayed: 1, matched: 1 });
+  }, 15_000);
+
+  it("should replay the whole room: members, remote seat, console thinking and the episode lifecycle", async () => {
+    outputDir = await fs.mkdtemp(join(tmpdir(), "replay-test-"));
+    const original = [
+      START,
+      logEvent(10, { type: "session.hello", episodeId: "ep-1", participant: "Basil", role: "host" }),
+      logEvent(50, { type: "session.hello", episodeId: "ep-1", participant: "Remote", role: "remote-guest" }, "s2"),
+      logEvent(100, { type: "episode.start", title: "Pilot" }),
+      logEvent(300, { type: "vad.speech-start", speaker: "remote" }),
+      logEvent(900, { type: "vad.speech-end", speaker: "remote" }),
+      logEvent(1_000, { type: "stt.final", speaker: "remote", text: "Hello from afar." }),
+      logEvent(1_200, { type: "mode.thinking", speaker: "claude", duration: 10_000, trigger: "console" }),
+      logEvent(1_600, { type: "mode.normal", speaker: "claude", trigger: "console" }),
+      logEvent(1_800, { type: "episode.pause" }),
+      logEvent(1_900, { type: "episode.resume" }),
+      logEvent(2_400, { type: "session.end", duration: 2_400 }),
+    ];
+
+    const result = await new SessionReplay(original, { speed: 4, outputDir }).run();
+
+    expect(result.replayed).toContainEqual(
+      expect.objectContaining({ type: "session.hello", sessionId: "replay-s2", role: "remote-guest" })
+    );
+    expect(result.replayed).toContainEqual(expect.objectContaining({ type: "vad.speech-start", speaker: "remote" }));
+    expect(result.replayed).toContainEqual(
+      expect.objectContaining({ type: "stt.final", speaker: "remote", text: "Hello from afar." })
+    );
+    expect(result.replayed.filter((logged) => logged.type.startsWith("episode.")).map((logged) => logged.type)).toEqual([
+      "episode.start",
+      "episode.pause",
+      "episode.resume",
+      "episode.stop",
+    ]);
+    expect(result.replayed).toContainEqual(expect.objectContaining({ type: "episode.start", title: "Pilot" }));
+    expect(result.emitted).toContainEqual(
+      expect.objectContaining({ socketId: "replay-s2", event: "session.role", args: ["remote-guest"] })
+    );
+    for (const type of ["mode.thinking", "mode.normal"]) {
+      expect(result.report.types.find((summary) => summary.type === type)).toMatchObject({ original: 1, matched: 1 });
+      expect(result.replayed).toContainEqual(expect.objectContaining({ type, trigger: "console" }));
+    }
+  }, 15_000);
+});
@@ -0,0 +1,835 @@
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as delay } from "node:timers/promises";
+import type {
+  ClientHelloPayload,
+  ClientRole,
+  ClientToServerEvents,
+  HumanSpeakerId,
+  ServerToClientEvents,
+  SpeakerId,
+} from "@basil/shared";
+import type { Socket } from "socket.io";
+import type { FactoryConfig } from "../adapters/factory.js";
+import type { AdapterFactory, LlmAdapter, LlmRequest, SttAdapter, TtsAdapter } from "../adapters/interfaces.js";
+import { ProductionOrchestrator, type OrchestratorConfig } from "../orchestrator-v2.js";
+import { bytesPerFrame, DEFAULT_BUS_FORMAT } from "./audio-format.js";
+import type { EventType, LogEvent, SessionStartEvent } from "./event-logger.js";
+import { readEvents } from "./transcript-export.js";
+
+type AgentSpeaker = Extract<SpeakerId, "claude" | "guest">;
+
+const AGENTS: AgentSpeaker[] = ["claude", "guest"];
+const SEATS: HumanSpeakerId[] = ["you", "remote"];
+
+// VadDetector defaults: speech-start fires after 120 ms of voice, speech-end after 220 ms of silence
+const VAD_ONSET_MS = 120;
+const VAD_RELEASE_MS = 220;
+const FRAME_MS = 20;
+const TICK_MS = 20;
+// Used when the recording has no synthesized speech to measure
+const DEFAULT_CHARS_PER_SECOND = 14;
+const TTS_CHUNK_MS = 100;
+
+/** Events the orchestrator produces; these are what a replay is checked against. */
+export const REPLAY_COMPARED_TYPES: EventType[] = [
+  "vad.speech-start",
+  "vad.speech-end",
+  "command.route",
+  "llm.start",
+  "llm.complete",
+  "tts.start",
+  "tts.complete",
+  "orb.state-change",
+  "mode.thinking",
+  "mode.normal",
+  "barge-in",
+  "floor.handoff",
+  "show.segment",
+  "show.complete",
+  "error",
+];
+
+export interface ReplayOptions {
+  /**
+   * Playback rate for the recorded inputs; 2 replays twice as fast. The
+   * orchestrator's own timers (autopilot gaps, thinking mode, show segments)
+   * still run in real time, so compare timing-sensitive behaviour at 1x.
+   */
+  speed?: number;
+  /** Which room of the log to replay, by the session that opened it; defaults to the first one */
+  sessionId?: string;
+  /** Scratch directory for the replayed recording; a fresh temp dir by default */
+  outputDir?: string;
+  /** How far the replayed timing may drift before it is reported, in ms */
+  driftToleranceMs?: number;
+  /** Passed through to the orchestrator (e.g. floorPolicy) */
+  orchestrator?: Omit<OrchestratorConfig, "createAdapterFactory" | "useRealAdapters" | "recordingDir" | "episodeId">;
+}
+
+/** Something the orchestrator sent to the (fake) studio client during the replay */
+export interface ReplayEmission {
+  /** Milliseconds of session time */
+  time: number;
+  /** The replay socket it went to; room broadcasts reach every member */
+  socketId: string;
+  event: string;
+  args: unknown[];
+}
+
+export interface ReplayDifference {
+  kind: "missing" | "extra" | "drift";
+  type: EventType;
+  signature: string;
+  /** Session time in the original log (missing, drift) or the replay (extra) */
+  time: number;
+  driftMs?: number;
+}
+
+export interface ReplayTypeSummary {
+  type: EventType;
+  original: number;
+  replayed: number;
+  matched: number;
+  meanDriftMs: number | null;
+  maxDriftMs: number | null;
+}
+
+export interface ReplayReport {
+  speed: number;
+  driftToleranceMs: number;
+  durationMs: { original: number; replayed: number };
+  types: ReplayTypeSummary[];
+  differences: ReplayDifference[];
+  /** Same events in the same order, ignoring timing */
+  identical: boolean;
+}
+
+export interface ReplayResult {
+  episodeId: string;
+  sessionId: string;
+  outputDir: string;
+  /** The replay's own event log; its timestamps are replay wall-clock time, so offsets shrink by `speed` */
+  replayed: LogEvent[];
+  emitted: ReplayEmission[];
+  report: ReplayReport;
+}
+
+interface ReplayInput {
+  time: number;
+  apply: () => void | Promise<void>;
+}
+
+interface ScriptedReply {
+  chunks: { delayMs: number; text: string }[];
+}
+
+/**
+ * Re-drives a ProductionOrchestrator from an episode's events.jsonl.
+ *
+ * The room is reconstructed from the log: every member that said hello
+ * joins on its own socket, each seat's VAD spans become synthetic voiced
+ * audio on its holder's `audio.chunk`, so the real VAD fires at the same
+ * points, and stt.partial/stt.final are fed back through the STT callback
+ * on the seat's stream. The show's controls (episode lifecycle, autopilot,
+ * thinking mode from the console) are sent by a member allowed to run it.
+ * The agents' LLMs replay their recorded replies chunk by chunk, and their
+ * TTS emits silence at the speaking rate measured in the recording.
+ * Everything else (routing, floor control, barge-in, orb states, spoken
+ * thinking commands) is the orchestrator's own behaviour, which is then
+ * diffed against the original.
+ */
+export class SessionReplay {
+  private readonly speed: number;
+  private readonly events: LogEvent[];
+  private readonly sessionId: string;
+  private readonly origin: number;
+  private readonly episodeId: string;
+  private startedAt = 0;
+
+  constructor(
+    events: LogEvent[],
+    private readonly options: ReplayOptions = {}
+  ) {
+    this.speed = options.speed ?? 1;
+    if (!(this.speed > 0)) {
+      throw new Error(`Replay speed must be positive, got ${options.speed}`);
+    }
+
+    const start = events.find(
+      (event) => event.type === "session.start" && (!options.sessionId || event.sessionId === options.sessionId)
+    );
+    if (!start || start.type !== "session.start") {
+      throw new Error(`No session.start${options.sessionId ? ` for ${options.sessionId}` : ""} in the event log`);
+    }
+
+    this.sessionId = start.sessionId;
+    this.origin = start.timestamp;
+    this.episodeId = start.episodeId;
+    this.events = roomEvents(events, start);
+  }
+
+  static async fromFile(path: string, options: ReplayOptions = {}): Promise<SessionReplay> {
+    return new SessionReplay(await readEvents(path), options);
+  }
+
+  async run(): Promise<ReplayResult> {
+    const outputDir = this.options.outputDir ?? (await fs.mkdtemp(join(tmpdir(), "basil-replay-")));
+    const emitted: ReplayEmission[] = [];
+    const studio = new ReplayStudio((socketId, event, args) =>
+      emitted.push({ time: this.sessionTime(), socketId, event, args })
+    );
+
+    let callbacks: FactoryConfig = {};
+    const script = new ReplayScript(this.events, this.speed, (config) => (callbacks = config));
+    const orchestrator = new ProductionOrchestrator({
+      ...this.options.orchestrator,
+      useRealAdapters: true,
+      createAdapterFactory: (config) => script.factory(config),
+      episodeId: this.episodeId,
+      recordingDir: outputDir,
+      recordingFormats: ["wav"],
+      normalizeLoudness: false,
+      // Logs from before the episode lifecycle recorded from the first connection
+      recordOnConnect: !this.events.some((event) => event.type === "episode.start"),
+    });
+
+    console.info(`[replay] replaying ${this.episodeId}/${this.sessionId} at ${this.speed}x into ${outputDir}`);
+
+    this.startedAt = Date.now();
+    const members = new ReplayMembers(studio, (socket) =>
+      orchestrator.register(socket as unknown as Socket<ClientToServerEvents, ServerToClientEvents>)
+    );
+    await members.connect(this.sessionId);
+
+    const inputs = this.inputs(members, () => callbacks);
+    const speech = SEATS.map((speaker) => ({ speaker, spans: this.voicedSpans(speaker) }));
+    const end = this.endTime();
+    const loud = voicedFrame();
+    const silent = Buffer.alloc(loud.length);
+    let audioTime = 0;
+    let next = 0;
+
+    const sendAudioUntil = async (time: number) => {
+      for (; audioTime + FRAME_MS <= time; audioTime += FRAME_MS) {
+        for (const { speaker, spans } of speech) {
+          const voiced = spans.some((span) => audioTime >= span.start && audioTime < span.end);
+          await members.mic(speaker)?.trigger("audio.chunk", voiced ? loud : silent);
+        }
+      }
+    };
+
+    while (audioTime + FRAME_MS <= end || next < inputs.length) {
+      const now = this.sessionTime();
+      // Interleave inputs with audio so each lands after the audio that preceded it
+      while (next < inputs.length && inputs[next].time <= now) {
+        await sendAudioUntil(inputs[next].time);
+        await inputs[next++].apply();
+      }
+      await sendAudioUntil(Math.min(now, end));
+      await delay(TICK_MS);
+    }
+
+    for (const socket of members.sockets()) {
+      await socket.trigger("disconnect");
+    }
+    await orchestrator.shutdown();
+
+    const replayed = await readEvents(join(outputDir, this.episodeId, "events.jsonl"));
+    const report = diffEventStreams(this.events, replayed, {
+      speed: this.speed,
+      driftToleranceMs: this.options.driftToleranceMs,
+    });
+
+    return { episodeId: this.episodeId, sessionId: this.sessionId, outputDir, replayed, emitted, report };
+  }
+
+  /** Original-session milliseconds elapsed since the replay started */
+  private sessionTime(): number {
+    return (Date.now() - this.startedAt) * this.speed;
+  }
+
+  private at(event: LogEvent): number {
+    return event.timestamp - this.origin;
+  }
+
+  private endTime(): number {
+    const end = this.events.find((event) => event.type === "session.end");
+    return end ? this.at(end) : this.at(this.events[this.events.length - 1]);
+  }
+
+  /** When a seat's synthetic audio should be voiced so the VAD fires at the logged times */
+  private voicedSpans(speaker: HumanSpeakerId): { start: number; end: number }[] {
+    const spans: { start: number; end: number }[] = [];
+    let start: number | undefined;
+
+    for (const event of this.events) {
+      if ((event.type !== "vad.speech-start" && event.type !== "vad.speech-end") || event.speaker !== speaker) {
+        continue;
+      }
+      if (event.type === "vad.speech-start") {
+        start = this.at(event);
+      } else if (start !== undefined) {
+        const voicedStart = Math.max(0, start - VAD_ONSET_MS);
+        spans.push({ start: voicedStart, end: Math.max(voicedStart + VAD_ONSET_MS, this.at(event) - VAD_RELEASE_MS) });
+        start = undefined;
+      }
+    }
+
+    if (start !== undefined) {
+      spans.push({ start: Math.max(0, start - VAD_ONSET_MS), end: this.endTime() });
+    }
+    return spans;
+  }
+
+  /** The client and STT inputs of the original room, in order */
+  private inputs(members: ReplayMembers, callbacks: () => FactoryConfig): ReplayInput[] {
+    const inputs: ReplayInput[] = [];
+    const opener = `replay-${this.sessionId}`;
+
+    this.events.forEach((event, i) => {
+      const time = this.at(event);
+      const previous = this.events[i - 1];
+      const next = this.events[i + 1];
+
+      switch (event.type) {
+        case "session.hello":
+          inputs.push({
+            time,
+            apply: () => members.hello(event.sessionId, { participantName: event.participant, role: event.role }),
+          });
+          break;
+
+        case "session.start":
+          // Older logs record the hello as a second session.start carrying the participant
+          if (event.config?.participant !== undefined) {
+            inputs.push({
+              time,
+              apply: () => members.hello(event.sessionId, { participantName: event.config.participant }),
+            });
+          }
+          break;
+
+        // A session.resume is a member reconnecting; its replay socket never dropped
+
+        case "stt.partial":
+        case "stt.final": {
+          // The host's seat streams under the room's session id, the others under `<session id>:<seat>`
+          const stream = event.speaker === "you" ? opener : `${opener}:${event.speaker}`;
+          inputs.push({
+            time,
+            apply: () => callbacks().onSttTranscript?.(stream, event.text, event.type === "stt.final"),
+          });
+          break;
+        }
+
+        case "autopilot.toggle":
+          // The orchestrator turns autopilot off itself when the show completes
+          if (previous?.type !== "show.complete") {
+            inputs.push({ time, apply: () => members.controller().trigger("client.toggle-autopilot", event.enabled) });
+          }
+          break;
+
+        case "mode.thinking":
+        case "mode.normal":
+          // Spoken commands and the timer switch thinking mode by themselves
+          if (event.trigger === "console") {
+            const payload =
+              event.type === "mode.thinking"
+                ? { on: true, speaker: event.speaker as AgentSpeaker, durationMs: event.duration }
+                : { on: false };
+            inputs.push({ time, apply: () => members.controller().trigger("client.toggle-thinking", payload) });
+          }
+          break;
+
+        case "episode.start":
+          inputs.push({
+            time,
+            apply: () =>
+              members.controller().trigger("episode.start", { title: event.title, briefing: event.briefing }),
+          });
+          break;
+
+        case "episode.pause":
+        case "episode.resume":
+          inputs.push({ time, apply: () => members.controller().trigger(event.type) });
+          break;
+
+        case "episode.stop":
+          // Closing the room stops a show still on the record just before the session ends
+          if (next?.type !== "session.end") {
+            inputs.push({ time, apply: () => members.controller().trigger("episode.stop") });
+          }
+          break;
+      }
+    });
+
+    return inputs;
+  }
+}
+
+/**
+ * The events of the room `start` opened, up to its session.end: its own and
+ * those of the members that joined it. A socket with a session.start of its
+ * own ran a separate session, as every tab did before episode rooms.
+ */
+function roomEvents(events: LogEvent[], start: SessionStartEvent): LogEvent[] {
+  const sessions = new Set(events.filter((event) => event.type === "session.start").map((event) => event.sessionId));
+  const from = events.indexOf(start);
+  const end = events.findIndex(
+    (event, i) => i > from && event.type === "session.end" && event.sessionId === start.sessionId
+  );
+
+  return events
+    .slice(from, end === -1 ? undefined : end + 1)
+    .filter((event) => event.sessionId === start.sessionId || !sessions.has(event.sessionId));
+}
+
+/** The replayed room's sockets, by the original session each stands in for */
+class ReplayMembers {
+  private readonly members = new Map<string, { socket: ReplaySocket; role?: ClientRole }>();
+
+  constructor(
+    private readonly studio: ReplayStudio,
+    private readonly register: (socket: ReplaySocket) => Promise<void>
+  ) {}
+
+  /** The member's socket, joining the room the first time it shows up */
+  async connect(sessionId: string): Promise<ReplaySocket> {
+    let member = this.members.get(sessionId);
+    if (!member) {
+      member = { socket: this.studio.socket(`replay-${sessionId}`) };
+      this.members.set(sessionId, member);
+      await this.register(member.socket);
+    }
+    return member.socket;
+  }
+
+  async hello(sessionId: string, payload: ClientHelloPayload): Promise<void> {
+    const socket = await this.connect(sessionId);
+    this.members.get(sessionId)!.role = payload.role ?? "host";
+    await socket.trigger("hello", payload);
+  }
+
+  /** A member the orchestrator lets run the show; members that have not said hello yet count as hosts */
+  controller(): ReplaySocket {
+    const members = Array.from(this.members.values());
+    const controller = members.find(({ role }) => role === undefined || role === "host" || role === "producer");
+    return (controller ?? members[0]).socket;
+  }
+
+  /** The socket whose audio feeds `speaker`'s seat, if anyone holds it */
+  mic(speaker: HumanSpeakerId): ReplaySocket | undefined {
+    const members = Array.from(this.members.values());
+    const holder =
+      speaker === "you"
+        ? // Before its hello, a member takes the host's seat with its first audio
+          members.find(({ role }) => role === "host") ?? members.find(({ role }) => role === undefined)
+        : members.find(({ role }) => role === "remote-guest");
+    return holder?.socket;
+  }
+
+  sockets(): ReplaySocket[] {
+    return Array.from(this.members.values(), ({ socket }) => socket);
+  }
+}
+
+/**
+ * Scripted adapters built from the recording: each agent's LLM hands back
+ * its recorded replies in order, and TTS produces silence paced like the
+ * recorded speech.
+ */
+class ReplayScript {
+  private readonly replies: Record<AgentSpeaker, ScriptedReply[]> = { claude: [], guest: [] };
+  private readonly charsPerSecond: Record<AgentSpeaker, number> = {
+    claude: DEFAULT_CHARS_PER_SECOND,
+    guest: DEFAULT_CHARS_PER_SECOND,
+  };
+
+  constructor(
+    events: LogEvent[],
+    private readonly speed: number,
+    private readonly onFactory: (config: FactoryConfig) => void
+  ) {
+    this.readReplies(events);
+    this.measureSpeakingRates(events);
+  }
+
+  factory(config: FactoryConfig): AdapterFactory {
+    this.onFactory(config);
+    return {
+      stt: () => new ScriptedStt(),
+      tts: (speaker = "claude") =>
+        new ScriptedTts(speaker as AgentSpeaker, this.charsPerSecond[speaker as AgentSpeaker], this.speed, config),
+      llm: (speaker) => new ScriptedLlm(speaker, this.replies[speaker], this.speed),
+    };
+  }
+
+  private readReplies(events: LogEvent[]): void {
+    const open = new Map<string, { reply: ScriptedReply; last: number }>();
+
+    for (const event of events) {
+      if (!isAgent(event)) continue;
+
+      if (event.type === "llm.start") {
+        const reply: ScriptedReply = { chunks: [] };
+        this.replies[event.speaker].push(reply);
+        open.set(event.speaker, { reply, last: event.timestamp });
+      } else if (event.type === "llm.chunk") {
+        const current = open.get(event.speaker);
+        if (!current) continue;
+        current.reply.chunks.push({ delayMs: event.timestamp - current.last, text: event.text ?? "" });
+        current.last = event.timestamp;
+      } else if (event.type === "llm.complete") {
+        open.delete(event.speaker);
+      }
+    }
+  }
+
+  private measureSpeakingRates(events: LogEvent[]): void {
+    const totals = { claude: { chars: 0, ms: 0 }, guest: { chars: 0, ms: 0 } };
+    const lastReply: Partial<Record<AgentSpeaker, string>> = {};
+    const spoken = new Map<AgentSpeaker, number>();
+
+    for (const event of events) {
+      if (!isAgent(event)) continue;
+
+      if (event.type === "llm.start") {
+        lastReply[event.speaker] = "";
+      } else if (event.type === "llm.chunk") {
+        lastReply[event.speaker] = (lastReply[event.speaker] ?? "") + (event.text ?? "");
+      } else if (event.type === "tts.start") {
+        spoken.set(event.speaker, event.timestamp);
+      } else if (event.type === "tts.complete") {
+        const start = spoken.get(event.speaker);
+        spoken.delete(event.speaker);
+        const chars = lastReply[event.speaker]?.length ?? 0;
+        if (start !== undefined && chars > 0 && event.timestamp > start) {
+          totals[event.speaker].chars += chars;
+          totals[event.speaker].ms += event.timestamp - start;
+        }
+      }
+    }
+
+    for (const speaker of AGENTS) {
+      if (totals[speaker].ms > 0) {
+        this.charsPerSecond[speaker] = (totals[speaker].chars / totals[speaker].ms) * 1000;
+      }
+    }
+  }
+}
+
+class ScriptedStt implements SttAdapter {
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+}
+
+class ScriptedLlm implements LlmAdapter {
+  private generation = 0;
+
+  constructor(
+    readonly id: string,
+    private readonly replies: ScriptedReply[],
+    private readonly speed: number
+  ) {}
+
+  async *generate(_sessionId: string, _request: LlmRequest): AsyncIterable<string> {
+    const generation = ++this.generation;
+    const reply = this.replies.shift();
+
+    if (!reply) {
+      // The replay asked for more turns than the original session had
+      yield `[replay: no recorded reply for ${this.id}]`;
+      return;
+    }
+
+    for (const chunk of reply.chunks) {
+      await delay(chunk.delayMs / this.speed);
+      if (generation !== this.generation) return;
+      yield chunk.text;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.generation++;
+  }
+}
+
+class ScriptedTts implements TtsAdapter {
+  private generation = 0;
+
+  constructor(
+    private readonly speaker: AgentSpeaker,
+    private readonly charsPerSecond: number,
+    private readonly speed: number,
+    private readonly callbacks: FactoryConfig
+  ) {}
+
+  async synthesize(sessionId: string, text: string): Promise<void> {
+    const generation = ++this.generation;
+    const durationMs = (text.length / this.charsPerSecond) * 1000;
+    const chunk = Buffer.alloc(
+      Math.round((DEFAULT_BUS_FORMAT.sampleRate * TTS_CHUNK_MS) / 1000) * bytesPerFrame(DEFAULT_BUS_FORMAT)
+    );
+
+    for (let elapsed = 0; elapsed < durationMs; elapsed += TTS_CHUNK_MS) {
+      if (generation !== this.generation) return;
+      this.callbacks.onTtsAudioChunk?.(sessionId, this.speaker, chunk);
+      await delay(TTS_CHUNK_MS / this.speed);
+    }
+
+    if (generation === this.generation) {
+      this.callbacks.onTtsComplete?.(sessionId, this.speaker);
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.generation++;
+  }
+}
+
+/** Stands in for the socket.io namespace: hands out replay sockets and delivers room broadcasts to their members */
+class ReplayStudio {
+  private readonly rooms = new Map<string, Set<ReplaySocket>>();
+
+  constructor(private readonly onEmit: (socketId: string, event: string, args: unknown[]) => void) {}
+
+  socket(id: string): ReplaySocket {
+    return new ReplaySocket(id, this, (event, args) => this.onEmit(id, event, args));
+  }
+
+  join(room: string, socket: ReplaySocket): void {
+    this.rooms.set(room, (this.rooms.get(room) ?? new Set()).add(socket));
+  }
+
+  to(room: string): { emit: (event: string, ...args: unknown[]) => boolean } {
+    return {
+      emit: (event, ...args) => {
+        for (const socket of this.rooms.get(room) ?? []) {
+          socket.emit(event, ...args);
+        }
+        return true;
+      },
+    };
+  }
+}
+
+/** Stands in for a studio client's socket: records emits and lets the replay fire client events. */
+class ReplaySocket {
+  private readonly handlers = new Map<string, ((...args: any[]) => unknown)[]>();
+
+  constructor(
+    readonly id: string,
+    readonly nsp: ReplayStudio,
+    private readonly onEmit: (event: string, args: unknown[]) => void
+  ) {}
+
+  on(event: string, handler: (...args: any[]) => unknown): this {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+    return this;
+  }
+
+  emit(event: string, ...args: unknown[]): boolean {
+    this.onEmit(event, args);
+    return true;
+  }
+
+  join(room: string): void {
+    this.nsp.join(room, this);
+  }
+
+  async trigger(event: string, ...args: unknown[]): Promise<void> {
+    for (const handler of this.handlers.get(event) ?? []) {
+      await handler(...args);
+    }
+  }
+}
+
+/**
+ * Compares the orchestrator-produced events of two logs. Each event type is
+ * aligned separately on its signature (longest common subsequence), so one
+ * missing orb change does not shift every later match; matched pairs are
+ * then checked for timing drift.
+ */
+export function diffEventStreams(
+  original: LogEvent[],
+  replayed: LogEvent[],
+  options: { speed?: number; driftToleranceMs?: number } = {}
+): ReplayReport {
+  const speed = options.speed ?? 1;
+  const driftToleranceMs = options.driftToleranceMs ?? 500;
+  const originalTimes = relativeTimes(original, 1);
+  const replayedTimes = relativeTimes(replayed, speed);
+
+  const types: ReplayTypeSummary[] = [];
+  const differences: ReplayDifference[] = [];
+
+  for (const type of REPLAY_COMPARED_TYPES) {
+    const before = original.filter((event) => event.type === type);
+    const after = replayed.filter((event) => event.type === type);
+    if (before.length === 0 && after.length === 0) continue;
+
+    const pairs = alignSequences(before.map(eventSignature), after.map(eventSignature));
+    const drifts: number[] = [];
+    const matchedBefore = new Set<number>();
+    const matchedAfter = new Set<number>();
+
+    for (const [i, j] of pairs) {
+      matchedBefore.add(i);
+      matchedAfter.add(j);
+      const drift = replayedTimes(after[j]) - originalTimes(before[i]);
+      drifts.push(drift);
+      if (Math.abs(drift) > driftToleranceMs) {
+        differences.push({
+          kind: "drift",
+          type,
+          signature: eventSignature(before[i]),
+          time: originalTimes(before[i]),
+          driftMs: Math.round(drift),
+        });
+      }
+    }
+
+    before.forEach((event, i) => {
+      if (!matchedBefore.has(i)) {
+        differences.push({ kind: "missing", type, signature: eventSignature(event), time: originalTimes(event) });
+      }
+    });
+    after.forEach((event, j) => {
+      if (!matchedAfter.has(j)) {
+        differences.push({ kind: "extra", type, signature: eventSignature(event), time: replayedTimes(event) });
+      }
+    });
+
+    const absolute = drifts.map(Math.abs);
+    types.push({
+      type,
+      original: before.length,
+      replayed: after.length,
+      matched: pairs.length,
+      meanDriftMs: absolute.length ? Math.round(absolute.reduce((a, b) => a + b, 0) / absolute.length) : null,
+      maxDriftMs: absolute.length ? Math.round(Math.max(...absolute)) : null,
+    });
+  }
+
+  differences.sort((a, b) => a.time - b.time);
+
+  return {
+    speed,
+    driftToleranceMs,
+    durationMs: { original: duration(original, 1), replayed: duration(replayed, speed) },
+    types,
+    differences,
+    identical: differences.every((difference) => difference.kind === "drift"),
+  };
+}
+
+export function formatReplayReport(report: ReplayReport): string {
+  const lines = [
+    `Replay at ${report.speed}x: ${report.identical ? "same events as the original" : "event streams differ"}`,
+    `Duration: ${Math.round(report.durationMs.original)} ms original, ${Math.round(report.durationMs.replayed)} ms replayed`,
+    "",
+    "type                 original  replayed  matched  mean drift  max drift",
+  ];
+
+  for (const summary of report.types) {
+    lines.push(
+      [
+        summary.type.padEnd(20),
+        String(summary.original).padStart(8),
+        String(summary.replayed).padStart(9),
+        String(summary.matched).padStart(8),
+        (summary.meanDriftMs === null ? "-" : `${summary.meanDriftMs} ms`).padStart(11),
+        (summary.maxDriftMs === null ? "-" : `${summary.maxDriftMs} ms`).padStart(10),
+      ].join(" ")
+    );
+  }
+
+  if (report.differences.length > 0) {
+    lines.push("", "Differences:");
+    for (const difference of report.differences) {
+      const drift = difference.driftMs === undefined ? "" : ` (${difference.driftMs > 0 ? "+" : ""}${difference.driftMs} ms)`;
+      const mark = difference.kind === "missing" ? "-" : difference.kind === "extra" ? "+" : "~";
+      lines.push(`  ${mark} ${(difference.time / 1000).toFixed(2)}s ${difference.type} ${difference.signature}${drift}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/** What has to match for two events of the same type to count as the same event */
+function eventSignature(event: LogEvent): string {
+  switch (event.type) {
+    case "orb.state-change":
+      return `${event.speaker} ${event.oldState}->${event.newState}`;
+    case "command.route":
+      return `${event.action} [${event.targets.join(",")}]`;
+    case "barge-in":
+      return `${event.interrupter} cut [${[...event.interrupted].sort().join(",")}]`;
+    case "floor.handoff":
+      return `${event.from}->[${event.to.join(",")}] ${event.reason}`;
+    case "mode.thinking":
+      return `${event.speaker} ${event.duration ?? 0}ms`;
+    case "show.segment":
+      return event.segment;
+    case "error":
+      return event.error;
+    case "show.complete":
+      return "";
+    default:
+      return "speaker" in event ? String(event.speaker) : "";
+  }
+}
+
+/** Index pairs of a longest common subsequence of two signature lists. */
+function alignSequences(a: string[], b: string[]): [number, number][] {
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] =
+        a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      pairs.push([i++, j++]);
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/** Maps events to milliseconds of original session time since their log's session.start */
+function relativeTimes(events: LogEvent[], speed: number): (event: LogEvent) => number {
+  const origin = (events.find((event) => event.type === "session.start") ?? events[0])?.timestamp ?? 0;
+  return (event) => (event.timestamp - origin) * speed;
+}
+
+function duration(events: LogEvent[], speed: number): number {
+  const last = events[events.length - 1];
+  return last ? relativeTimes(events, speed)(last) : 0;
+}
+
+function isAgent<T extends LogEvent>(event: T): event is T & { speaker: AgentSpeaker } {
+  return "speaker" in event && AGENTS.includes(event.speaker as AgentSpeaker);
+}
+
+/** One 20 ms frame of a 220 Hz tone, well above the VAD's speech threshold */
+function voicedFrame(): Buffer {
+  const samples = (DEFAULT_BUS_FORMAT.sampleRate * FRAME_MS) / 1000;
+  const frame = Buffer.alloc(samples * bytesPerFrame(DEFAULT_BUS_FORMAT));
+  for (let i = 0; i < samples; i++) {
+    frame.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 220 * i) / DEFAULT_BUS_FORMAT.sampleRate) * 0.2 * 32767), i * 2);
+  }
+  return frame;
+}
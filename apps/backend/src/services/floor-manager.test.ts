@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { FloorManager } from "./floor-manager";
+
+describe("FloorManager", () => {
+  it("should hand the floor to an agent addressed at the start", () => {
+    const floor = new FloorManager();
+
+    expect(floor.agentTurn("claude", "Guest, how would you handle the cold-start problem?")).toEqual({
+      targets: ["guest"],
+      reason: "addressed",
+    });
+  });
+
+  it("should hand the floor to an agent addressed at the end", () => {
+    const floor = new FloorManager();
+
+    const decision = floor.agentTurn("guest", "I think it's overblown. What do you think, Claude?");
+
+    expect(decision).toEqual({ targets: ["claude"], reason: "addressed" });
+  });
+
+  it("should let the other agent answer an open question", () => {
+    const floor = new FloorManager();
+
+    expect(floor.agentTurn("claude", "But is scale really the bottleneck?")).toEqual({
+      targets: ["guest"],
+      reason: "question",
+    });
+  });
+
+  it("should yield to the host for statements and questions put to the host", () => {
+    const floor = new FloorManager();
+
+    expect(floor.agentTurn("claude", "All right, that settles it.").reason).toBe("statement");
+    floor.humanTurn();
+    expect(floor.agentTurn("guest", "Basil, where do you want to take this next?")).toEqual({
+      targets: [],
+      reason: "asked-host",
+    });
+  });
+
+  it("should not treat a sentence that merely starts with a name as an address", () => {
+    const floor = new FloorManager();
+
+    expect(floor.agentTurn("guest", "Claude makes a fair point there.").targets).toEqual([]);
+  });
+
+  it("should not offer the floor to an agent that is already queued", () => {
+    const floor = new FloorManager();
+
+    expect(floor.agentTurn("claude", "Guest, your turn?", ["guest"]).targets).toEqual([]);
+  });
+
+  it("should yield after the maximum number of consecutive agent turns", () => {
+    const floor = new FloorManager({ maxConsecutiveAgentTurns: 2 });
+
+    expect(floor.agentTurn("claude", "Why is that?").targets).toEqual(["guest"]);
+    expect(floor.agentTurn("guest", "Why not?")).toEqual({ targets: [], reason: "turn-limit" });
+
+    floor.humanTurn();
+    expect(floor.agentTurn("claude", "Why is that?").targets).toEqual(["guest"]);
+  });
+
+  it("should put the agent who spoke least recently first", () => {
+    const floor = new FloorManager();
+
+    expect(floor.order(["claude", "guest"])).toEqual(["claude", "guest"]);
+
+    floor.agentTurn("claude", "Okay.");
+    expect(floor.order(["claude", "guest"])).toEqual(["guest", "claude"]);
+  });
+
+  it("should keep a fixed order when configured", () => {
+    const floor = new FloorManager({ policy: "fixed" });
+    floor.agentTurn("claude", "Okay.");
+
+    expect(floor.order(["guest", "claude"])).toEqual(["claude", "guest"]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { AgentSpeaker } from "./turn-engine.js";
+import { CommandRouter } from "./command-router.js";
+
+/**
+ * How to order agents who want the floor at the same time.
+ * - `fixed`: always Claude first, then the guest
+ * - `least-recent`: whoever has gone longest without speaking goes first
+ */
+export type FloorPolicy = "fixed" | "least-recent";
+
+export type HandoffReason = "addressed" | "question" | "asked-host" | "statement" | "turn-limit";
+
+export interface FloorDecision {
+  targets: AgentSpeaker[];
+  reason: HandoffReason;
+}
+
+export interface FloorManagerOptions {
+  maxConsecutiveAgentTurns?: number;
+  policy?: FloorPolicy;
+  hostName?: string;
+}
+
+const AGENT_ORDER: AgentSpeaker[] = ["claude", "guest"];
+
+/**
+ * Decides who takes the floor after an agent finishes speaking.
+ *
+ * An agent replies to another agent's utterance when it is addressed by name
+ * (or as "both"/"everyone") or when the utterance ends on an open question.
+ * Questions put to the host, plain statements and hitting the cap on
+ * consecutive agent turns all hand the floor back to the human. The count
+ * resets whenever the human speaks.
+ */
+export class FloorManager {
+  private readonly maxConsecutiveAgentTurns: number;
+  private readonly policy: FloorPolicy;
+  private readonly hostPattern: RegExp;
+  private readonly router = new CommandRouter();
+  private consecutiveAgentTurns = 0;
+  private turnCounter = 0;
+  private lastSpoke: Partial<Record<AgentSpeaker, number>> = {};
+
+  constructor(options: FloorManagerOptions = {}) {
+    this.maxConsecutiveAgentTurns = options.maxConsecutiveAgentTurns ?? 3;
+    this.policy = options.policy ?? "least-recent";
+    this.hostPattern = new RegExp(`\\b${options.hostName ?? "basil"}\\b`, "i");
+  }
+
+  humanTurn(): void {
+    this.consecutiveAgentTurns = 0;
+  }
+
+  /**
+   * Records a finished agent utterance and returns who (if anyone) should
+   * reply to it. Agents already queued to speak are not offered the floor again.
+   */
+  agentTurn(speaker: AgentSpeaker, text: string, queued: AgentSpeaker[] = []): FloorDecision {
+    this.consecutiveAgentTurns += 1;
+    this.lastSpoke[speaker] = ++this.turnCounter;
+
+    if (this.consecutiveAgentTurns >= this.maxConsecutiveAgentTurns) {
+      return { targets: [], reason: "turn-limit" };
+    }
+
+    const others = AGENT_ORDER.filter((agent) => agent !== speaker && !queued.includes(agent));
+
+    const opening = this.openingAddress(text).filter((agent) => others.includes(agent));
+    if (opening.length > 0) {
+      return { targets: this.order(opening), reason: "addressed" };
+    }
+
+    const closing = lastSentence(text);
+    if (!closing.endsWith("?")) {
+      return { targets: [], reason: "statement" };
+    }
+
+    // "What do you think, Guest?" puts the address at the end instead
+    const named = closingAddress(closing).filter((agent) => others.includes(agent));
+    if (named.length > 0) {
+      return { targets: this.order(named), reason: "addressed" };
+    }
+
+    if (this.hostPattern.test(closing)) {
+      return { targets: [], reason: "asked-host" };
+    }
+
+    return { targets: this.order(others), reason: "question" };
+  }
+
+  order(targets: AgentSpeaker[]): AgentSpeaker[] {
+    const unique = AGENT_ORDER.filter((agent) => targets.includes(agent));
+    if (this.policy === "fixed") return unique;
+
+    // Agents who have never spoken sort first; Array.prototype.sort is stable
+    return unique.sort((a, b) => (this.lastSpoke[a] ?? 0) - (this.lastSpoke[b] ?? 0));
+  }
+
+  private openingAddress(text: string): AgentSpeaker[] {
+    // Only a vocative opening ("Guest, ...", "Everyone: ...") counts; agents
+    // start plenty of sentences with "All" or each other's names
+    if (!/^(?:hey\s+)?@?\w+\s*[,:]/i.test(text.trim())) return [];
+
+    const command = this.router.route(text);
+    if (!command || command.action === "thinking") return [];
+
+    return command.targets as AgentSpeaker[];
+  }
+}
+
+function closingAddress(closing: string): AgentSpeaker[] {
+  const normalized = closing.toLowerCase();
+  if (/\b(both of you|you both|everyone)\b/.test(normalized)) {
+    return [...AGENT_ORDER];
+  }
+  return AGENT_ORDER.filter((agent) => new RegExp(`\\b${agent}\\b`).test(normalized));
+}
+
+function lastSentence(text: string): string {
+  const trimmed = text.trim();
+  const sentences = trimmed.split(/(?<=[.!?…])\s+/);
+  return sentences[sentences.length - 1] ?? trimmed;
+}
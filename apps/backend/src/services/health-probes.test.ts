@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  configuredProbes,
+  DeepHealthCheck,
+  type HealthProbe,
+  type ProbeConfig,
+  type ProbeResult,
+} from "./health-probes";
+
+function probe(name: string, run: HealthProbe["run"], fallback = false): HealthProbe {
+  return { name, service: "llm", provider: name, fallback, run };
+}
+
+const CONFIG: ProbeConfig = {
+  sttProvider: "assemblyai",
+  ttsProvider: "coqui",
+  guestProvider: "groq",
+  fallbacks: { stt: ["whisper"], tts: ["google"], guest: ["local", "groq"] },
+  whisperEndpoint: "http://localhost:8001/transcribe",
+  localLlamaEndpoint: "http://localhost:8080/v1",
+  echoforgeEndpoint: "http://localhost:8000",
+  claudeVoiceProfileId: 1,
+};
+
+describe("DeepHealthCheck", () => {
+  it("should cache the report until it expires or a refresh is asked for", async () => {
+    let now = 0;
+    let calls = 0;
+    const check = new DeepHealthCheck({
+      probes: [probe("claude", async () => `call ${++calls}`)],
+      cacheTtlMs: 1_000,
+      now: () => now,
+    });
+
+    const first = await check.run();
+    expect(first).toMatchObject({ status: "ok", cached: false });
+    expect(first.probes[0]).toMatchObject({ status: "ok", detail: "call 1" });
+
+    now = 999;
+    expect(await check.run()).toMatchObject({ cached: true, probes: [{ detail: "call 1" }] });
+    expect((await check.run(true)).probes[0].detail).toBe("call 2");
+
+    now = 2_000;
+    expect((await check.run()).probes[0].detail).toBe("call 3");
+  });
+
+  it("should share one round between concurrent requests", async () => {
+    let calls = 0;
+    const check = new DeepHealthCheck({ probes: [probe("claude", async () => `call ${++calls}`)] });
+
+    const [a, b] = await Promise.all([check.run(), check.run(true)]);
+
+    expect(calls).toBe(1);
+    expect(a).toBe(b);
+  });
+
+  it("should fail a probe that runs past its timeout and abort it", async () => {
+    let aborted = false;
+    const check = new DeepHealthCheck({
+      probes: [
+        probe("claude", async () => "ok"),
+        probe(
+          "local",
+          (signal: AbortSignal) =>
+            new Promise<string>(() => {
+              signal.addEventListener("abort", () => (aborted = true));
+            }),
+          true
+        ),
+      ],
+      timeoutMs: 20,
+    });
+
+    const report = await check.run();
+
+    expect(report.status).toBe("degraded");
+    expect(report.probes[1]).toMatchObject({ status: "failed", detail: "timed out after 20 ms" });
+    expect(aborted).toBe(true);
+  });
+
+  it("should report down when a primary provider fails", async () => {
+    const check = new DeepHealthCheck({
+      probes: [
+        probe("claude", async () => {
+          throw new Error("API key rejected (HTTP 401)");
+        }),
+      ],
+    });
+
+    expect(await check.run()).toMatchObject({
+      status: "down",
+      probes: [{ name: "claude", status: "failed", detail: "API key rejected (HTTP 401)" }],
+    });
+  });
+});
+
+describe("configuredProbes", () => {
+  it("should probe each primary and fallback provider once", () => {
+    const probes = configuredProbes(CONFIG);
+
+    expect(probes.map(({ name, fallback }: HealthProbe) => `${name}${fallback ? " (fallback)" : ""}`)).toEqual([
+      "stt:assemblyai",
+      "stt:whisper (fallback)",
+      "tts:echoforge",
+      "tts:coqui",
+      "tts:google (fallback)",
+      "llm:claude",
+      "llm:groq",
+      "llm:local (fallback)",
+    ]);
+  });
+
+  it("should fail a missing API key without calling the provider", async () => {
+    const report = await new DeepHealthCheck({
+      probes: configuredProbes({ ...CONFIG, fallbacks: {} }).filter((probe: HealthProbe) => probe.service === "llm"),
+    }).run();
+
+    expect(report.probes.map(({ name, detail }: ProbeResult) => `${name}: ${detail}`)).toEqual([
+      "llm:claude: ANTHROPIC_API_KEY is not set",
+      "llm:groq: GROQ_API_KEY is not set",
+    ]);
+  });
+});
@@ -0,0 +1,334 @@
+import { promises as fs, constants as fsConstants } from "node:fs";
+import { homedir } from "node:os";
+import { delimiter, join } from "node:path";
+import type { ProviderService } from "@basil/shared";
+import type { FallbackChains } from "../adapters/failover.js";
+
+export type ProbeStatus = "ok" | "failed";
+
+export interface ProbeResult {
+  /** What was checked, e.g. "llm:groq" or "tts:echoforge" */
+  name: string;
+  service: ProviderService;
+  provider: string;
+  /** Only configured as a fallback, so a failure degrades rather than blocks the show */
+  fallback: boolean;
+  status: ProbeStatus;
+  detail: string;
+  durationMs: number;
+}
+
+export interface DeepHealthReport {
+  status: "ok" | "degraded" | "down";
+  checkedAt: string;
+  /** Whether this report was served from the cache */
+  cached: boolean;
+  probes: ProbeResult[];
+}
+
+export interface HealthProbe {
+  name: string;
+  service: ProviderService;
+  provider: string;
+  fallback: boolean;
+  /** Resolves with a short detail when the provider looks usable; throws when it does not */
+  run(signal: AbortSignal): Promise<string>;
+}
+
+export interface DeepHealthCheckOptions {
+  probes: HealthProbe[];
+  /** Per-probe time limit */
+  timeoutMs?: number;
+  /** How long a report is reused before probing again */
+  cacheTtlMs?: number;
+  now?: () => number;
+}
+
+/** The subset of the app config the probes read */
+export interface ProbeConfig {
+  sttProvider: string;
+  ttsProvider: string;
+  guestProvider: string;
+  fallbacks: FallbackChains;
+  anthropicApiKey?: string;
+  assemblyaiApiKey?: string;
+  groqApiKey?: string;
+  grokApiKey?: string;
+  togetherApiKey?: string;
+  openaiApiKey?: string;
+  googleCredentials?: string;
+  whisperEndpoint: string;
+  localLlamaEndpoint: string;
+  echoforgeEndpoint: string;
+  claudeVoiceProfileId?: number;
+  guestVoiceProfileId?: number;
+}
+
+/** The VCTK model the Coqui adapter synthesizes with */
+const COQUI_MODEL = "tts_models/en/vctk/vits";
+
+const OPENAI_COMPATIBLE: Record<string, { baseUrl: string; key: keyof ProbeConfig; env: string }> = {
+  groq: { baseUrl: "https://api.groq.com/openai/v1", key: "groqApiKey", env: "GROQ_API_KEY" },
+  grok: { baseUrl: "https://api.x.ai/v1", key: "grokApiKey", env: "GROK_API_KEY" },
+  together: { baseUrl: "https://api.together.xyz/v1", key: "togetherApiKey", env: "TOGETHER_API_KEY" },
+  openai: { baseUrl: "https://api.openai.com/v1", key: "openaiApiKey", env: "OPENAI_API_KEY" },
+};
+
+/**
+ * Runs the health probes for /health/deep.
+ *
+ * Probes run in parallel, each bounded by `timeoutMs`, and the report is
+ * cached for `cacheTtlMs` so a studio page polling it does not hammer paid
+ * APIs. Concurrent requests while a round is in flight share that round.
+ */
+export class DeepHealthCheck {
+  private readonly timeoutMs: number;
+  private readonly cacheTtlMs: number;
+  private readonly now: () => number;
+  private cached?: { report: DeepHealthReport; at: number };
+  private pending?: Promise<DeepHealthReport>;
+
+  constructor(private readonly options: DeepHealthCheckOptions) {
+    this.timeoutMs = options.timeoutMs ?? 5_000;
+    this.cacheTtlMs = options.cacheTtlMs ?? 30_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  async run(refresh = false): Promise<DeepHealthReport> {
+    if (!refresh && this.cached && this.now() - this.cached.at < this.cacheTtlMs) {
+      return { ...this.cached.report, cached: true };
+    }
+
+    this.pending ??= this.probeAll().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  private async probeAll(): Promise<DeepHealthReport> {
+    const probes = await Promise.all(this.options.probes.map((probe) => this.probe(probe)));
+    const failed = probes.filter((probe) => probe.status === "failed");
+    const report: DeepHealthReport = {
+      status: failed.some((probe) => !probe.fallback) ? "down" : failed.length > 0 ? "degraded" : "ok",
+      checkedAt: new Date(this.now()).toISOString(),
+      cached: false,
+      probes,
+    };
+
+    for (const probe of failed) {
+      console.warn(`[health] ${probe.name} failed: ${probe.detail}`);
+    }
+
+    this.cached = { report, at: this.now() };
+    return report;
+  }
+
+  private async probe(probe: HealthProbe): Promise<ProbeResult> {
+    const { run, ...identity } = probe;
+    const startedAt = this.now();
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`timed out after ${this.timeoutMs} ms`));
+      }, this.timeoutMs);
+    });
+
+    try {
+      const detail = await Promise.race([run(controller.signal), timeout]);
+      return { ...identity, status: "ok", detail, durationMs: this.now() - startedAt };
+    } catch (error) {
+      return { ...identity, status: "failed", detail: (error as Error).message, durationMs: this.now() - startedAt };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/** One probe per configured provider, primaries first, then fallbacks */
+export function configuredProbes(config: ProbeConfig): HealthProbe[] {
+  const roles: { service: ProviderService; providers: string[]; primaries: string[] }[] = [
+    { service: "stt", providers: [config.sttProvider, ...(config.fallbacks.stt ?? [])], primaries: [config.sttProvider] },
+    { service: "tts", providers: [config.ttsProvider, ...(config.fallbacks.tts ?? [])], primaries: [config.ttsProvider] },
+    {
+      service: "llm",
+      providers: ["claude", config.guestProvider, ...(config.fallbacks.guest ?? [])],
+      primaries: ["claude", config.guestProvider],
+    },
+  ];
+
+  const probes: HealthProbe[] = [];
+  for (const { service, providers, primaries } of roles) {
+    for (const provider of new Set(providers)) {
+      const fallback = !primaries.includes(provider);
+      for (const [name, run] of Object.entries(providerChecks(config, service, provider))) {
+        probes.push({ name: `${service}:${name}`, service, provider, fallback, run });
+      }
+    }
+  }
+  return probes;
+}
+
+type Check = (signal: AbortSignal) => Promise<string>;
+
+function providerChecks(config: ProbeConfig, service: ProviderService, provider: string): Record<string, Check> {
+  switch (provider) {
+    case "assemblyai":
+      return {
+        assemblyai: (signal) =>
+          checkApiKey(config.assemblyaiApiKey, "ASSEMBLYAI_API_KEY", "https://api.assemblyai.com/v2/transcript?limit=1", signal, (key) => ({
+            authorization: key,
+          })),
+      };
+    case "google":
+      return { google: () => checkGoogleCredentials(config.googleCredentials) };
+    case "whisper":
+      return { whisper: (signal) => checkReachable(new URL(config.whisperEndpoint).origin, signal) };
+    case "coqui":
+      return coquiChecks(config);
+    case "claude":
+      return {
+        claude: (signal) =>
+          checkApiKey(config.anthropicApiKey, "ANTHROPIC_API_KEY", "https://api.anthropic.com/v1/models?limit=1", signal, (key) => ({
+            "x-api-key": key,
+            "anthropic-version": "2023-06-01",
+          })),
+      };
+    case "local":
+      return { local: (signal) => checkLocalModels(config.localLlamaEndpoint, signal) };
+    default: {
+      const compatible = OPENAI_COMPATIBLE[provider];
+      if (!compatible) {
+        return {
+          [provider]: async () => {
+            throw new Error(`Unknown ${service} provider`);
+          },
+        };
+      }
+      return {
+        [provider]: (signal) =>
+          checkApiKey(config[compatible.key] as string | undefined, compatible.env, `${compatible.baseUrl}/models`, signal, (key) => ({
+            authorization: `Bearer ${key}`,
+          })),
+      };
+    }
+  }
+}
+
+/** Voices with an EchoForge profile go through its API; the rest run the local `tts` CLI */
+function coquiChecks(config: ProbeConfig): Record<string, Check> {
+  const profiles = [config.claudeVoiceProfileId, config.guestVoiceProfileId];
+  const checks: Record<string, Check> = {};
+
+  if (profiles.some((id) => id !== undefined)) {
+    checks.echoforge = (signal) => checkReachable(`${config.echoforgeEndpoint}/api`, signal);
+  }
+  if (profiles.some((id) => id === undefined)) {
+    checks.coqui = () => checkCoquiInstall();
+  }
+  return checks;
+}
+
+async function checkApiKey(
+  key: string | undefined,
+  envName: string,
+  url: string,
+  signal: AbortSignal,
+  headers: (key: string) => Record<string, string>
+): Promise<string> {
+  if (!key) {
+    throw new Error(`${envName} is not set`);
+  }
+
+  const response = await fetch(url, { headers: headers(key), signal });
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(`API key rejected (HTTP ${response.status})`);
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return "API key accepted";
+}
+
+/** Any HTTP response counts; we only care that something is listening */
+async function checkReachable(url: string, signal: AbortSignal): Promise<string> {
+  try {
+    const response = await fetch(url, { signal });
+    return `reachable (HTTP ${response.status})`;
+  } catch (error) {
+    if (signal.aborted) throw error;
+    // fetch() only says "fetch failed"; the cause has the ECONNREFUSED or DNS error
+    const { cause, message } = error as Error & { cause?: Error };
+    throw new Error(`${url} unreachable: ${cause?.message ?? message}`);
+  }
+}
+
+async function checkLocalModels(endpoint: string, signal: AbortSignal): Promise<string> {
+  const response = await fetch(`${endpoint}/models`, { signal });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${endpoint}/models`);
+  }
+
+  const body = (await response.json()) as { data?: { id: string }[] };
+  const models = body.data?.map((model) => model.id) ?? [];
+  if (models.length === 0) {
+    throw new Error("no models loaded");
+  }
+  return `serving ${models.join(", ")}`;
+}
+
+async function checkGoogleCredentials(path: string | undefined): Promise<string> {
+  if (!path) {
+    throw new Error("GOOGLE_APPLICATION_CREDENTIALS is not set");
+  }
+
+  try {
+    await fs.access(path, fsConstants.R_OK);
+  } catch {
+    throw new Error(`credentials file ${path} is not readable`);
+  }
+  return "credentials file found";
+}
+
+/**
+ * Looks for the `tts` CLI on the PATH and the VCTK model in Coqui's data
+ * directory, without starting Python. A missing model would otherwise be
+ * downloaded in the middle of the first turn.
+ */
+async function checkCoquiInstall(): Promise<string> {
+  const binary = await findOnPath("tts");
+  if (!binary) {
+    throw new Error("tts binary not found on PATH (pip install coqui-tts)");
+  }
+
+  const modelDir = join(coquiDataDir(), COQUI_MODEL.split("/").join("--"));
+  try {
+    await fs.access(modelDir);
+  } catch {
+    throw new Error(`${COQUI_MODEL} is not downloaded (${modelDir})`);
+  }
+  return `${binary}, ${COQUI_MODEL}`;
+}
+
+async function findOnPath(command: string): Promise<string | undefined> {
+  for (const dir of (process.env.PATH ?? "").split(delimiter).filter(Boolean)) {
+    const candidate = join(dir, command);
+    try {
+      await fs.access(candidate, fsConstants.X_OK);
+      return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+  return undefined;
+}
+
+/** Mirrors Coqui's get_user_data_dir("tts") */
+function coquiDataDir(): string {
+  if (process.env.TTS_HOME) return join(process.env.TTS_HOME, "tts");
+  if (process.env.XDG_DATA_HOME) return join(process.env.XDG_DATA_HOME, "tts");
+  if (process.platform === "darwin") return join(homedir(), "Library", "tts");
+  if (process.platform === "win32") return join(process.env.LOCALAPPDATA ?? homedir(), "tts");
+  return join(homedir(), ".local", "share", "tts");
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { exportLatencyMetrics, LatencyTracker, percentile, summarizeLatency, type TurnLatency } from "./latency-metrics";
+import type { LogEvent } from "./event-logger";
+import { logEvent, T0 } from "./test-events";
+
+const HOST_TURN = [
+  logEvent(0, { type: "vad.speech-start", speaker: "you" }),
+  logEvent(1_000, { type: "vad.speech-end", speaker: "you" }),
+  logEvent(1_300, { type: "stt.final", speaker: "you", text: "Claude, go ahead" }),
+  logEvent(1_320, { type: "llm.start", speaker: "claude", model: "claude" }),
+  logEvent(1_720, { type: "llm.chunk", speaker: "claude", text: "Sure." }),
+  logEvent(1_900, { type: "tts.chunk", speaker: "claude", audioSize: 960 }),
+  logEvent(1_950, { type: "tts.chunk", speaker: "claude", audioSize: 960 }),
+];
+
+describe("LatencyTracker", () => {
+  it("should split a host-prompted turn into spans", () => {
+    const turns: TurnLatency[] = [];
+    const tracker = new LatencyTracker({
+      sttProvider: "assemblyai",
+      ttsProviders: { claude: "google" },
+      onTurn: (turn) => turns.push(turn),
+    });
+
+    HOST_TURN.forEach((logged) => tracker.record(logged));
+
+    expect(turns).toEqual([
+      {
+        speaker: "claude",
+        trigger: "host",
+        startedAt: T0 + 1_320,
+        providers: { stt: "assemblyai", llm: "claude", tts: "google" },
+        sttMs: 300,
+        routingMs: 20,
+        llmFirstTokenMs: 400,
+        ttsFirstAudioMs: 180,
+        totalMs: 900,
+      },
+    ]);
+    expect(tracker.getTurns()).toEqual(turns);
+  });
+
+  it("should treat follow-up turns as agent-triggered and drop interrupted ones", () => {
+    const tracker = new LatencyTracker();
+    [
+      ...HOST_TURN,
+      logEvent(2_500, { type: "llm.start", speaker: "guest", model: "groq" }),
+      logEvent(2_600, { type: "llm.chunk", speaker: "guest", text: "Well..." }),
+      logEvent(2_700, { type: "tts.chunk", speaker: "guest", audioSize: 960 }),
+      logEvent(3_000, { type: "llm.start", speaker: "claude", model: "claude" }),
+      logEvent(3_100, { type: "barge-in", interrupter: "you", interrupted: ["claude"] }),
+      logEvent(3_200, { type: "llm.chunk", speaker: "claude", text: "As I" }),
+      logEvent(3_300, { type: "tts.chunk", speaker: "claude", audioSize: 960 }),
+    ].forEach((logged) => tracker.record(logged));
+
+    const [, guest, ...rest] = tracker.getTurns();
+    expect(rest).toEqual([]);
+    expect(guest).toEqual({
+      speaker: "guest",
+      trigger: "agent",
+      startedAt: T0 + 2_500,
+      providers: { llm: "groq", tts: "unknown" },
+      llmFirstTokenMs: 100,
+      ttsFirstAudioMs: 100,
+    });
+  });
+
+  it("should clamp STT latency when the final transcript beats the VAD", () => {
+    const tracker = new LatencyTracker();
+    [
+      logEvent(0, { type: "vad.speech-start", speaker: "you" }),
+      logEvent(900, { type: "stt.final", speaker: "you", text: "Guest?" }),
+      logEvent(1_000, { type: "vad.speech-end", speaker: "you" }),
+      logEvent(1_050, { type: "llm.start", speaker: "guest", model: "groq" }),
+      logEvent(1_150, { type: "llm.chunk", speaker: "guest", text: "Yes" }),
+      logEvent(1_250, { type: "tts.chunk", speaker: "guest", audioSize: 960 }),
+    ].forEach((logged) => tracker.record(logged));
+
+    expect(tracker.getTurns()[0]).toMatchObject({ sttMs: 0, routingMs: 150, totalMs: 350 });
+  });
+});
+
+describe("summarizeLatency", () => {
+  it("should use nearest-rank percentiles", () => {
+    const values = Array.from({ length: 10 }, (_, index) => (index + 1) * 100);
+    expect(percentile(values, 50)).toBe(500);
+    expect(percentile(values, 90)).toBe(900);
+    expect(percentile(values, 99)).toBe(1_000);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it("should group spans by the provider responsible", () => {
+    const turn = (llm: string, llmFirstTokenMs: number, totalMs?: number): TurnLatency => ({
+      speaker: "claude",
+      trigger: totalMs === undefined ? "agent" : "host",
+      startedAt: T0,
+      providers: { ...(totalMs !== undefined && { stt: "whisper" }), llm, tts: "coqui" },
+      ...(totalMs !== undefined && { sttMs: 200, routingMs: 10, totalMs }),
+      llmFirstTokenMs,
+      ttsFirstAudioMs: 150,
+    });
+
+    const summary = summarizeLatency([turn("claude", 300, 800), turn("claude", 500, 1_000), turn("groq", 100)]);
+
+    expect(summary.turns).toBe(3);
+    expect(summary.spans.llm.claude).toEqual({ count: 2, mean: 400, p50: 300, p90: 500, p99: 500, max: 500 });
+    expect(summary.spans.llm.groq.count).toBe(1);
+    expect(summary.spans.stt.whisper.count).toBe(2);
+    expect(summary.spans.routing.orchestrator.count).toBe(2);
+    expect(summary.spans.tts.coqui.count).toBe(3);
+    expect(Object.keys(summary.spans.total)).toEqual(["claude"]);
+  });
+});
+
+describe("exportLatencyMetrics", () => {
+  let episodeDir: string | undefined;
+
+  afterEach(async () => {
+    if (episodeDir) await fs.rm(episodeDir, { recursive: true, force: true });
+    episodeDir = undefined;
+  });
+
+  it("should write metrics.json covering every session in the log", async () => {
+    episodeDir = await fs.mkdtemp(join(tmpdir(), "latency-test-"));
+    const events = [
+      logEvent(0, { type: "session.start", episodeId: "ep-1", config: {} }),
+      ...HOST_TURN,
+      // A second session's turn must not pick up the first session's host speech
+      logEvent(0, { type: "session.start", episodeId: "ep-1", config: {} }, "s2"),
+      logEvent(2_000, { type: "llm.start", speaker: "claude", model: "claude" }, "s2"),
+      logEvent(2_200, { type: "llm.chunk", speaker: "claude", text: "Hi" }, "s2"),
+      logEvent(2_300, { type: "tts.chunk", speaker: "claude", audioSize: 960 }, "s2"),
+    ];
+    await fs.writeFile(join(episodeDir, "events.jsonl"), events.map((logged) => JSON.stringify(logged)).join("\n"));
+
+    const file = await exportLatencyMetrics(episodeDir, { sttProvider: "google" });
+
+    expect(file).toBe("metrics.json");
+    const metrics = JSON.parse(await fs.readFile(join(episodeDir, file), "utf-8"));
+    expect(metrics.episodeId).toBe("ep-1");
+    expect(metrics.turns.map((turn: TurnLatency) => turn.trigger)).toEqual(["host", "agent"]);
+    expect(metrics.latency.spans.llm.claude).toMatchObject({ count: 2, p50: 200, max: 400 });
+    expect(metrics.latency.spans.stt.google).toMatchObject({ count: 1, p50: 300 });
+  });
+});
@@ -0,0 +1,263 @@
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import type { SpeakerId } from "@basil/shared";
+import type { LogEvent } from "./event-logger.js";
+import { readEvents } from "./transcript-export.js";
+
+type AgentSpeaker = Extract<SpeakerId, "claude" | "guest">;
+
+export type LatencySpan = "stt" | "routing" | "llm" | "tts" | "total";
+
+export const LATENCY_SPANS: LatencySpan[] = ["stt", "routing", "llm", "tts", "total"];
+
+/**
+ * How long one agent turn took to become audible, split into spans:
+ * stt (host stops talking → final transcript), routing (→ LLM request),
+ * llm (→ first token), tts (→ first audio) and total (host stops → first audio).
+ * Turns the host did not prompt (autopilot, crosstalk) only have llm and tts.
+ */
+export interface TurnLatency {
+  speaker: AgentSpeaker;
+  trigger: "host" | "agent";
+  /** Epoch ms of the LLM request */
+  startedAt: number;
+  providers: { stt?: string; llm: string; tts: string };
+  sttMs?: number;
+  routingMs?: number;
+  llmFirstTokenMs: number;
+  ttsFirstAudioMs: number;
+  totalMs?: number;
+}
+
+export interface LatencyStats {
+  count: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface LatencySummary {
+  turns: number;
+  /**
+   * Stats per span, keyed by the provider responsible for it: STT provider
+   * for stt, LLM for llm and total, TTS for tts; routing is ours ("orchestrator")
+   */
+  spans: Record<LatencySpan, Record<string, LatencyStats>>;
+}
+
+export interface LatencyTrackerOptions {
+  sttProvider?: string;
+  ttsProviders?: Partial<Record<AgentSpeaker, string>>;
+  /** Called as each turn's first audio goes out */
+  onTurn?: (turn: TurnLatency) => void;
+}
+
+interface OpenTurn {
+  speaker: AgentSpeaker;
+  llm: string;
+  llmStart: number;
+  firstToken?: number;
+  hostSpeechEnd?: number;
+  hostFinal?: number;
+}
+
+/**
+ * Derives per-turn latency from the session's event stream. Fed live from
+ * the EventLogger, or offline from an events.jsonl.
+ */
+export class LatencyTracker {
+  private readonly turns: TurnLatency[] = [];
+  private readonly open = new Map<AgentSpeaker, OpenTurn>();
+  private hostSpeechEnd?: number;
+  private hostFinal?: number;
+
+  constructor(private readonly options: LatencyTrackerOptions = {}) {}
+
+  record(event: LogEvent): void {
+    switch (event.type) {
+      case "vad.speech-start":
+        if (event.speaker === "you") {
+          this.hostSpeechEnd = undefined;
+          this.hostFinal = undefined;
+        }
+        break;
+
+      case "vad.speech-end":
+        if (event.speaker === "you") this.hostSpeechEnd = event.timestamp;
+        break;
+
+      case "stt.final":
+        this.hostFinal = event.timestamp;
+        break;
+
+      case "llm.start":
+        if (!isAgent(event.speaker)) break;
+        // Every agent that starts before the first reply is heard answers the host
+        this.open.set(event.speaker, {
+          speaker: event.speaker,
+          llm: event.model ?? "unknown",
+          llmStart: event.timestamp,
+          hostSpeechEnd: this.hostFinal === undefined ? undefined : this.hostSpeechEnd,
+          hostFinal: this.hostFinal,
+        });
+        break;
+
+      case "llm.chunk": {
+        const turn = isAgent(event.speaker) ? this.open.get(event.speaker) : undefined;
+        if (turn) turn.firstToken ??= event.timestamp;
+        break;
+      }
+
+      case "llm.complete": {
+        // An empty reply never reaches TTS
+        const turn = isAgent(event.speaker) ? this.open.get(event.speaker) : undefined;
+        if (turn && turn.firstToken === undefined) this.open.delete(turn.speaker);
+        break;
+      }
+
+      case "tts.chunk": {
+        const turn = isAgent(event.speaker) ? this.open.get(event.speaker) : undefined;
+        if (!turn || turn.firstToken === undefined) break;
+        this.open.delete(turn.speaker);
+        this.complete(turn, event.timestamp);
+        break;
+      }
+
+      case "barge-in":
+        for (const speaker of event.interrupted) {
+          if (isAgent(speaker)) this.open.delete(speaker);
+        }
+        break;
+    }
+  }
+
+  getTurns(): TurnLatency[] {
+    return [...this.turns];
+  }
+
+  private complete(turn: OpenTurn, firstAudio: number): void {
+    const prompted = turn.hostFinal !== undefined;
+    const latency: TurnLatency = {
+      speaker: turn.speaker,
+      trigger: prompted ? "host" : "agent",
+      startedAt: turn.llmStart,
+      providers: {
+        ...(prompted && { stt: this.options.sttProvider ?? "unknown" }),
+        llm: turn.llm,
+        tts: this.options.ttsProviders?.[turn.speaker] ?? "unknown",
+      },
+      llmFirstTokenMs: turn.firstToken! - turn.llmStart,
+      ttsFirstAudioMs: firstAudio - turn.firstToken!,
+    };
+
+    if (prompted) {
+      // Streaming STT can finalize before the VAD hangover ends
+      const speechEnd = turn.hostSpeechEnd ?? turn.hostFinal!;
+      latency.sttMs = Math.max(0, turn.hostFinal! - speechEnd);
+      latency.routingMs = turn.llmStart - turn.hostFinal!;
+      latency.totalMs = firstAudio - Math.min(speechEnd, turn.hostFinal!);
+    }
+
+    this.turns.push(latency);
+    // Once a reply is audible, later turns are the agents' own
+    this.hostFinal = undefined;
+    this.hostSpeechEnd = undefined;
+    this.options.onTurn?.(latency);
+  }
+}
+
+export function summarizeLatency(turns: TurnLatency[]): LatencySummary {
+  const samples = Object.fromEntries(LATENCY_SPANS.map((span) => [span, new Map<string, number[]>()])) as Record<
+    LatencySpan,
+    Map<string, number[]>
+  >;
+
+  for (const turn of turns) {
+    for (const [span, provider, ms] of turnSpans(turn)) {
+      samples[span].set(provider, [...(samples[span].get(provider) ?? []), ms]);
+    }
+  }
+
+  const spans = {} as LatencySummary["spans"];
+  for (const span of LATENCY_SPANS) {
+    spans[span] = {};
+    for (const [provider, values] of samples[span]) {
+      spans[span][provider] = computeStats(values);
+    }
+  }
+
+  return { turns: turns.length, spans };
+}
+
+/** The turn's measured spans, each with the provider it is attributed to */
+export function turnSpans(turn: TurnLatency): [LatencySpan, string, number][] {
+  const spans: [LatencySpan, string, number | undefined][] = [
+    ["stt", turn.providers.stt ?? "unknown", turn.sttMs],
+    ["routing", "orchestrator", turn.routingMs],
+    ["llm", turn.providers.llm, turn.llmFirstTokenMs],
+    ["tts", turn.providers.tts, turn.ttsFirstAudioMs],
+    ["total", turn.providers.llm, turn.totalMs],
+  ];
+  return spans.filter((span): span is [LatencySpan, string, number] => span[2] !== undefined);
+}
+
+/**
+ * Computes latency for every session in an episode's events.jsonl and writes
+ * metrics.json next to it. Returns the file name written.
+ */
+export async function exportLatencyMetrics(
+  episodeDir: string,
+  options: Omit<LatencyTrackerOptions, "onTurn"> & { episodeId?: string } = {}
+): Promise<string> {
+  const trackers = new Map<string, LatencyTracker>();
+  let episodeId = options.episodeId;
+
+  for (const event of await readEvents(join(episodeDir, "events.jsonl"))) {
+    if (event.type === "session.start") episodeId ??= event.episodeId;
+
+    let tracker = trackers.get(event.sessionId);
+    if (!tracker) {
+      tracker = new LatencyTracker(options);
+      trackers.set(event.sessionId, tracker);
+    }
+    tracker.record(event);
+  }
+
+  const turns = [...trackers.values()].flatMap((tracker) => tracker.getTurns());
+  const metrics = {
+    episodeId: episodeId ?? "unknown",
+    generatedAt: new Date().toISOString(),
+    unit: "ms",
+    latency: summarizeLatency(turns),
+    turns,
+  };
+
+  await fs.writeFile(join(episodeDir, "metrics.json"), JSON.stringify(metrics, null, 2), "utf-8");
+  console.info(`[latency] wrote metrics for ${turns.length} turns to ${episodeDir}`);
+  return "metrics.json";
+}
+
+/** Nearest-rank percentile of an ascending list */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+function computeStats(values: number[]): LatencyStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: Math.round(sorted.reduce((total, value) => total + value, 0) / sorted.length),
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+function isAgent(speaker: string): speaker is AgentSpeaker {
+  return speaker === "claude" || speaker === "guest";
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { measureLoudness, normalizeLoudness } from "./loudness";
+import { createWavHeader, type AudioFormat } from "./audio-format";
+
+const FORMAT: AudioFormat = { sampleRate: 48_000, channels: 1, bitDepth: 16 };
+
+function sine(amplitude: number, seconds: number, frequency = 997): Buffer {
+  const frames = FORMAT.sampleRate * seconds;
+  const pcm = Buffer.alloc(frames * 2);
+  for (let i = 0; i < frames; i++) {
+    const value = Math.round(amplitude * 32767 * Math.sin((2 * Math.PI * frequency * i) / FORMAT.sampleRate));
+    pcm.writeInt16LE(value, i * 2);
+  }
+  return pcm;
+}
+
+describe("loudness", () => {
+  const dir = "./test-recordings/loudness";
+
+  async function writeTrack(name: string, pcm: Buffer): Promise<string> {
+    const file = path.join(dir, `${name}.wav`);
+    await fs.writeFile(file, Buffer.concat([createWavHeader(FORMAT, pcm.length), pcm]));
+    return file;
+  }
+
+  beforeEach(async () => {
+    await fs.mkdir(dir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should measure a reference sine", async () => {
+    // A full-scale 1 kHz sine on one channel reads -3.01 LUFS, so half scale is -9.03
+    const file = await writeTrack("sine", sine(0.5, 2));
+
+    const result = await measureLoudness(file);
+
+    expect(result.integratedLufs).toBeCloseTo(-9.03, 1);
+    expect(result.truePeakDbtp).toBeCloseTo(-6.02, 1);
+  });
+
+  it("should report silence as unmeasurable", async () => {
+    const file = await writeTrack("silence", Buffer.alloc(FORMAT.sampleRate * 2));
+
+    const result = await measureLoudness(file);
+
+    expect(result).toEqual({ integratedLufs: null, truePeakDbtp: null });
+  });
+
+  it("should ignore quiet passages below the relative gate", async () => {
+    const speech = sine(0.5, 2);
+    const hiss = sine(0.001, 2);
+    const file = await writeTrack("gated", Buffer.concat([speech, hiss]));
+
+    const result = await measureLoudness(file);
+
+    // Averaging everything would read about -12 LUFS; only the blocks that
+    // straddle the boundary pull the gated figure below the sine's -9.03
+    expect(result.integratedLufs).toBeGreaterThan(-9.5);
+    expect(result.integratedLufs).toBeLessThan(-9);
+  });
+
+  it("should normalize a quiet track to the target", async () => {
+    const input = await writeTrack("quiet", sine(0.05, 2));
+    const output = path.join(dir, "quiet.normalized.wav");
+
+    const result = await normalizeLoudness(input, output, { targetLufs: -16 });
+
+    expect(result.input.integratedLufs).toBeCloseTo(-29.03, 1);
+    expect(result.gainDb).toBeCloseTo(13.03, 1);
+    expect(result.output?.integratedLufs).toBeCloseTo(-16, 0);
+    expect(result.output?.truePeakDbtp).toBeLessThanOrEqual(-1);
+  });
+
+  it("should limit peaks that the gain pushes over the ceiling", async () => {
+    const input = await writeTrack("hot", sine(0.5, 2));
+    const output = path.join(dir, "hot.normalized.wav");
+
+    // -9 LUFS to -3 LUFS would put the peaks at 0 dBTP
+    const result = await normalizeLoudness(input, output, { targetLufs: -3, truePeakDbtp: -1 });
+
+    expect(result.output?.truePeakDbtp).toBeLessThanOrEqual(-1);
+  });
+
+  it("should not write a copy of a silent track", async () => {
+    const input = await writeTrack("silent", Buffer.alloc(FORMAT.sampleRate * 2));
+    const output = path.join(dir, "silent.normalized.wav");
+
+    const result = await normalizeLoudness(input, output);
+
+    expect(result.gainDb).toBeUndefined();
+    await expect(fs.access(output)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { MetricsRegistry } from "./metrics";
+
+describe("MetricsRegistry", () => {
+  it("should render counters and gauges in the exposition format", () => {
+    const registry = new MetricsRegistry();
+    const sessions = registry.gauge("test_sessions", "Open sessions");
+    const bytes = registry.counter("test_bytes_total", "Bytes moved", ["direction", "speaker"]);
+    registry.counter("test_unused_total", "Never incremented");
+
+    sessions.set(2);
+    sessions.dec();
+    bytes.inc({ direction: "in", speaker: "you" }, 960);
+    bytes.inc({ direction: "in", speaker: "you" }, 40);
+    bytes.inc({ speaker: "claude", direction: "out" });
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP test_sessions Open sessions",
+        "# TYPE test_sessions gauge",
+        "test_sessions 1",
+        "# HELP test_bytes_total Bytes moved",
+        "# TYPE test_bytes_total counter",
+        'test_bytes_total{direction="in",speaker="you"} 1000',
+        'test_bytes_total{direction="out",speaker="claude"} 1',
+        "# HELP test_unused_total Never incremented",
+        "# TYPE test_unused_total counter",
+        "test_unused_total 0",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should render cumulative histogram buckets", () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram("test_seconds", "Durations", ["provider"], [0.1, 1]);
+
+    duration.observe({ provider: "groq" }, 0.05);
+    duration.observe({ provider: "groq" }, 0.5);
+    duration.observe({ provider: "groq" }, 3);
+
+    expect(registry.render().split("\n")).toEqual(
+      expect.arrayContaining([
+        'test_seconds_bucket{provider="groq",le="0.1"} 1',
+        'test_seconds_bucket{provider="groq",le="1"} 2',
+        'test_seconds_bucket{provider="groq",le="+Inf"} 3',
+        'test_seconds_sum{provider="groq"} 3.55',
+        'test_seconds_count{provider="groq"} 3',
+      ])
+    );
+  });
+
+  it("should escape label values and reject duplicate or decreasing metrics", () => {
+    const registry = new MetricsRegistry();
+    const errors = registry.counter("test_errors_total", "Errors", ["provider"]);
+    errors.inc({ provider: 'say "hi"\n' });
+
+    expect(registry.render()).toContain('test_errors_total{provider="say \\"hi\\"\\n"} 1');
+    expect(() => registry.counter("test_errors_total", "Again")).toThrow(/already registered/);
+    expect(() => errors.inc({ provider: "x" }, -1)).toThrow(/cannot decrease/);
+  });
+});
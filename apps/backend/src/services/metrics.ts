@@ -0,0 +1,195 @@
+type Labels = Record<string, string>;
+
+/** Seconds; spans a fast STT final up to a long TTS sentence */
+export const DEFAULT_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+abstract class Metric {
+  protected readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = []
+  ) {}
+
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    if (this.series.size === 0 && this.labelNames.length === 0) {
+      lines.push(`${this.name} 0`);
+    }
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected add(labels: Labels, delta: number, replace = false): void {
+    const key = this.key(labels);
+    const entry = this.series.get(key) ?? { labels: this.pick(labels), value: 0 };
+    entry.value = replace ? delta : entry.value + delta;
+    this.series.set(key, entry);
+  }
+
+  protected key(labels: Labels): string {
+    return this.labelNames.map((name) => labels[name] ?? "").join("\u0000");
+  }
+
+  protected pick(labels: Labels): Labels {
+    return Object.fromEntries(this.labelNames.map((name) => [name, labels[name] ?? ""]));
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = "counter";
+
+  inc(labels: Labels = {}, value = 1): void {
+    if (value < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+    this.add(labels, value);
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = "gauge";
+
+  set(value: number, labels: Labels = {}): void {
+    this.add(labels, value, true);
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.add(labels, value);
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.add(labels, -value);
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = "histogram";
+  private readonly observations = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    private readonly buckets: number[] = DEFAULT_DURATION_BUCKETS
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = this.key(labels);
+    const entry = this.observations.get(key) ?? {
+      labels: this.pick(labels),
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.buckets[index] += 1;
+    });
+    entry.sum += value;
+    entry.count += 1;
+    this.observations.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.observations.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.observations.clear();
+  }
+}
+
+/** Holds metrics and renders them in the Prometheus text exposition format */
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string, labelNames?: string[]): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames?: string[]): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames?: string[], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  render(): string {
+    return this.metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+
+  reset(): void {
+    this.metrics.forEach((metric) => metric.reset());
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export const registry = new MetricsRegistry();
+
+/** The backend's instruments, scraped from GET /metrics */
+export const metrics = {
+  activeSessions: registry.gauge("basil_active_sessions", "Connected studio sessions"),
+  audioBytes: registry.counter("basil_audio_bytes_total", "Audio bytes received from the host or synthesized for an agent", [
+    "direction",
+    "speaker",
+  ]),
+  sttDuration: registry.histogram(
+    "basil_stt_duration_seconds",
+    "Time from the end of the host's speech to its final transcript",
+    ["provider"]
+  ),
+  ttsDuration: registry.histogram("basil_tts_duration_seconds", "Time to synthesize one sentence", ["provider", "speaker"]),
+  llmDuration: registry.histogram("basil_llm_duration_seconds", "Time to stream one complete reply", ["provider", "speaker"]),
+  providerErrors: registry.counter("basil_provider_errors_total", "STT, TTS and LLM failures", ["service", "provider"]),
+  providerSwitches: registry.counter("basil_provider_switches_total", "Failovers to a fallback provider and back", [
+    "service",
+    "from",
+    "to",
+  ]),
+  turnLatency: registry.histogram(
+    "basil_turn_latency_seconds",
+    "Per-turn latency spans (see latency-metrics)",
+    ["span", "provider"]
+  ),
+  bargeIns: registry.counter("basil_barge_ins_total", "Times the host cut an agent off"),
+  thinkingEntries: registry.counter("basil_thinking_mode_entries_total", "Times thinking mode was entered"),
+  socketReconnects: registry.counter("basil_socket_reconnects_total", "Socket connections that resumed after a drop"),
+};
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { mixdown } from "./mixdown";
+import { createWavHeader, type AudioFormat } from "./audio-format";
+
+const FORMAT: AudioFormat = { sampleRate: 1_000, channels: 1, bitDepth: 16 };
+
+function constant(value: number, frames: number): Buffer {
+  const pcm = Buffer.alloc(frames * 2);
+  for (let i = 0; i < frames; i++) {
+    pcm.writeInt16LE(value, i * 2);
+  }
+  return pcm;
+}
+
+async function readSamples(file: string): Promise<number[]> {
+  const wav = await fs.readFile(file);
+  const samples: number[] = [];
+  for (let i = 44; i < wav.length; i += 2) {
+    samples.push(wav.readInt16LE(i));
+  }
+  return samples;
+}
+
+describe("mixdown", () => {
+  const dir = "./test-recordings/mixdown";
+
+  async function writeTrack(name: string, pcm: Buffer, format = FORMAT): Promise<string> {
+    const file = path.join(dir, `${name}.wav`);
+    await fs.writeFile(file, Buffer.concat([createWavHeader(format, pcm.length), pcm]));
+    return file;
+  }
+
+  beforeEach(async () => {
+    await fs.mkdir(dir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should sum the tracks", async () => {
+    const you = await writeTrack("you", constant(1000, 100));
+    const claude = await writeTrack("claude", constant(2000, 50));
+
+    const result = await mixdown({
+      tracks: [
+        { path: you, ducked: false },
+        { path: claude, ducked: true },
+      ],
+      outputPath: path.join(dir, "program.wav"),
+      format: FORMAT,
+    });
+
+    const samples = await readSamples(path.join(dir, "program.wav"));
+    expect(result.durationMs).toBe(100);
+    expect(samples[0]).toBe(3000);
+    expect(samples[99]).toBe(1000);
+  });
+
+  it("should duck agent tracks only inside the ducking intervals", async () => {
+    const claude = await writeTrack("claude", constant(10_000, 100));
+
+    await mixdown({
+      tracks: [{ path: claude, ducked: true }],
+      outputPath: path.join(dir, "program.wav"),
+      format: FORMAT,
+      duckingIntervals: [{ start: 20, end: 40 }],
+      duckingGain: 0.5,
+    });
+
+    const samples = await readSamples(path.join(dir, "program.wav"));
+    expect(samples[10]).toBe(10_000);
+    expect(samples[30]).toBe(5_000);
+    expect(samples[50]).toBe(10_000);
+  });
+
+  it("should limit the sum below the ceiling", async () => {
+    const you = await writeTrack("you", constant(30_000, 100));
+    const claude = await writeTrack("claude", constant(30_000, 100));
+
+    const result = await mixdown({
+      tracks: [
+        { path: you, ducked: false },
+        { path: claude, ducked: true },
+      ],
+      outputPath: path.join(dir, "program.wav"),
+      format: FORMAT,
+      ceilingDb: -1,
+    });
+
+    const samples = await readSamples(path.join(dir, "program.wav"));
+    const ceiling = Math.round(32767 * Math.pow(10, -1 / 20));
+    expect(Math.max(...samples)).toBeLessThanOrEqual(ceiling);
+    expect(result.maxReductionDb).toBeLessThan(-6);
+  });
+
+  it("should convert tracks to the mix format", async () => {
+    const guest = await writeTrack("guest", constant(500, 200), { sampleRate: 2_000, channels: 1, bitDepth: 16 });
+
+    const result = await mixdown({
+      tracks: [{ path: guest, ducked: true }],
+      outputPath: path.join(dir, "program.wav"),
+      format: FORMAT,
+    });
+
+    expect(result.durationMs).toBe(100);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  applyGain,
+  bytesPerFrame,
+  convertPcm,
+  dbToGain,
+  PeakLimiter,
+  type AudioFormat,
+} from "./audio-format.js";
+import { WavReader } from "./wav-reader.js";
+import { WavWriter } from "./wav-writer.js";
+
+export interface MixdownTrack {
+  path: string;
+  /** Whether this track is pulled down while the host is talking */
+  ducked: boolean;
+}
+
+export interface DuckingInterval {
+  /** Milliseconds from the start of the recording */
+  start: number;
+  end: number;
+}
+
+export interface MixdownOptions {
+  tracks: MixdownTrack[];
+  outputPath: string;
+  format: AudioFormat;
+  duckingIntervals?: DuckingInterval[];
+  duckingGain?: number;
+  /** Limiter ceiling in dBFS */
+  ceilingDb?: number;
+  /** Limiter release time */
+  releaseMs?: number;
+}
+
+export interface MixdownResult {
+  durationMs: number;
+  /** Largest gain reduction the limiter applied, in dB */
+  maxReductionDb: number;
+}
+
+const BLOCK_SECONDS = 1;
+
+/**
+ * Sums time-aligned WAV tracks into a single program track.
+ *
+ * Ducked tracks are scaled by `duckingGain` inside the ducking intervals
+ * before summing. The sum then goes through a peak limiter (instant attack,
+ * exponential release) so overlapping speakers never clip. Tracks are read a
+ * block at a time, so memory use does not grow with episode length.
+ */
+export async function mixdown(options: MixdownOptions): Promise<MixdownResult> {
+  const { format } = options;
+  const duckingGain = options.duckingGain ?? dbToGain(-12);
+  const intervals = options.duckingIntervals ?? [];
+  const limiter = new PeakLimiter(format, options.ceilingDb ?? -1, options.releaseMs);
+
+  const readers = await Promise.all(options.tracks.map((track) => WavReader.open(track.path)));
+  const writer = new WavWriter(options.outputPath, format);
+  const blockFrames = format.sampleRate * BLOCK_SECONDS;
+  const frameSize = bytesPerFrame(format);
+  let framesWritten = 0;
+
+  try {
+    for (;;) {
+      const blockStartMs = (framesWritten / format.sampleRate) * 1000;
+      const blocks = await Promise.all(
+        readers.map(async (reader) => {
+          const sourceFrames = Math.round((blockFrames * reader.format.sampleRate) / format.sampleRate);
+          return convertPcm(await reader.read(sourceFrames), reader.format, format);
+        })
+      );
+      const frames = Math.max(...blocks.map((block) => block.length / frameSize), 0);
+      if (frames === 0) break;
+
+      const sum = new Float32Array(frames * format.channels);
+      blocks.forEach((block, index) => {
+        const ducked = options.tracks[index].ducked
+          ? duck(block, format, blockStartMs, intervals, duckingGain)
+          : block;
+        for (let i = 0; i < ducked.length / 2; i++) {
+          sum[i] += ducked.readInt16LE(i * 2);
+        }
+      });
+
+      await writer.write(limiter.process(sum));
+      framesWritten += frames;
+    }
+  } finally {
+    await writer.close();
+    await Promise.all(readers.map((reader) => reader.close()));
+  }
+
+  return {
+    durationMs: Math.round((framesWritten / format.sampleRate) * 1000),
+    maxReductionDb: limiter.maxReductionDb,
+  };
+}
+
+function duck(
+  pcm: Buffer,
+  format: AudioFormat,
+  blockStartMs: number,
+  intervals: DuckingInterval[],
+  gain: number
+): Buffer {
+  const frameSize = bytesPerFrame(format);
+  const blockEndMs = blockStartMs + (pcm.length / frameSize / format.sampleRate) * 1000;
+  const overlapping = intervals.filter((interval) => interval.start < blockEndMs && interval.end > blockStartMs);
+  if (overlapping.length === 0) return pcm;
+
+  const output = Buffer.from(pcm);
+  for (const interval of overlapping) {
+    const from = Math.max(0, Math.floor(((interval.start - blockStartMs) / 1000) * format.sampleRate)) * frameSize;
+    const to = Math.min(pcm.length, Math.ceil(((interval.end - blockStartMs) / 1000) * format.sampleRate) * frameSize);
+    applyGain(pcm.subarray(from, to), gain).copy(output, from);
+  }
+  return output;
+}
@@ -1,14 +1,20 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { promises as fs } from "node:fs";
 import { RecorderService } from "./recorder";
+import { createWavHeader } from "./audio-format";
 import path from "node:path";
 
 describe("RecorderService", () => {
   const testOutputDir = "./test-recordings";
   const testEpisodeId = "test-recording-456";
   let recorder: RecorderService;
+  const START_TIME = new Date("2025-01-01T12:00:00Z").getTime();
 
   beforeEach(async () => {
+    // Tracks are aligned to the wall clock, so pin it for predictable lengths
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(START_TIME);
+
     recorder = new RecorderService({
       episodeId: testEpisodeId,
       outputDir: testOutputDir,
@@ -17,6 +23,8 @@ describe("RecorderService", () => {
   });
 
   afterEach(async () => {
+    vi.useRealTimers();
+
     // Cleanup test files
     try {
       await fs.rm(path.join(testOutputDir, testEpisodeId), { recursive: true });
@@ -40,9 +48,250 @@ describe("RecorderService", () => {
     
     const files = await recorder.stop();
     
-    expect(files).toContain("you.webm");
-    expect(files).toContain("claude.webm");
-    expect(files).toContain("guest.webm");
+    expect(files).toContain("you.wav");
+    expect(files).toContain("claude.wav");
+    expect(files).toContain("guest.wav");
+  });
+
+  it("should finalize WAV headers with the bus format and data size", async () => {
+    const pcm = Buffer.alloc(4800 * 2, 1);
+    await recorder.writeAudioChunk("you", pcm);
+    await recorder.stop();
+
+    const wav = await fs.readFile(path.join(testOutputDir, testEpisodeId, "you.wav"));
+
+    expect(wav.toString("ascii", 0, 4)).toBe("RIFF");
+    expect(wav.readUInt32LE(4)).toBe(36 + pcm.length);
+    expect(wav.readUInt16LE(22)).toBe(1);
+    expect(wav.readUInt32LE(24)).toBe(48_000);
+    expect(wav.readUInt32LE(40)).toBe(pcm.length);
+    expect(wav.length).toBe(44 + pcm.length);
+  });
+
+  it("should strip TTS WAV headers and convert to the bus sample rate", async () => {
+    const sourcePcm = Buffer.alloc(2400 * 2);
+    const header = createWavHeader({ sampleRate: 24_000, channels: 1, bitDepth: 16 }, sourcePcm.length);
+    const ttsWav = Buffer.concat([header, sourcePcm]);
+
+    // Delivered in pieces, with the first one splitting a sample in half
+    await recorder.writeAudioChunk("claude", ttsWav.subarray(0, 1025));
+    await recorder.writeAudioChunk("claude", ttsWav.subarray(1025));
+    await recorder.stop();
+
+    const wav = await fs.readFile(path.join(testOutputDir, testEpisodeId, "claude.wav"));
+
+    expect(wav.readUInt32LE(24)).toBe(48_000);
+    expect(wav.readUInt32LE(40)).toBe(4800 * 2);
+    expect(wav.indexOf("RIFF", 4)).toBe(-1);
+  });
+
+  it("should use the declared format for each bus", async () => {
+    const stereo = new RecorderService({
+      episodeId: testEpisodeId,
+      outputDir: testOutputDir,
+      busFormats: { guest: { sampleRate: 44_100, channels: 2, bitDepth: 16 } },
+    });
+    await stereo.start();
+    await stereo.writeAudioChunk("guest", Buffer.alloc(441 * 4));
+    await stereo.stop();
+
+    const wav = await fs.readFile(path.join(testOutputDir, testEpisodeId, "guest.wav"));
+    const metadata = await fs.readFile(path.join(testOutputDir, testEpisodeId, "session.yml"), "utf-8");
+
+    expect(wav.readUInt16LE(22)).toBe(2);
+    expect(wav.readUInt32LE(24)).toBe(44_100);
+    expect(metadata).toContain("sampleRate: 44100");
+    expect(metadata).toContain("durationMs: 10");
+  });
+
+  it("should pad late audio with silence so tracks line up with the session clock", async () => {
+    // 100 ms of 48 kHz mono arriving 250 ms into the session
+    await recorder.writeAudioChunk("claude", Buffer.alloc(4800 * 2, 1), START_TIME + 250);
+
+    vi.setSystemTime(START_TIME + 500);
+    await recorder.stop();
+
+    const wav = await fs.readFile(path.join(testOutputDir, testEpisodeId, "claude.wav"));
+    const firstAudio = wav.indexOf(1, 44);
+    const metadata = await fs.readFile(path.join(testOutputDir, testEpisodeId, "session.yml"), "utf-8");
+
+    expect((firstAudio - 44) / 2).toBe(12_000);
+    expect(wav.readUInt32LE(40)).toBe(24_000 * 2);
+    expect(metadata).toContain("startOffsetMs: 250");
+    expect(metadata).toContain("paddingMs: 400");
+  });
+
+  it("should append audio back to back when it arrives faster than real time", async () => {
+    await recorder.writeAudioChunk("guest", Buffer.alloc(4800 * 2), START_TIME + 100);
+    await recorder.writeAudioChunk("guest", Buffer.alloc(4800 * 2), START_TIME + 100);
+    await recorder.stop();
+
+    const wav = await fs.readFile(path.join(testOutputDir, testEpisodeId, "guest.wav"));
+
+    // 100 ms of lead-in silence followed by both chunks
+    expect(wav.readUInt32LE(40)).toBe(14_400 * 2);
+  });
+
+  it("should report where each chunk landed and keep back-to-back chunks in order", async () => {
+    vi.setSystemTime(START_TIME + 1000);
+    const first = recorder.writeAudioChunk("claude", Buffer.alloc(4800 * 2, 0x01));
+    const second = recorder.writeAudioChunk("claude", Buffer.alloc(4800 * 2, 0x02));
+
+    expect(await first).toEqual({ start: START_TIME + 1000, end: START_TIME + 1100 });
+    expect(await second).toEqual({ start: START_TIME + 1100, end: START_TIME + 1200 });
+
+    await recorder.stop();
+    const wav = await fs.readFile(path.join(testOutputDir, testEpisodeId, "claude.wav"));
+    expect(wav[44 + 48_000 * 2]).toBe(0x01);
+    expect(wav[44 + 52_800 * 2]).toBe(0x02);
+  });
+
+  it("should ignore small delays within the alignment tolerance", async () => {
+    await recorder.writeAudioChunk("you", Buffer.alloc(4800 * 2));
+    await recorder.writeAudioChunk("you", Buffer.alloc(4800 * 2), START_TIME + 150);
+
+    vi.setSystemTime(START_TIME + 200);
+    await recorder.stop();
+
+    const metadata = await fs.readFile(path.join(testOutputDir, testEpisodeId, "session.yml"), "utf-8");
+
+    expect(metadata).toContain("paddingMs: 0");
+  });
+
+  it("should pad every track to the end of the session", async () => {
+    await recorder.writeAudioChunk("you", Buffer.alloc(480 * 2));
+    await recorder.writeAudioChunk("claude", Buffer.alloc(480 * 2), START_TIME + 1000);
+
+    vi.setSystemTime(START_TIME + 2000);
+    await recorder.stop();
+
+    for (const speaker of ["you", "claude"]) {
+      const wav = await fs.readFile(path.join(testOutputDir, testEpisodeId, `${speaker}.wav`));
+      expect(wav.readUInt32LE(40)).toBe(96_000 * 2);
+    }
+  });
+
+  it("should mix a program track with the agents ducked while the host talks", async () => {
+    // Mix the raw track so the ducked samples can be checked exactly
+    const mix = new RecorderService({
+      episodeId: testEpisodeId,
+      outputDir: testOutputDir,
+      normalizeLoudness: false,
+    });
+    await mix.start();
+    await mix.writeAudioChunk("claude", Buffer.alloc(48_000 * 2, 0x10));
+    mix.setDucking(true, START_TIME + 250);
+    mix.setDucking(false, START_TIME + 500);
+
+    vi.setSystemTime(START_TIME + 1000);
+    const files = await mix.stop();
+
+    const program = await fs.readFile(path.join(testOutputDir, testEpisodeId, "program.wav"));
+    const metadata = await fs.readFile(path.join(testOutputDir, testEpisodeId, "session.yml"), "utf-8");
+    const sampleAt = (ms: number) => program.readInt16LE(44 + (ms * 48) * 2);
+
+    expect(files).toContain("program.wav");
+    expect(sampleAt(100)).toBe(0x1010);
+    expect(sampleAt(300)).toBe(Math.round(0x1010 * Math.pow(10, -12 / 20)));
+    expect(sampleAt(600)).toBe(0x1010);
+    expect(metadata).toContain("duckedMs: 250");
+  });
+
+  it("should cut paused stretches from the tracks and captions", async () => {
+    await recorder.writeAudioChunk("you", Buffer.alloc(48_000 * 2, 0x10));
+
+    vi.setSystemTime(START_TIME + 1000);
+    recorder.pause();
+    expect(recorder.isRecording()).toBe(false);
+    expect(await recorder.writeAudioChunk("you", Buffer.alloc(960))).toBeUndefined();
+    recorder.addCaption("you", "Rehearsal chatter");
+
+    vi.setSystemTime(START_TIME + 5000);
+    recorder.resume();
+    const placement = await recorder.writeAudioChunk("you", Buffer.alloc(24_000 * 2, 0x10));
+    recorder.addCaption("you", "Back on air");
+
+    vi.setSystemTime(START_TIME + 6000);
+    await recorder.stop();
+
+    const wav = await fs.readFile(path.join(testOutputDir, testEpisodeId, "you.wav"));
+    const vtt = await fs.readFile(path.join(testOutputDir, testEpisodeId, "you.vtt"), "utf-8");
+    const metadata = await fs.readFile(path.join(testOutputDir, testEpisodeId, "session.yml"), "utf-8");
+
+    expect(placement).toEqual({ start: START_TIME + 5000, end: START_TIME + 5500 });
+    expect(wav.length - 44).toBe(2 * 48_000 * 2);
+    expect(vtt).not.toContain("Rehearsal chatter");
+    expect(vtt).toContain("00:00:01.000 --> 00:00:04.000\nBack on air");
+    expect(metadata).toContain("duration: 2000");
+    expect(metadata).toContain("pausedMs: 4000");
+  });
+
+  it("should drop audio and captions that arrive after stop", async () => {
+    await recorder.writeAudioChunk("you", Buffer.alloc(48_000 * 2, 0x10));
+    recorder.addCaption("you", "That's a wrap");
+
+    vi.setSystemTime(START_TIME + 1000);
+    await recorder.stop();
+    expect(recorder.isRecording()).toBe(false);
+
+    vi.setSystemTime(START_TIME + 2000);
+    expect(await recorder.writeAudioChunk("you", Buffer.alloc(960))).toBeUndefined();
+    expect(await recorder.writeAudioChunk("claude", Buffer.alloc(960))).toBeUndefined();
+    recorder.addCaption("you", "Still talking");
+
+    const files = await fs.readdir(path.join(testOutputDir, testEpisodeId));
+    const wav = await fs.readFile(path.join(testOutputDir, testEpisodeId, "you.wav"));
+    const vtt = await fs.readFile(path.join(testOutputDir, testEpisodeId, "you.vtt"), "utf-8");
+    expect(files).not.toContain("claude.wav");
+    expect(wav.length - 44).toBe(48_000 * 2);
+    expect(vtt).not.toContain("Still talking");
+  });
+
+  it("should write loudness-normalized copies and report the measurements", async () => {
+    const tone = Buffer.alloc(48_000 * 2 * 2);
+    for (let i = 0; i < tone.length / 2; i++) {
+      tone.writeInt16LE(Math.round(0.05 * 32767 * Math.sin((2 * Math.PI * 997 * i) / 48_000)), i * 2);
+    }
+    await recorder.writeAudioChunk("guest", tone);
+
+    vi.setSystemTime(START_TIME + 2000);
+    const files = await recorder.stop();
+
+    const metadata = await fs.readFile(path.join(testOutputDir, testEpisodeId, "session.yml"), "utf-8");
+
+    expect(files).toContain("guest.normalized.wav");
+    expect(metadata).toContain("integratedLufs: -29");
+    expect(metadata).toContain("file: guest.normalized.wav");
+    expect(metadata).toContain("integratedLufs: -16");
+  });
+
+  it("should not normalize silent tracks", async () => {
+    await recorder.writeAudioChunk("you", Buffer.alloc(48_000 * 2));
+
+    vi.setSystemTime(START_TIME + 1000);
+    const files = await recorder.stop();
+
+    const metadata = await fs.readFile(path.join(testOutputDir, testEpisodeId, "session.yml"), "utf-8");
+
+    expect(files).toContain("you.wav");
+    expect(files).not.toContain("you.normalized.wav");
+    expect(metadata).toContain("normalized: null");
+  });
+
+  it("should keep the WAV track when Opus encoding is unavailable", async () => {
+    const opus = new RecorderService({
+      episodeId: testEpisodeId,
+      outputDir: testOutputDir,
+      formats: ["wav", "opus"],
+      ffmpegPath: "/nonexistent/ffmpeg",
+    });
+    await opus.start();
+    await opus.writeAudioChunk("you", Buffer.alloc(960));
+
+    const files = await opus.stop();
+
+    expect(files).toContain("you.wav");
+    expect(files).not.toContain("you.opus");
   });
 
   it("should create VTT caption files", async () => {
@@ -71,6 +320,63 @@ describe("RecorderService", () => {
     expect(content).toMatch(/\d{2}:\d{2}:\d{2}\.\d{3} --> \d{2}:\d{2}:\d{2}\.\d{3}/);
   });
 
+  it("should place timed captions exactly and write SRT and word timings", async () => {
+    recorder.addCaption("you", "Hello there", {
+      start: START_TIME + 1200,
+      end: START_TIME + 2450,
+      words: [
+        { text: "Hello", start: START_TIME + 1200, end: START_TIME + 1700, confidence: 0.98 },
+        { text: "there", start: START_TIME + 1800, end: START_TIME + 2450, confidence: 0.91 },
+      ],
+    });
+
+    vi.setSystemTime(START_TIME + 5000);
+    const files = await recorder.stop();
+
+    const dir = path.join(testOutputDir, testEpisodeId);
+    const vtt = await fs.readFile(path.join(dir, "you.vtt"), "utf-8");
+    const srt = await fs.readFile(path.join(dir, "you.srt"), "utf-8");
+    const words = JSON.parse(await fs.readFile(path.join(dir, "words.json"), "utf-8"));
+
+    expect(files).toContain("you.srt");
+    expect(files).toContain("words.json");
+    expect(vtt).toContain("00:00:01.200 --> 00:00:02.450");
+    expect(srt).toBe("1\n00:00:01,200 --> 00:00:02,450\nHello there\n");
+    expect(words.segments).toEqual([
+      {
+        speaker: "you",
+        start: 1200,
+        end: 2450,
+        text: "Hello there",
+        timed: true,
+        words: [
+          { text: "Hello", start: 1200, end: 1700, confidence: 0.98 },
+          { text: "there", start: 1800, end: 2450, confidence: 0.91 },
+        ],
+      },
+    ]);
+  });
+
+  it("should not cut a timed caption short when the next one arrives", async () => {
+    recorder.addCaption("you", "First", { start: START_TIME + 1000, end: START_TIME + 3000 });
+    recorder.addCaption("you", "Second", { start: START_TIME + 2500, end: START_TIME + 4000 });
+
+    await recorder.stop();
+
+    const vtt = await fs.readFile(path.join(testOutputDir, testEpisodeId, "you.vtt"), "utf-8");
+    expect(vtt).toContain("00:00:01.000 --> 00:00:03.000");
+  });
+
+  it("should end an untimed caption where the next one starts", async () => {
+    recorder.addCaption("claude", "First", START_TIME);
+    recorder.addCaption("claude", "Second", { start: START_TIME + 1500, end: START_TIME + 2000 });
+
+    await recorder.stop();
+
+    const vtt = await fs.readFile(path.join(testOutputDir, testEpisodeId, "claude.vtt"), "utf-8");
+    expect(vtt).toContain("00:00:00.000 --> 00:00:01.500");
+  });
+
   it("should create session metadata file", async () => {
     const files = await recorder.stop();
     
@@ -1,24 +1,104 @@
-import { createWriteStream, promises as fs } from "node:fs";
+import { promises as fs } from "node:fs";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
 import { join } from "node:path";
 import type { SpeakerId } from "@basil/shared";
+import {
+  bytesPerFrame,
+  convertPcm,
+  DEFAULT_BUS_FORMAT,
+  parseWavHeader,
+  type AudioFormat,
+} from "./audio-format.js";
+import { WavWriter } from "./wav-writer.js";
+import { mixdown, type DuckingInterval, type MixdownResult } from "./mixdown.js";
+import { normalizeLoudness, type NormalizeResult } from "./loudness.js";
+
+const execFileAsync = promisify(execFile);
+
+export type RecordingFormat = "wav" | "opus";
+
+/** A word inside a caption; times are epoch milliseconds */
+export interface CaptionWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+/** Where a chunk of audio landed on its track, in epoch milliseconds */
+export interface AudioPlacement {
+  start: number;
+  end: number;
+}
+
+/** When a caption was actually spoken, in epoch milliseconds */
+export interface CaptionTiming {
+  start: number;
+  end: number;
+  words?: CaptionWord[];
+}
 
 interface RecorderConfig {
   outputDir?: string;
   episodeId: string;
+  /** Track formats to produce; WAV is always written, Opus is transcoded from it on stop() */
+  formats?: RecordingFormat[];
+  /** Declared format of each speaker's bus; headerless chunks are assumed to be in it */
+  busFormats?: Partial<Record<SpeakerId, AudioFormat>>;
+  ffmpegPath?: string;
+  opusBitrate?: string;
+  /** How far a track may fall behind the session clock before silence is inserted */
+  alignmentToleranceMs?: number;
+  /** Linear gain applied to the agent tracks in program.wav while the host talks */
+  duckingGain?: number;
+  /** Write a loudness-normalized copy of each speaker track on stop(); on by default */
+  normalizeLoudness?: boolean;
+  /** Integrated loudness of the normalized tracks, in LUFS */
+  targetLufs?: number;
+  /** True-peak ceiling of the normalized tracks, in dBTP */
+  truePeakDbtp?: number;
+}
+
+interface AudioTrack {
+  writer: WavWriter;
+  /** Format of the incoming audio, taken from the last WAV header seen */
+  source?: AudioFormat;
+  /** Trailing bytes that did not make up a whole frame */
+  remainder?: Buffer;
+  /** When the first audio landed, relative to recordingStartTime */
+  startOffsetMs?: number;
+  paddingFrames: number;
 }
 
+// Silence is written in slices of at most one second of audio
+const MAX_SILENCE_SECONDS = 1;
+
 interface VttEntry {
   startTime: number;
   endTime: number;
   text: string;
+  /** False when the end time is only an estimate */
+  timed: boolean;
+  /** Relative to recordingStartTime, like startTime */
+  words?: CaptionWord[];
 }
 
 export class RecorderService {
   private config: RecorderConfig;
   private outputDir: string;
-  private audioStreams = new Map<SpeakerId, any>();
+  private audioTracks = new Map<SpeakerId, AudioTrack>();
   private vttEntries = new Map<SpeakerId, VttEntry[]>();
+  /** Start of the session clock; moved forward by each pause so paused time is cut from every track */
   private recordingStartTime: number = 0;
+  private startedAt = 0;
+  private pausedAt?: number;
+  private pausedMs = 0;
+  private stopped = false;
+  private duckingIntervals: DuckingInterval[] = [];
+  private duckingSince?: number;
+  private program?: MixdownResult;
+  private loudness = new Map<SpeakerId, NormalizeResult>();
 
   constructor(config: RecorderConfig) {
     this.config = {
@@ -33,6 +113,7 @@ export class RecorderService {
     await fs.mkdir(this.outputDir, { recursive: true });
     
     this.recordingStartTime = Date.now();
+    this.startedAt = this.recordingStartTime;
     
     // Initialize VTT arrays for each speaker
     const speakers: SpeakerId[] = ["you", "claude", "guest"];
@@ -43,36 +124,193 @@ export class RecorderService {
     console.info(`[recorder] started for episode ${this.config.episodeId}`);
   }
 
-  async writeAudioChunk(speaker: SpeakerId, chunk: Buffer): Promise<void> {
-    let stream = this.audioStreams.get(speaker);
-    
-    if (!stream) {
-      const filename = join(this.outputDir, `${speaker}.webm`);
-      stream = createWriteStream(filename);
-      this.audioStreams.set(speaker, stream);
-      console.info(`[recorder] opened audio stream for ${speaker}`);
-    }
+  /** Started, not paused and not stopped; audio and captions are dropped otherwise */
+  isRecording(): boolean {
+    return this.recordingStartTime > 0 && this.pausedAt === undefined && !this.stopped;
+  }
+
+  /**
+   * Stops taking audio and captions until resume(). The tracks carry on from
+   * where they were paused, so the paused stretch is not in the masters.
+   */
+  pause(timestamp = Date.now()): void {
+    if (!this.isRecording()) return;
 
-    stream.write(chunk);
+    this.pausedAt = timestamp;
+    console.info(`[recorder] paused at ${Math.round(timestamp - this.recordingStartTime)} ms`);
   }
 
-  addCaption(speaker: SpeakerId, text: string, timestamp?: number): void {
-    const entries = this.vttEntries.get(speaker);
-    if (!entries) return;
+  resume(timestamp = Date.now()): void {
+    if (this.pausedAt === undefined) return;
 
-    const now = timestamp || Date.now();
-    const relativeTime = now - this.recordingStartTime;
-    
-    // Add entry with estimated duration (will be updated on next caption)
-    const entry: VttEntry = {
-      startTime: relativeTime,
-      endTime: relativeTime + 3000, // Default 3s duration
-      text,
+    const pausedFor = Math.max(0, timestamp - this.pausedAt);
+    this.recordingStartTime += pausedFor;
+    this.pausedMs += pausedFor;
+    this.pausedAt = undefined;
+    console.info(`[recorder] resumed after ${pausedFor} ms`);
+  }
+
+  getBusFormat(speaker: SpeakerId): AudioFormat {
+    return this.config.busFormats?.[speaker] ?? DEFAULT_BUS_FORMAT;
+  }
+
+  /**
+   * Appends audio to a speaker's track. Chunks are either raw PCM in the bus
+   * format or a WAV file split into pieces (as the TTS adapters deliver it),
+   * in which case the header is stripped and the audio converted to the bus
+   * format.
+   *
+   * Every track runs on the session clock that starts at recordingStartTime:
+   * if a chunk arrives after the track's end, silence fills the gap so the
+   * chunk lands at its wall-clock position. Audio that arrives faster than
+   * real time (TTS) is appended back to back. Resolves with where the chunk
+   * landed, or undefined if it held no whole frames or the recorder is not
+   * recording.
+   */
+  async writeAudioChunk(
+    speaker: SpeakerId,
+    chunk: Buffer,
+    timestamp?: number
+  ): Promise<AudioPlacement | undefined> {
+    if (!this.isRecording()) return;
+
+    const receivedAt = timestamp ?? Date.now();
+    let track = this.audioTracks.get(speaker);
+
+    if (!track) {
+      const format = this.getBusFormat(speaker);
+      const filename = join(this.outputDir, `${speaker}.wav`);
+      track = { writer: new WavWriter(filename, format), source: format, paddingFrames: 0 };
+      this.audioTracks.set(speaker, track);
+      console.info(
+        `[recorder] opened audio track for ${speaker} (${format.sampleRate} Hz, ${format.channels} ch)`
+      );
+    }
+
+    let pcm = chunk;
+    const header = parseWavHeader(chunk);
+    if (header) {
+      track.source = header.format;
+      track.remainder = undefined;
+      pcm = chunk.subarray(header.dataOffset);
+    } else if (chunk.length >= 4 && chunk.toString("ascii", 0, 4) === "RIFF") {
+      console.warn(`[recorder] unsupported WAV format for ${speaker}, dropping utterance`);
+      track.source = undefined;
+      return;
+    }
+
+    if (!track.source) return;
+
+    if (track.remainder) {
+      pcm = Buffer.concat([track.remainder, pcm]);
+      track.remainder = undefined;
+    }
+
+    const frameSize = bytesPerFrame(track.source);
+    const whole = pcm.length - (pcm.length % frameSize);
+    if (whole < pcm.length) {
+      track.remainder = Buffer.from(pcm.subarray(whole));
+    }
+
+    if (whole === 0) return;
+
+    // Everything up to the write happens synchronously, so chunks delivered
+    // back to back by a TTS adapter keep their order on the track
+    this.padToTime(track, receivedAt, this.config.alignmentToleranceMs ?? 100);
+    track.startOffsetMs ??= Math.max(0, receivedAt - this.recordingStartTime);
+
+    const { format } = track.writer;
+    const converted = convertPcm(pcm.subarray(0, whole), track.source, format);
+    const startFrame = track.writer.bytesWritten / bytesPerFrame(format);
+    const placement = {
+      start: this.recordingStartTime + (startFrame / format.sampleRate) * 1000,
+      end: this.recordingStartTime + ((startFrame + converted.length / bytesPerFrame(format)) / format.sampleRate) * 1000,
     };
 
-    // Update previous entry's end time
-    if (entries.length > 0) {
-      entries[entries.length - 1].endTime = relativeTime;
+    await track.writer.write(converted);
+    return placement;
+  }
+
+  private padToTime(track: AudioTrack, time: number, toleranceMs: number): void {
+    const { format } = track.writer;
+    const frameSize = bytesPerFrame(format);
+    const targetFrames = Math.floor(((time - this.recordingStartTime) / 1000) * format.sampleRate);
+    const currentFrames = track.writer.bytesWritten / frameSize;
+    const toleranceFrames = (toleranceMs / 1000) * format.sampleRate;
+
+    let missing = targetFrames - currentFrames;
+    if (missing <= 0 || (currentFrames > 0 && missing <= toleranceFrames)) return;
+
+    track.paddingFrames += missing;
+
+    const silence = Buffer.alloc(Math.min(missing, format.sampleRate * MAX_SILENCE_SECONDS) * frameSize);
+    while (missing > 0) {
+      const frames = Math.min(missing, silence.length / frameSize);
+      void track.writer.write(silence.subarray(0, frames * frameSize));
+      missing -= frames;
+    }
+  }
+
+  /**
+   * Marks the start or end of a stretch where the host is talking. The agent
+   * tracks stay untouched; the ducking is applied when program.wav is mixed.
+   */
+  setDucking(active: boolean, timestamp?: number): void {
+    if (!this.recordingStartTime || this.stopped) return;
+
+    // A change while paused takes effect where the tracks will carry on from
+    const at = Math.min(timestamp ?? Date.now(), this.pausedAt ?? Infinity);
+    const relativeTime = at - this.recordingStartTime;
+
+    if (active && this.duckingSince === undefined) {
+      this.duckingSince = relativeTime;
+    } else if (!active && this.duckingSince !== undefined) {
+      this.duckingIntervals.push({ start: this.duckingSince, end: relativeTime });
+      this.duckingSince = undefined;
+    }
+  }
+
+  /**
+   * Adds a caption cue. With a CaptionTiming (from STT or TTS) the cue is
+   * placed exactly; with a bare timestamp, or none, it starts at that time and
+   * lasts until the next caption or 3 seconds, whichever is sooner.
+   */
+  addCaption(speaker: SpeakerId, text: string, timing?: number | CaptionTiming): void {
+    if (!this.isRecording()) return;
+
+    let entries = this.vttEntries.get(speaker);
+    if (!entries) {
+      // A remote guest's captions start when they first speak
+      entries = [];
+      this.vttEntries.set(speaker, entries);
+    }
+
+    const toRelative = (time: number) => time - this.recordingStartTime;
+    const arrival = toRelative(typeof timing === "number" ? timing : Date.now());
+    const entry: VttEntry =
+      typeof timing === "object"
+        ? {
+            startTime: toRelative(timing.start),
+            endTime: toRelative(timing.end),
+            text,
+            timed: true,
+            words: timing.words?.map((word) => ({
+              ...word,
+              start: toRelative(word.start),
+              end: toRelative(word.end),
+            })),
+          }
+        : {
+            startTime: arrival,
+            endTime: arrival + 3000, // Default 3s duration
+            text,
+            timed: false,
+          };
+
+    // An estimated end time gives way to the next caption
+    const previous = entries[entries.length - 1];
+    if (previous && !previous.timed && previous.endTime > entry.startTime) {
+      previous.endTime = Math.max(previous.startTime, entry.startTime);
     }
 
     entries.push(entry);
@@ -80,35 +318,147 @@ export class RecorderService {
 
   async stop(): Promise<string[]> {
     const files: string[] = [];
+    const endTime = Date.now();
 
-    // Close all audio streams
-    for (const [speaker, stream] of this.audioStreams) {
-      await new Promise<void>((resolve) => {
-        stream.end(() => {
-          console.info(`[recorder] closed audio stream for ${speaker}`);
-          resolve();
-        });
-      });
-      files.push(`${speaker}.webm`);
+    this.resume(endTime);
+    this.setDucking(false, endTime);
+    // The tracks are closed below; anything that arrives from here on is dropped
+    this.stopped = true;
+
+    // Pad every track out to the end of the session so they share one length
+    // and finalize the WAV headers
+    const closed: SpeakerId[] = [];
+    for (const [speaker, track] of this.audioTracks) {
+      try {
+        this.padToTime(track, endTime, 0);
+        await track.writer.close();
+        closed.push(speaker);
+        files.push(`${speaker}.wav`);
+        console.info(`[recorder] closed audio track for ${speaker}`);
+      } catch (error) {
+        console.error(`[recorder] failed to finalize audio track for ${speaker}:`, error);
+      }
+    }
+
+    const wavFiles = closed.map((speaker) => `${speaker}.wav`);
+
+    if (this.config.normalizeLoudness !== false) {
+      for (const speaker of closed) {
+        if (await this.normalizeTrack(speaker)) {
+          wavFiles.push(`${speaker}.normalized.wav`);
+          files.push(`${speaker}.normalized.wav`);
+        }
+      }
+    }
+
+    if (await this.writeProgramMix(closed)) {
+      wavFiles.push("program.wav");
+      files.push("program.wav");
     }
 
-    // Write VTT caption files
+    // Transcode if other formats were requested
+    if (this.config.formats?.includes("opus")) {
+      for (const wav of wavFiles) {
+        const opus = await this.encodeOpus(wav);
+        if (opus) files.push(opus);
+      }
+    }
+
+    // Write VTT and SRT caption files
     for (const [speaker, entries] of this.vttEntries) {
+      entries.sort((a, b) => a.startTime - b.startTime);
+
       const vttContent = this.generateVtt(entries);
       const vttPath = join(this.outputDir, `${speaker}.vtt`);
       await fs.writeFile(vttPath, vttContent, "utf-8");
       files.push(`${speaker}.vtt`);
-      console.info(`[recorder] wrote VTT for ${speaker}`);
+
+      await fs.writeFile(join(this.outputDir, `${speaker}.srt`), this.generateSrt(entries), "utf-8");
+      files.push(`${speaker}.srt`);
+      console.info(`[recorder] wrote captions for ${speaker}`);
     }
 
+    await fs.writeFile(join(this.outputDir, "words.json"), this.generateWordTranscript(), "utf-8");
+    files.push("words.json");
+
     // Write session metadata
-    await this.writeSessionMetadata();
+    await this.writeSessionMetadata(endTime);
     files.push("session.yml");
 
     console.info(`[recorder] stopped, files: ${files.join(", ")}`);
     return files;
   }
 
+  private async normalizeTrack(speaker: SpeakerId): Promise<boolean> {
+    try {
+      const result = await normalizeLoudness(
+        join(this.outputDir, `${speaker}.wav`),
+        join(this.outputDir, `${speaker}.normalized.wav`),
+        { targetLufs: this.config.targetLufs, truePeakDbtp: this.config.truePeakDbtp }
+      );
+      this.loudness.set(speaker, result);
+
+      if (!result.output) {
+        console.info(`[recorder] ${speaker} track is silent, skipping loudness normalization`);
+        return false;
+      }
+      console.info(
+        `[recorder] normalized ${speaker} track from ${result.input.integratedLufs?.toFixed(1)} LUFS (${result.gainDb?.toFixed(1)} dB)`
+      );
+      return true;
+    } catch (error) {
+      console.error(`[recorder] failed to normalize loudness for ${speaker}:`, error);
+      return false;
+    }
+  }
+
+  private async writeProgramMix(speakers: SpeakerId[]): Promise<boolean> {
+    if (speakers.length === 0) return false;
+
+    try {
+      this.program = await mixdown({
+        // Mix from the normalized tracks where there are some, so the speakers sit at the same level
+        tracks: speakers.map((speaker) => ({
+          path: join(
+            this.outputDir,
+            this.loudness.get(speaker)?.output ? `${speaker}.normalized.wav` : `${speaker}.wav`
+          ),
+          ducked: speaker !== "you" && speaker !== "remote",
+        })),
+        outputPath: join(this.outputDir, "program.wav"),
+        format: DEFAULT_BUS_FORMAT,
+        duckingIntervals: this.duckingIntervals,
+        duckingGain: this.config.duckingGain,
+      });
+      console.info(`[recorder] mixed program track (${speakers.join(", ")})`);
+      return true;
+    } catch (error) {
+      console.error("[recorder] failed to mix program track:", error);
+      return false;
+    }
+  }
+
+  private async encodeOpus(wav: string): Promise<string | undefined> {
+    const filename = wav.replace(/\.wav$/, ".opus");
+    const args = [
+      "-y",
+      "-loglevel", "error",
+      "-i", join(this.outputDir, wav),
+      "-c:a", "libopus",
+      "-b:a", this.config.opusBitrate ?? "96k",
+      join(this.outputDir, filename),
+    ];
+
+    try {
+      await execFileAsync(this.config.ffmpegPath ?? "ffmpeg", args, { timeout: 120_000 });
+      console.info(`[recorder] encoded Ogg/Opus for ${wav}`);
+      return filename;
+    } catch (error) {
+      console.warn(`[recorder] could not encode Ogg/Opus for ${wav}, keeping WAV only:`, error);
+      return undefined;
+    }
+  }
+
   private generateVtt(entries: VttEntry[]): string {
     let vtt = "WEBVTT\n\n";
     
@@ -122,22 +472,64 @@ export class RecorderService {
     return vtt;
   }
 
-  private formatTime(ms: number): string {
+  private generateSrt(entries: VttEntry[]): string {
+    return entries
+      .map(
+        (entry, i) =>
+          `${i + 1}\n${this.formatTime(entry.startTime, ",")} --> ${this.formatTime(entry.endTime, ",")}\n${entry.text}\n`
+      )
+      .join("\n");
+  }
+
+  /** Every caption of every speaker in speaking order, with word timings where known */
+  private generateWordTranscript(): string {
+    const segments = Array.from(this.vttEntries)
+      .flatMap(([speaker, entries]) =>
+        entries.map((entry) => ({
+          speaker,
+          start: Math.round(entry.startTime),
+          end: Math.round(entry.endTime),
+          text: entry.text,
+          timed: entry.timed,
+          words: (entry.words ?? []).map((word) => ({
+            ...word,
+            start: Math.round(word.start),
+            end: Math.round(word.end),
+          })),
+        }))
+      )
+      .sort((a, b) => a.start - b.start);
+
+    return JSON.stringify({ episodeId: this.config.episodeId, unit: "ms", segments }, null, 2);
+  }
+
+  private formatTime(time: number, separator = "."): string {
+    const ms = Math.max(0, Math.round(time));
     const totalSeconds = Math.floor(ms / 1000);
     const hours = Math.floor(totalSeconds / 3600);
     const minutes = Math.floor((totalSeconds % 3600) / 60);
     const seconds = totalSeconds % 60;
     const milliseconds = ms % 1000;
 
-    return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}.${String(milliseconds).padStart(3, "0")}`;
+    return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}${separator}${String(milliseconds).padStart(3, "0")}`;
   }
 
-  private async writeSessionMetadata(): Promise<void> {
+  private async writeSessionMetadata(endTime: number): Promise<void> {
     const metadata = {
       episodeId: this.config.episodeId,
-      recordingStartTime: new Date(this.recordingStartTime).toISOString(),
-      recordingEndTime: new Date().toISOString(),
-      duration: Date.now() - this.recordingStartTime,
+      recordingStartTime: new Date(this.startedAt).toISOString(),
+      recordingEndTime: new Date(endTime).toISOString(),
+      duration: endTime - this.recordingStartTime,
+      pausedMs: this.pausedMs,
+      tracks: this.describeTracks(),
+      program: this.program
+        ? {
+            file: "program.wav",
+            durationMs: this.program.durationMs,
+            limiterMaxReductionDb: this.program.maxReductionDb,
+            duckedMs: this.duckingIntervals.reduce((total, interval) => total + interval.end - interval.start, 0),
+          }
+        : null,
       models: {
         claude: process.env.CLAUDE_MODEL || "claude-3-5-haiku-20241022",
         guest: process.env.GUEST_MODEL || "unknown",
@@ -155,6 +547,45 @@ export class RecorderService {
     await fs.writeFile(yamlPath, yamlContent, "utf-8");
   }
 
+  private describeTracks(): Record<string, Record<string, unknown>> {
+    const tracks: Record<string, Record<string, unknown>> = {};
+
+    for (const [speaker, track] of this.audioTracks) {
+      const { format } = track.writer;
+      tracks[speaker] = {
+        file: `${speaker}.wav`,
+        sampleRate: format.sampleRate,
+        channels: format.channels,
+        bitDepth: format.bitDepth,
+        durationMs: this.framesToMs(track.writer.bytesWritten / bytesPerFrame(format), format),
+        startOffsetMs: track.startOffsetMs ?? 0,
+        paddingMs: this.framesToMs(track.paddingFrames, format),
+      };
+
+      const loudness = this.loudness.get(speaker);
+      if (loudness) {
+        tracks[speaker].loudness = {
+          integratedLufs: roundDb(loudness.input.integratedLufs),
+          truePeakDbtp: roundDb(loudness.input.truePeakDbtp),
+          normalized: loudness.output
+            ? {
+                file: `${speaker}.normalized.wav`,
+                gainDb: roundDb(loudness.gainDb ?? null),
+                integratedLufs: roundDb(loudness.output.integratedLufs),
+                truePeakDbtp: roundDb(loudness.output.truePeakDbtp),
+              }
+            : null,
+        };
+      }
+    }
+
+    return tracks;
+  }
+
+  private framesToMs(frames: number, format: AudioFormat): number {
+    return Math.round((frames / format.sampleRate) * 1000);
+  }
+
   private objectToYaml(obj: any, indent = 0): string {
     let yaml = "";
     const spaces = "  ".repeat(indent);
@@ -182,3 +613,7 @@ export class RecorderService {
     return this.outputDir;
   }
 }
+
+function roundDb(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
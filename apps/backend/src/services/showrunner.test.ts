@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+import { Showrunner, DEFAULT_SEGMENTS, type ShowSegment } from "./showrunner";
+
+function createClock(start = 0) {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+const SEGMENTS: ShowSegment[] = [
+  { id: "cold-open", title: "Cold open", share: 0.1, speakers: ["claude"], maxTurns: 1, direction: "Open on {topic}" },
+  { id: "cross-exam", title: "Cross-exam", share: 0.8, speakers: ["claude", "guest"], direction: "Argue" },
+  { id: "outro", title: "Outro", share: 0.1, speakers: ["claude"], maxTurns: 1, direction: "Wrap up" },
+];
+
+describe("Showrunner", () => {
+  it("should default to the full run-of-show", () => {
+    const ids = DEFAULT_SEGMENTS.map((segment) => segment.id);
+    const totalShare = DEFAULT_SEGMENTS.reduce((sum, segment) => sum + segment.share, 0);
+
+    expect(ids).toEqual(["cold-open", "guest-stance", "cross-exam", "steelman-swap", "verdict", "outro"]);
+    expect(totalShare).toBeCloseTo(1);
+  });
+
+  it("should announce the first segment on start", () => {
+    const clock = createClock(1_000);
+    const onSegmentChange = vi.fn();
+    const showrunner = new Showrunner({ segments: SEGMENTS, targetDuration: 100, now: clock.now, onSegmentChange });
+
+    showrunner.start();
+
+    expect(showrunner.isRunning()).toBe(true);
+    expect(onSegmentChange).toHaveBeenCalledWith({
+      id: "cold-open",
+      title: "Cold open",
+      index: 0,
+      total: 3,
+      startedAt: 1_000,
+      endsAt: 11_000,
+    });
+  });
+
+  it("should fill in the briefing topic", () => {
+    const showrunner = new Showrunner({ segments: SEGMENTS, topic: "open-source AI" });
+    showrunner.start();
+
+    expect(showrunner.nextCue()?.direction).toBe("Open on open-source AI");
+  });
+
+  it("should move on once a segment's turn cap is used up", () => {
+    const clock = createClock();
+    const showrunner = new Showrunner({ segments: SEGMENTS, targetDuration: 100, now: clock.now });
+    showrunner.start();
+
+    expect(showrunner.nextCue()?.segment.id).toBe("cold-open");
+
+    const cue = showrunner.nextCue();
+    expect(cue?.segment.id).toBe("cross-exam");
+    expect(cue?.speaker).toBe("claude");
+  });
+
+  it("should rotate speakers until the segment's time is up", () => {
+    const clock = createClock();
+    const showrunner = new Showrunner({ segments: SEGMENTS, targetDuration: 100, now: clock.now });
+    showrunner.start();
+    showrunner.nextCue();
+
+    const speakers = [showrunner.nextCue(), showrunner.nextCue(), showrunner.nextCue()].map((cue) => cue?.speaker);
+    expect(speakers).toEqual(["claude", "guest", "claude"]);
+
+    // Cross-exam is due to end 90 s into a 100 s show
+    clock.advance(90_000);
+    expect(showrunner.nextCue()?.segment.id).toBe("outro");
+  });
+
+  it("should give a late segment at least one turn", () => {
+    const clock = createClock();
+    const showrunner = new Showrunner({ segments: SEGMENTS, targetDuration: 100, now: clock.now });
+    showrunner.start();
+    showrunner.nextCue();
+
+    clock.advance(95_000);
+
+    expect(showrunner.nextCue()?.segment.id).toBe("cross-exam");
+    expect(showrunner.nextCue()?.segment.id).toBe("outro");
+  });
+
+  it("should finish after the last segment", () => {
+    const onComplete = vi.fn();
+    const showrunner = new Showrunner({
+      segments: [SEGMENTS[0]],
+      onComplete,
+    });
+    showrunner.start();
+
+    expect(showrunner.nextCue()).toBeDefined();
+    expect(showrunner.nextCue()).toBeUndefined();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(showrunner.isRunning()).toBe(false);
+  });
+
+  it("should hand out no cues once stopped", () => {
+    const showrunner = new Showrunner({ segments: SEGMENTS });
+    showrunner.start();
+    showrunner.stop();
+
+    expect(showrunner.current()).toBeUndefined();
+    expect(showrunner.nextCue()).toBeUndefined();
+  });
+});
@@ -0,0 +1,202 @@
+import type { ShowSegmentId, ShowSegmentPayload } from "@basil/shared";
+import type { AgentSpeaker } from "./turn-engine.js";
+
+export interface ShowSegment {
+  id: ShowSegmentId;
+  title: string;
+  /** Fraction of the episode's target duration allotted to this segment */
+  share: number;
+  /** Agents cued in rotation while the segment runs */
+  speakers: AgentSpeaker[];
+  /** Cap on agent turns; segments without one run until their time is up */
+  maxTurns?: number;
+  /** Producer note for the cued agent; `{topic}` is replaced with the briefing topic */
+  direction: string;
+}
+
+export interface ShowrunnerCue {
+  speaker: AgentSpeaker;
+  direction: string;
+  segment: ShowSegmentPayload;
+}
+
+export interface ShowrunnerOptions {
+  segments?: ShowSegment[];
+  /** Target episode length in seconds, as given by the briefing */
+  targetDuration?: number;
+  topic?: string;
+  now?: () => number;
+  onSegmentChange?: (segment: ShowSegmentPayload) => void;
+  onComplete?: () => void;
+}
+
+const DEFAULT_TARGET_DURATION_SEC = 1200;
+
+export const DEFAULT_SEGMENTS: ShowSegment[] = [
+  {
+    id: "cold-open",
+    title: "Cold open",
+    share: 0.05,
+    speakers: ["claude"],
+    maxTurns: 1,
+    direction:
+      "Open the show with a cold open on {topic}: a hook or a provocative question in two or three sentences. Skip the introductions.",
+  },
+  {
+    id: "guest-stance",
+    title: "Guest stance",
+    share: 0.15,
+    speakers: ["guest"],
+    maxTurns: 1,
+    direction: "Lay out your stance on {topic} and the two or three strongest arguments for it.",
+  },
+  {
+    id: "cross-exam",
+    title: "Cross-exam",
+    share: 0.35,
+    speakers: ["claude", "guest"],
+    direction:
+      "Cross-examination. Answer the question just put to you directly, then press the other AI on the weakest point of their position with one pointed question.",
+  },
+  {
+    id: "steelman-swap",
+    title: "Steelman swap",
+    share: 0.2,
+    speakers: ["claude", "guest"],
+    maxTurns: 2,
+    direction:
+      "Steelman swap. Argue the other side's position on {topic} as persuasively as you can, as if you held it yourself.",
+  },
+  {
+    id: "verdict",
+    title: "Verdict",
+    share: 0.15,
+    speakers: ["guest", "claude"],
+    maxTurns: 2,
+    direction:
+      "Verdict. Say where you have landed on {topic}, what (if anything) changed your mind, and what is still unresolved.",
+  },
+  {
+    id: "outro",
+    title: "Outro",
+    share: 0.1,
+    speakers: ["claude"],
+    maxTurns: 1,
+    direction: "Close the show. Sum up the key takeaway in a sentence or two, thank Basil and the guest, and sign off.",
+  },
+];
+
+/**
+ * Autopilot run-of-show.
+ *
+ * Walks through the segments in order and, each time the floor is free, hands
+ * out a cue naming the next agent to speak and the direction for its turn.
+ * Segment deadlines are laid out from the start of the show in proportion to
+ * `share`, so time saved by short segments carries over to later ones. A
+ * segment ends once it has had at least one turn and either its deadline has
+ * passed or its turn cap is used up. stop() abandons the show; start() always
+ * begins again from the first segment.
+ */
+export class Showrunner {
+  private readonly segments: ShowSegment[];
+  private readonly targetDurationMs: number;
+  private readonly topic: string;
+  private readonly now: () => number;
+  private readonly options: ShowrunnerOptions;
+  private index = -1;
+  private turns = 0;
+  private showStartedAt = 0;
+  private segmentStartedAt = 0;
+
+  constructor(options: ShowrunnerOptions = {}) {
+    this.options = options;
+    this.segments = options.segments ?? DEFAULT_SEGMENTS;
+    this.targetDurationMs = (options.targetDuration || DEFAULT_TARGET_DURATION_SEC) * 1000;
+    this.topic = options.topic?.trim() || "today's topic";
+    this.now = options.now ?? Date.now;
+  }
+
+  isRunning(): boolean {
+    return this.index >= 0;
+  }
+
+  start(): void {
+    if (this.segments.length === 0) return;
+
+    this.showStartedAt = this.now();
+    this.enter(0);
+  }
+
+  stop(): void {
+    this.index = -1;
+    this.turns = 0;
+  }
+
+  current(): ShowSegmentPayload | undefined {
+    if (!this.isRunning()) return undefined;
+    return this.describe(this.index);
+  }
+
+  /**
+   * Picks who speaks next, advancing to the next segment when the current one
+   * is over. Returns undefined once the show has finished.
+   */
+  nextCue(): ShowrunnerCue | undefined {
+    if (!this.isRunning()) return undefined;
+
+    if (this.isSegmentOver()) {
+      if (this.index + 1 >= this.segments.length) {
+        this.stop();
+        this.options.onComplete?.();
+        return undefined;
+      }
+      this.enter(this.index + 1);
+    }
+
+    const segment = this.segments[this.index];
+    const speaker = segment.speakers[this.turns % segment.speakers.length];
+    this.turns += 1;
+
+    return {
+      speaker,
+      direction: segment.direction.replace(/\{topic\}/g, this.topic),
+      segment: this.describe(this.index),
+    };
+  }
+
+  private isSegmentOver(): boolean {
+    if (this.turns === 0) return false;
+
+    const segment = this.segments[this.index];
+    if (segment.maxTurns !== undefined && this.turns >= segment.maxTurns) return true;
+
+    return this.now() >= this.deadline(this.index);
+  }
+
+  private enter(index: number): void {
+    this.index = index;
+    this.turns = 0;
+    this.segmentStartedAt = this.now();
+    this.options.onSegmentChange?.(this.describe(index));
+  }
+
+  private deadline(index: number): number {
+    let share = 0;
+    for (let i = 0; i <= index; i++) {
+      share += this.segments[i].share;
+    }
+    return this.showStartedAt + Math.round(share * this.targetDurationMs);
+  }
+
+  private describe(index: number): ShowSegmentPayload {
+    const segment = this.segments[index];
+    return {
+      id: segment.id,
+      title: segment.title,
+      index,
+      total: this.segments.length,
+      startedAt: this.segmentStartedAt,
+      endsAt: Math.max(this.segmentStartedAt, this.deadline(index)),
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from "vitest";
+import { SpeechQueue } from "./speech-queue";
+import type { TtsAdapter } from "../adapters/interfaces";
+
+function createTts(delayMs = 0) {
+  const spoken: string[] = [];
+  const tts: TtsAdapter = {
+    synthesize: vi.fn(async (_sessionId: string, text: string) => {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      spoken.push(text);
+    }),
+    stop: vi.fn().mockResolvedValue(undefined),
+  };
+  return { tts, spoken };
+}
+
+describe("SpeechQueue", () => {
+  it("should synthesize segments in order, one at a time", async () => {
+    const { tts, spoken } = createTts(5);
+    const queue = new SpeechQueue("session-1", tts);
+
+    queue.enqueue("First.");
+    queue.enqueue("Second.");
+    expect(tts.synthesize).toHaveBeenCalledTimes(1);
+
+    queue.close();
+    await queue.drained();
+
+    expect(spoken).toEqual(["First.", "Second."]);
+  });
+
+  it("should bracket each segment with the hooks", async () => {
+    const { tts } = createTts();
+    const events: string[] = [];
+    const queue = new SpeechQueue("session-1", tts, {
+      onSegmentStart: (text) => events.push(`start ${text}`),
+      onSegmentEnd: (text) => events.push(`end ${text}`),
+    });
+
+    queue.enqueue("First.");
+    queue.enqueue("Second.");
+    queue.close();
+    await queue.drained();
+
+    expect(events).toEqual(["start First.", "end First.", "start Second.", "end Second."]);
+  });
+
+  it("should report pending speech until closed and drained", async () => {
+    const { tts } = createTts();
+    const queue = new SpeechQueue("session-1", tts);
+
+    expect(queue.hasPendingSpeech()).toBe(true);
+
+    queue.enqueue("Only sentence.");
+    queue.close();
+    await queue.drained();
+
+    expect(queue.hasPendingSpeech()).toBe(false);
+  });
+
+  it("should drop queued segments and stop TTS on cancel", async () => {
+    const { tts, spoken } = createTts(10);
+    const queue = new SpeechQueue("session-1", tts);
+
+    queue.enqueue("First.");
+    queue.enqueue("Second.");
+    queue.enqueue("Third.");
+    await queue.cancel();
+    await queue.drained();
+
+    expect(tts.stop).toHaveBeenCalledWith("session-1");
+    expect(spoken).toEqual(["First."]);
+    expect(queue.hasPendingSpeech()).toBe(false);
+  });
+
+  it("should ignore segments enqueued after close", async () => {
+    const { tts } = createTts();
+    const queue = new SpeechQueue("session-1", tts);
+
+    queue.close();
+    queue.enqueue("Too late.");
+    await queue.drained();
+
+    expect(tts.synthesize).not.toHaveBeenCalled();
+  });
+});
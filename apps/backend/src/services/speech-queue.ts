@@ -0,0 +1,84 @@
+import type { TtsAdapter } from "../adapters/interfaces.js";
+
+export interface SpeechQueueHooks {
+  /** A segment is about to be synthesized */
+  onSegmentStart?: (text: string) => void;
+  /** Its synthesis finished, failed or was cut off */
+  onSegmentEnd?: (text: string) => void;
+}
+
+/**
+ * Feeds text segments to a speaker's TTS adapter one at a time.
+ *
+ * Segments may be enqueued while earlier ones are still being synthesized.
+ * close() marks the end of the utterance; drained() resolves once everything
+ * queued has been spoken. cancel() drops whatever has not started yet and
+ * stops the adapter, which is how barge-in cuts an agent off mid-reply.
+ */
+export class SpeechQueue {
+  private pending: string[] = [];
+  private closed = false;
+  private cancelled = false;
+  private running?: Promise<void>;
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly tts?: TtsAdapter,
+    private readonly hooks: SpeechQueueHooks = {}
+  ) {}
+
+  enqueue(text: string): void {
+    if (this.closed || this.cancelled) return;
+
+    this.pending.push(text);
+    this.pump();
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  /**
+   * True while more audio is expected for this utterance, either because
+   * segments are still queued or because the text stream is still open.
+   */
+  hasPendingSpeech(): boolean {
+    return !this.cancelled && (!this.closed || this.pending.length > 0);
+  }
+
+  async drained(): Promise<void> {
+    while (this.running) {
+      await this.running;
+    }
+  }
+
+  async cancel(): Promise<void> {
+    this.cancelled = true;
+    this.pending = [];
+
+    try {
+      await this.tts?.stop(this.sessionId);
+    } catch (error) {
+      console.warn(`[speech-queue] failed to stop TTS for ${this.sessionId}`, error);
+    }
+  }
+
+  private pump(): void {
+    if (this.running) return;
+
+    this.running = (async () => {
+      while (this.pending.length > 0 && !this.cancelled) {
+        const segment = this.pending.shift()!;
+        this.hooks.onSegmentStart?.(segment);
+        try {
+          await this.tts?.synthesize(this.sessionId, segment);
+        } catch (error) {
+          console.error(`[speech-queue] synthesis failed for ${this.sessionId}:`, error);
+        } finally {
+          this.hooks.onSegmentEnd?.(segment);
+        }
+      }
+      this.running = undefined;
+    })();
+  }
+}
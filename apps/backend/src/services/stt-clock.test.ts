@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { SttClock } from "./stt-clock";
+import type { AudioFormat } from "./audio-format";
+
+// 1 kHz mono keeps the byte counts readable: 2 bytes per millisecond
+const FORMAT: AudioFormat = { sampleRate: 1_000, channels: 1, bitDepth: 16 };
+
+describe("SttClock", () => {
+  it("should return undefined before any audio is streamed", () => {
+    expect(new SttClock(FORMAT).toWallTime(0)).toBeUndefined();
+  });
+
+  it("should map contiguous audio onto the capture time", () => {
+    const clock = new SttClock(FORMAT);
+    clock.append(200, 10_100);
+    clock.append(200, 10_200);
+
+    expect(clock.toWallTime(0)).toBe(10_000);
+    expect(clock.toWallTime(150)).toBe(10_150);
+  });
+
+  it("should skip the silence that was never streamed", () => {
+    const clock = new SttClock(FORMAT);
+    clock.append(1_000, 10_500); // 500 ms of speech
+    clock.append(1_000, 15_500); // next utterance, 4.5 s later
+
+    expect(clock.toWallTime(250)).toBe(10_250);
+    expect(clock.toWallTime(500)).toBe(15_000);
+    expect(clock.toWallTime(750)).toBe(15_250);
+  });
+
+  it("should tolerate jitter in chunk arrival", () => {
+    const clock = new SttClock(FORMAT);
+    clock.append(200, 10_100);
+    clock.append(200, 10_230);
+
+    expect(clock.toWallTime(150)).toBe(10_150);
+  });
+
+  it("should extrapolate past the end of the streamed audio", () => {
+    const clock = new SttClock(FORMAT);
+    clock.append(200, 10_100);
+
+    expect(clock.toWallTime(300)).toBe(10_300);
+  });
+});
@@ -0,0 +1,53 @@
+import { bytesPerFrame, DEFAULT_BUS_FORMAT, type AudioFormat } from "./audio-format.js";
+
+interface ClockSegment {
+  /** Position in the STT stream, in milliseconds */
+  streamStart: number;
+  /** Wall-clock time the audio at streamStart was captured */
+  wallStart: number;
+  duration: number;
+}
+
+// Chunks captured within this much of the previous one's end continue its segment
+const CONTIGUOUS_TOLERANCE_MS = 100;
+
+/**
+ * Maps positions in the audio streamed to STT back to wall-clock time.
+ *
+ * Only voiced audio (plus a short pre-roll) is sent to the STT provider, so
+ * its timestamps count milliseconds of streamed audio, not time since the
+ * session started. Every chunk sent is recorded with its arrival time; gaps
+ * where audio was held back start a new segment.
+ */
+export class SttClock {
+  private readonly segments: ClockSegment[] = [];
+  private position = 0;
+
+  constructor(private readonly format: AudioFormat = DEFAULT_BUS_FORMAT) {}
+
+  /** Records `bytes` of PCM sent to STT that finished arriving at `receivedAt`. */
+  append(bytes: number, receivedAt: number): void {
+    const duration = (bytes / bytesPerFrame(this.format) / this.format.sampleRate) * 1000;
+    const capturedAt = receivedAt - duration;
+    const last = this.segments[this.segments.length - 1];
+
+    if (last && Math.abs(last.wallStart + last.duration - capturedAt) <= CONTIGUOUS_TOLERANCE_MS) {
+      last.duration += duration;
+    } else {
+      this.segments.push({ streamStart: this.position, wallStart: capturedAt, duration });
+    }
+
+    this.position += duration;
+  }
+
+  /** Wall-clock time of a stream position, or undefined if nothing was streamed yet. */
+  toWallTime(streamMs: number): number | undefined {
+    for (let i = this.segments.length - 1; i >= 0; i--) {
+      const segment = this.segments[i];
+      if (segment.streamStart <= streamMs || i === 0) {
+        return Math.round(segment.wallStart + streamMs - segment.streamStart);
+      }
+    }
+    return undefined;
+  }
+}
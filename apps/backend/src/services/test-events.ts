@@ -0,0 +1,14 @@
+import type { LogEvent } from "./event-logger.js";
+
+/** When the synthetic event logs built by the tests begin */
+export const T0 = 1_700_000_000_000;
+
+type Fields<E> = E extends LogEvent ? Omit<E, "timestamp" | "sessionId"> : never;
+
+/** One LogEvent variant without the fields logEvent() fills in */
+export type LogEventFields = Fields<LogEvent>;
+
+/** A logged event `offset` ms after T0, as EventLogger writes it to events.jsonl */
+export function logEvent(offset: number, fields: LogEventFields, sessionId = "s1"): LogEvent {
+  return { ...fields, sessionId, timestamp: T0 + offset } as LogEvent;
+}
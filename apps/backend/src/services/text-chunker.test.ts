@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { TextChunker } from "./text-chunker";
+
+describe("TextChunker", () => {
+  it("should emit a segment once a sentence boundary arrives", () => {
+    const chunker = new TextChunker();
+
+    expect(chunker.push("That's a great")).toEqual([]);
+    expect(chunker.push(" question. And")).toEqual(["That's a great question."]);
+    expect(chunker.flush()).toBe("And");
+  });
+
+  it("should emit several sentences from one push", () => {
+    const chunker = new TextChunker({ minChars: 1 });
+
+    expect(chunker.push("Yes. I agree! Why not? ")).toEqual(["Yes.", "I agree!", "Why not?"]);
+  });
+
+  it("should hold short sentences until they reach the minimum length", () => {
+    const chunker = new TextChunker({ minChars: 12 });
+
+    expect(chunker.push("Sure. ")).toEqual([]);
+    expect(chunker.push("Let me explain. ")).toEqual(["Sure. Let me explain."]);
+  });
+
+  it("should not split on decimals", () => {
+    const chunker = new TextChunker({ minChars: 1 });
+
+    expect(chunker.push("Version 3.5 shipped")).toEqual([]);
+    expect(chunker.flush()).toBe("Version 3.5 shipped");
+  });
+
+  it("should cut run-on text at a clause boundary", () => {
+    const chunker = new TextChunker({ minChars: 5, maxChars: 40 });
+
+    const segments = chunker.push("When you consider the tradeoffs, latency matters more than anything");
+
+    expect(segments).toEqual(["When you consider the tradeoffs,"]);
+  });
+
+  it("should fall back to a word break when there is no clause boundary", () => {
+    const chunker = new TextChunker({ minChars: 5, maxChars: 20 });
+
+    const segments = chunker.push("one two three four five six");
+
+    expect(segments[0]).toBe("one two three four");
+  });
+
+  it("should return undefined when flushing an empty buffer", () => {
+    const chunker = new TextChunker();
+    chunker.push("   ");
+
+    expect(chunker.flush()).toBeUndefined();
+  });
+});
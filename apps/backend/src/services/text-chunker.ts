@@ -0,0 +1,85 @@
+export interface TextChunkerOptions {
+  minChars?: number;
+  maxChars?: number;
+}
+
+const SENTENCE_BOUNDARY = /[.!?…]+["')\]]*\s+/g;
+const CLAUSE_BOUNDARY = /[,;:—–]\s+/g;
+
+/**
+ * Splits streamed LLM tokens into speakable segments.
+ *
+ * A segment is emitted as soon as a sentence boundary appears past `minChars`.
+ * Run-on text longer than `maxChars` is cut at the last clause boundary (or
+ * word break) so TTS never waits on an unbounded sentence. Call flush() once
+ * the stream ends to collect the remainder.
+ */
+export class TextChunker {
+  private readonly minChars: number;
+  private readonly maxChars: number;
+  private buffer = "";
+
+  constructor(options: TextChunkerOptions = {}) {
+    this.minChars = options.minChars ?? 12;
+    this.maxChars = options.maxChars ?? 160;
+  }
+
+  push(text: string): string[] {
+    this.buffer += text;
+
+    const segments: string[] = [];
+    let segment = this.nextSegment();
+    while (segment !== undefined) {
+      segments.push(segment);
+      segment = this.nextSegment();
+    }
+
+    return segments;
+  }
+
+  flush(): string | undefined {
+    const rest = this.buffer.trim();
+    this.buffer = "";
+    return rest || undefined;
+  }
+
+  reset(): void {
+    this.buffer = "";
+  }
+
+  private nextSegment(): string | undefined {
+    const cut = this.findSentenceCut() ?? this.findOverflowCut();
+    if (cut === undefined) return undefined;
+
+    const segment = this.buffer.slice(0, cut).trim();
+    this.buffer = this.buffer.slice(cut).trimStart();
+    return segment || undefined;
+  }
+
+  private findSentenceCut(): number | undefined {
+    for (const match of this.buffer.matchAll(SENTENCE_BOUNDARY)) {
+      const end = match.index! + match[0].length;
+      if (end >= this.minChars) return end;
+    }
+    return undefined;
+  }
+
+  private findOverflowCut(): number | undefined {
+    if (this.buffer.length <= this.maxChars) return undefined;
+
+    const window = this.buffer.slice(0, this.maxChars);
+    let cut: number | undefined;
+
+    for (const match of window.matchAll(CLAUSE_BOUNDARY)) {
+      const end = match.index! + match[0].length;
+      if (end >= this.minChars) cut = end;
+    }
+
+    if (cut === undefined) {
+      const space = window.lastIndexOf(" ");
+      cut = space >= this.minChars ? space + 1 : this.maxChars;
+    }
+
+    return cut;
+  }
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { buildTranscript, exportTranscript, renderTranscript } from "./transcript-export";
+import type { LogEvent } from "./event-logger";
+import { logEvent, T0 } from "./test-events";
+
+const EVENTS: LogEvent[] = [
+  logEvent(0, { type: "session.start", episodeId: "ep-1", config: {} }),
+  logEvent(500, { type: "show.segment", segment: "intro", title: "Intro", index: 0, endsAt: T0 + 60_000 }),
+  logEvent(1_000, { type: "vad.speech-start", speaker: "you" }),
+  logEvent(2_500, { type: "vad.speech-end", speaker: "you" }),
+  logEvent(2_900, { type: "stt.final", speaker: "you", text: "Hey Claude, what's new?" }),
+  logEvent(3_000, { type: "llm.start", speaker: "claude" }),
+  logEvent(3_200, { type: "llm.chunk", speaker: "claude", text: "Quite a lot, " }),
+  logEvent(3_600, { type: "tts.chunk", speaker: "claude", audioSize: 960 }),
+  logEvent(3_700, { type: "llm.chunk", speaker: "claude", text: "actually." }),
+  logEvent(3_800, { type: "llm.complete", speaker: "claude", latency: 800 }),
+  logEvent(5_000, { type: "vad.speech-start", speaker: "you" }),
+  logEvent(5_000, { type: "barge-in", interrupter: "you", interrupted: ["claude"] }),
+  logEvent(6_000, { type: "stt.final", speaker: "you", text: "Hold on." }),
+  logEvent(7_000, { type: "mode.thinking", speaker: "guest", duration: 30_000 }),
+  logEvent(37_000, { type: "mode.normal", speaker: "guest" }),
+  logEvent(40_000, { type: "session.end", duration: 40_000 }),
+];
+
+describe("buildTranscript", () => {
+  it("should order utterances by when they were spoken", () => {
+    const transcript = buildTranscript(EVENTS);
+    const utterances = transcript.entries.filter((entry) => entry.type === "utterance");
+
+    expect(transcript.episodeId).toBe("ep-1");
+    expect(transcript.durationMs).toBe(40_000);
+    expect(utterances).toEqual([
+      { type: "utterance", time: 1_000, speaker: "you", text: "Hey Claude, what's new?" },
+      { type: "utterance", time: 3_600, speaker: "claude", text: "Quite a lot, actually.", interrupted: true },
+      { type: "utterance", time: 5_000, speaker: "you", text: "Hold on." },
+    ]);
+  });
+
+  it("should add segment, thinking and barge-in markers", () => {
+    const markers = buildTranscript(EVENTS).entries.filter((entry) => entry.type === "marker");
+
+    expect(markers.map((marker) => [marker.time, marker.kind])).toEqual([
+      [500, "segment"],
+      [5_000, "barge-in"],
+      [7_000, "thinking"],
+      [37_000, "thinking-end"],
+    ]);
+    expect(markers[1].text).toBe("Basil cut in on Claude");
+    expect(markers[2].text).toBe("Guest is thinking (30s)");
+  });
+
+  it("should flag a reply that was cut off while still streaming", () => {
+    const transcript = buildTranscript([
+      logEvent(0, { type: "session.start", episodeId: "ep-1", config: {} }),
+      logEvent(100, { type: "llm.start", speaker: "guest" }),
+      logEvent(200, { type: "llm.chunk", speaker: "guest", text: "Well, I" }),
+      logEvent(300, { type: "barge-in", interrupter: "you", interrupted: ["guest"] }),
+      logEvent(400, { type: "llm.complete", speaker: "guest", latency: 300 }),
+    ]);
+
+    expect(transcript.entries[0]).toMatchObject({ speaker: "guest", time: 100, interrupted: true });
+  });
+
+  it("should keep a cancelled reply, which logs no llm.complete", () => {
+    const transcript = buildTranscript([
+      logEvent(0, { type: "session.start", episodeId: "ep-1", config: {} }),
+      logEvent(100, { type: "llm.start", speaker: "claude" }),
+      logEvent(200, { type: "llm.chunk", speaker: "claude", text: "So the thing" }),
+      logEvent(300, { type: "barge-in", interrupter: "you", interrupted: ["claude"] }),
+      logEvent(1_000, { type: "llm.start", speaker: "claude" }),
+      logEvent(1_100, { type: "llm.chunk", speaker: "claude", text: "As I was saying" }),
+    ]);
+
+    expect(transcript.entries.filter((entry) => entry.type === "utterance")).toEqual([
+      { type: "utterance", time: 100, speaker: "claude", text: "So the thing", interrupted: true },
+      { type: "utterance", time: 1_000, speaker: "claude", text: "As I was saying" },
+    ]);
+  });
+
+  it("should place each human's lines at their own speech start", () => {
+    const transcript = buildTranscript([
+      logEvent(0, { type: "session.start", episodeId: "ep-1", config: {} }),
+      logEvent(1_000, { type: "vad.speech-start", speaker: "you" }),
+      logEvent(1_500, { type: "vad.speech-start", speaker: "remote" }),
+      logEvent(2_000, { type: "stt.final", speaker: "remote", text: "Can I add something?" }),
+      logEvent(2_200, { type: "stt.final", speaker: "you", text: "Go ahead." }),
+    ]);
+
+    expect(transcript.entries).toEqual([
+      { type: "utterance", time: 1_000, speaker: "you", text: "Go ahead." },
+      { type: "utterance", time: 1_500, speaker: "remote", text: "Can I add something?" },
+    ]);
+    expect(transcript.speakers.remote).toBe("Remote Guest");
+  });
+
+  it("should leave out what was said before the episode started and while it was paused", () => {
+    const transcript = buildTranscript([
+      logEvent(0, { type: "session.start", episodeId: "ep-1", config: {} }),
+      logEvent(1_000, { type: "stt.final", speaker: "you", text: "Testing, one two." }),
+      logEvent(5_000, { type: "episode.start", title: "Pilot" }),
+      logEvent(6_000, { type: "stt.final", speaker: "you", text: "Welcome to the show." }),
+      logEvent(8_000, { type: "episode.pause" }),
+      logEvent(9_000, { type: "stt.final", speaker: "you", text: "Can we cut that?" }),
+      logEvent(20_000, { type: "episode.resume" }),
+      logEvent(21_000, { type: "stt.final", speaker: "you", text: "And we're back." }),
+      logEvent(25_000, { type: "episode.stop" }),
+      logEvent(26_000, { type: "stt.final", speaker: "you", text: "That's a wrap." }),
+    ]);
+
+    expect(transcript.startedAt).toBe(new Date(T0 + 5_000).toISOString());
+    expect(transcript.durationMs).toBe(8_000);
+    expect(transcript.entries).toEqual([
+      { type: "utterance", time: 1_000, speaker: "you", text: "Welcome to the show." },
+      { type: "utterance", time: 4_000, speaker: "you", text: "And we're back." },
+    ]);
+  });
+
+  it("should use custom speaker names", () => {
+    const transcript = buildTranscript(EVENTS, { speakerNames: { you: "Host" } });
+    expect(renderTranscript(transcript, "txt")).toContain("[00:00:01] Host: Hey Claude, what's new?");
+  });
+});
+
+describe("renderTranscript", () => {
+  const transcript = buildTranscript(EVENTS);
+
+  it("should render Markdown with segment headings", () => {
+    const markdown = renderTranscript(transcript, "md");
+
+    expect(markdown).toContain("# ep-1");
+    expect(markdown).toContain("## Intro");
+    expect(markdown).toContain("**[00:00:03] Claude:** Quite a lot, actually. *(interrupted)*");
+    expect(markdown).toContain("> *[00:00:07] Guest is thinking (30s)*");
+  });
+
+  it("should render JSON that round-trips", () => {
+    expect(JSON.parse(renderTranscript(transcript, "json"))).toEqual(transcript);
+  });
+
+  it("should escape text in HTML", () => {
+    const html = renderTranscript(
+      buildTranscript([
+        logEvent(0, { type: "session.start", episodeId: "ep-1", config: {} }),
+        logEvent(100, { type: "stt.final", speaker: "you", text: "Is <b> & \"quoted\" bold?" }),
+      ]),
+      "html"
+    );
+
+    expect(html).toContain("<!DOCTYPE html>");
+    expect(html).toContain("Is &lt;b&gt; &amp; &quot;quoted&quot; bold?");
+  });
+});
+
+describe("exportTranscript", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "transcript-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should write every format next to events.jsonl, skipping torn lines", async () => {
+    const lines = EVENTS.map((logged) => JSON.stringify(logged));
+    await fs.writeFile(join(dir, "events.jsonl"), lines.join("\n") + '\n{"type":"stt', "utf-8");
+
+    const files = await exportTranscript(dir);
+
+    expect(files).toEqual(["transcript.md", "transcript.json", "transcript.html", "transcript.txt"]);
+    const text = await fs.readFile(join(dir, "transcript.txt"), "utf-8");
+    expect(text).toContain("[00:00:05] Basil: Hold on.");
+  });
+});
@@ -0,0 +1,390 @@
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import type { SpeakerId } from "@basil/shared";
+import type { LogEvent } from "./event-logger.js";
+
+export type TranscriptFormat = "md" | "json" | "html" | "txt";
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ["md", "json", "html", "txt"];
+
+export interface TranscriptUtterance {
+  type: "utterance";
+  /** Milliseconds into the recording */
+  time: number;
+  speaker: SpeakerId;
+  text: string;
+  /** The host barged in before the agent finished */
+  interrupted?: boolean;
+}
+
+export interface TranscriptMarker {
+  type: "marker";
+  time: number;
+  kind: "segment" | "thinking" | "thinking-end" | "barge-in";
+  text: string;
+}
+
+export type TranscriptEntry = TranscriptUtterance | TranscriptMarker;
+
+export interface Transcript {
+  episodeId: string;
+  startedAt: string;
+  durationMs: number;
+  speakers: Record<SpeakerId, string>;
+  entries: TranscriptEntry[];
+}
+
+const DEFAULT_SPEAKER_NAMES: Record<SpeakerId, string> = {
+  you: "Basil",
+  remote: "Remote Guest",
+  claude: "Claude",
+  guest: "Guest",
+};
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+};
+
+export function transcriptContentType(format: TranscriptFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+/** Reads an events.jsonl file, skipping lines that are not valid JSON (e.g. a torn last line). */
+export async function readEvents(path: string): Promise<LogEvent[]> {
+  const content = await fs.readFile(path, "utf-8");
+  const events: LogEvent[] = [];
+
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      console.warn(`[transcript] skipping malformed line in ${path}`);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Merges the event log into one time-ordered transcript.
+ *
+ * Host and remote guest lines come from final STT results and are placed at
+ * the VAD speech start of the same speaker that preceded them. Agent lines are the LLM reply streamed between
+ * llm.start and llm.complete, placed where their first TTS audio went out. A
+ * cancelled turn logs no llm.complete; its reply ends at the speaker's next
+ * llm.start or the end of the log.
+ * Show segments, thinking mode and barge-ins become markers.
+ *
+ * When the log has episode lifecycle events, times are positions in the
+ * recording: anything from before the episode started, while it was paused
+ * or after it stopped is left out, as it is from the masters.
+ */
+export function buildTranscript(
+  events: LogEvent[],
+  options: { episodeId?: string; speakerNames?: Partial<Record<SpeakerId, string>> } = {}
+): Transcript {
+  const speakers = { ...DEFAULT_SPEAKER_NAMES, ...options.speakerNames };
+  const sessionStart = events.find((event) => event.type === "session.start");
+  const spans = recordedSpans(events);
+  const origin = spans?.[0]?.start ?? sessionStart?.timestamp ?? events[0]?.timestamp ?? 0;
+  const last = events[events.length - 1];
+
+  /** Position in the recording, or undefined for a moment that was not recorded */
+  const at = (timestamp: number): number | undefined => {
+    if (!spans) return Math.max(0, timestamp - origin);
+
+    let elapsed = 0;
+    for (const span of spans) {
+      if (timestamp < span.start) return undefined;
+      if (timestamp < span.end) return elapsed + timestamp - span.start;
+      elapsed += span.end - span.start;
+    }
+    return undefined;
+  };
+
+  const entries: TranscriptEntry[] = [];
+  const replies = new Map<string, { started: number; spokeAt?: number; text: string; interrupted?: boolean }>();
+  const lastReply = new Map<string, TranscriptUtterance>();
+  const speechStarts = new Map<string, number>();
+
+  const finishReply = (speaker: string) => {
+    const reply = replies.get(speaker);
+    replies.delete(speaker);
+    const text = reply?.text.trim();
+    if (!reply || !text) return;
+
+    const utterance: TranscriptUtterance = {
+      type: "utterance",
+      time: reply.spokeAt ?? reply.started,
+      speaker: speaker as SpeakerId,
+      text,
+      ...(reply.interrupted && { interrupted: true }),
+    };
+    entries.push(utterance);
+    lastReply.set(speaker, utterance);
+  };
+
+  for (const event of events) {
+    switch (event.type) {
+      case "vad.speech-start":
+        if (!speechStarts.has(event.speaker)) speechStarts.set(event.speaker, event.timestamp);
+        break;
+
+      case "stt.final": {
+        const text = event.text.trim();
+        if (!text) break;
+        const start = speechStarts.get(event.speaker) ?? event.timestamp;
+        entries.push({ type: "utterance", time: start, speaker: event.speaker as SpeakerId, text });
+        speechStarts.delete(event.speaker);
+        break;
+      }
+
+      case "llm.start":
+        finishReply(event.speaker);
+        replies.set(event.speaker, { started: event.timestamp, text: "" });
+        break;
+
+      case "llm.chunk": {
+        const reply = replies.get(event.speaker);
+        if (reply) reply.text += event.text ?? "";
+        break;
+      }
+
+      case "tts.chunk": {
+        const reply = replies.get(event.speaker);
+        if (reply) reply.spokeAt ??= event.timestamp;
+        break;
+      }
+
+      case "llm.complete":
+        finishReply(event.speaker);
+        break;
+
+      case "mode.thinking": {
+        const seconds = Math.round((event.duration ?? 0) / 1000);
+        entries.push({
+          type: "marker",
+          time: event.timestamp,
+          kind: "thinking",
+          text: `${speakerName(speakers, event.speaker)} is thinking (${seconds}s)`,
+        });
+        break;
+      }
+
+      case "mode.normal":
+        entries.push({
+          type: "marker",
+          time: event.timestamp,
+          kind: "thinking-end",
+          text: "Back to the conversation",
+        });
+        break;
+
+      case "barge-in": {
+        const interrupted = event.interrupted.map((speaker) => speakerName(speakers, speaker));
+        entries.push({
+          type: "marker",
+          time: event.timestamp,
+          kind: "barge-in",
+          text: `${speakerName(speakers, event.interrupter)} cut in on ${interrupted.join(" and ")}`,
+        });
+
+        // A reply still streaming from the LLM is flagged when it completes;
+        // one that was already written out was cut off during playback
+        for (const speaker of event.interrupted) {
+          const reply = replies.get(speaker);
+          const spoken = lastReply.get(speaker);
+          if (reply) {
+            reply.interrupted = true;
+          } else if (spoken) {
+            spoken.interrupted = true;
+          }
+        }
+        break;
+      }
+
+      case "show.segment":
+        entries.push({ type: "marker", time: event.timestamp, kind: "segment", text: event.title });
+        break;
+    }
+  }
+  for (const speaker of [...replies.keys()]) finishReply(speaker);
+
+  const recorded = entries.flatMap((entry) => {
+    const time = at(entry.time);
+    return time === undefined ? [] : [{ ...entry, time }];
+  });
+  // Array.prototype.sort is stable, so same-time entries keep log order
+  recorded.sort((a, b) => a.time - b.time);
+
+  let durationMs = last ? (at(last.timestamp) ?? 0) : 0;
+  if (spans && last) {
+    durationMs = spans.reduce((total, span) => total + Math.min(span.end, last.timestamp) - span.start, 0);
+  }
+
+  return {
+    episodeId: options.episodeId ?? (sessionStart?.type === "session.start" ? sessionStart.episodeId : "unknown"),
+    startedAt: new Date(origin).toISOString(),
+    durationMs,
+    speakers,
+    entries: recorded,
+  };
+}
+
+/**
+ * The stretches of the log that were recorded, from each episode.start or
+ * episode.resume to the next pause or stop. Undefined for logs without
+ * lifecycle events, which were recorded from the moment the room opened.
+ */
+function recordedSpans(events: LogEvent[]): { start: number; end: number }[] | undefined {
+  if (!events.some((event) => event.type.startsWith("episode."))) return undefined;
+
+  const spans: { start: number; end: number }[] = [];
+  let start: number | undefined;
+  for (const event of events) {
+    switch (event.type) {
+      case "episode.start":
+      case "episode.resume":
+        start ??= event.timestamp;
+        break;
+
+      case "episode.pause":
+      case "episode.stop":
+        if (start !== undefined) spans.push({ start, end: event.timestamp });
+        start = undefined;
+        break;
+    }
+  }
+  if (start !== undefined) spans.push({ start, end: Infinity });
+
+  return spans;
+}
+
+function speakerName(speakers: Record<SpeakerId, string>, speaker: string): string {
+  return speakers[speaker as SpeakerId] ?? speaker;
+}
+
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  switch (format) {
+    case "md":
+      return toMarkdown(transcript);
+    case "json":
+      return JSON.stringify(transcript, null, 2);
+    case "html":
+      return toHtml(transcript);
+    case "txt":
+      return toPlainText(transcript);
+  }
+}
+
+/**
+ * Builds the transcript from an episode's events.jsonl and writes it next to
+ * it in every format. Returns the file names written.
+ */
+export async function exportTranscript(episodeDir: string, episodeId?: string): Promise<string[]> {
+  const transcript = buildTranscript(await readEvents(join(episodeDir, "events.jsonl")), { episodeId });
+  const files: string[] = [];
+
+  for (const format of TRANSCRIPT_FORMATS) {
+    const filename = `transcript.${format}`;
+    await fs.writeFile(join(episodeDir, filename), renderTranscript(transcript, format), "utf-8");
+    files.push(filename);
+  }
+
+  console.info(`[transcript] exported ${transcript.entries.length} entries to ${episodeDir}`);
+  return files;
+}
+
+function toMarkdown(transcript: Transcript): string {
+  const lines = [
+    `# ${transcript.episodeId}`,
+    "",
+    `Recorded ${transcript.startedAt}, ${formatClock(transcript.durationMs)} long.`,
+    "",
+  ];
+
+  for (const entry of transcript.entries) {
+    if (entry.type === "utterance") {
+      const suffix = entry.interrupted ? " *(interrupted)*" : "";
+      lines.push(`**[${formatClock(entry.time)}] ${transcript.speakers[entry.speaker]}:** ${entry.text}${suffix}`, "");
+    } else if (entry.kind === "segment") {
+      lines.push(`## ${entry.text}`, "", `*[${formatClock(entry.time)}]*`, "");
+    } else {
+      lines.push(`> *[${formatClock(entry.time)}] ${entry.text}*`, "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function toPlainText(transcript: Transcript): string {
+  const lines = [`${transcript.episodeId} (${transcript.startedAt})`, ""];
+
+  for (const entry of transcript.entries) {
+    if (entry.type === "utterance") {
+      const suffix = entry.interrupted ? " [interrupted]" : "";
+      lines.push(`[${formatClock(entry.time)}] ${transcript.speakers[entry.speaker]}: ${entry.text}${suffix}`);
+    } else {
+      lines.push(`[${formatClock(entry.time)}] -- ${entry.text} --`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function toHtml(transcript: Transcript): string {
+  const body = transcript.entries.map((entry) => {
+    const time = `<span class="time">${formatClock(entry.time)}</span>`;
+    if (entry.type === "utterance") {
+      const interrupted = entry.interrupted ? ` <span class="interrupted">(interrupted)</span>` : "";
+      return `<p class="utterance ${entry.speaker}">${time} <strong>${escapeHtml(transcript.speakers[entry.speaker])}:</strong> ${escapeHtml(entry.text)}${interrupted}</p>`;
+    }
+    if (entry.kind === "segment") {
+      return `<h2>${escapeHtml(entry.text)} ${time}</h2>`;
+    }
+    return `<p class="marker ${entry.kind}">${time} ${escapeHtml(entry.text)}</p>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(transcript.episodeId)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 46rem; margin: 2rem auto; line-height: 1.5; color: #222; }
+  .time { font-family: ui-monospace, monospace; font-size: 0.85em; color: #888; }
+  .marker { font-style: italic; color: #666; }
+  .interrupted { color: #b34; font-size: 0.85em; }
+  .you strong { color: #2a6; }
+  .claude strong { color: #c63; }
+  .guest strong { color: #36c; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(transcript.episodeId)}</h1>
+<p>Recorded ${escapeHtml(transcript.startedAt)}, ${formatClock(transcript.durationMs)} long.</p>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map((part) => String(part).padStart(2, "0")).join(":");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
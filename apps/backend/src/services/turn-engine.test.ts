@@ -0,0 +1,284 @@
+import { describe, it, expect, vi } from "vitest";
+import { TurnEngine } from "./turn-engine";
+import type { LlmAdapter, TtsAdapter } from "../adapters/interfaces";
+import type { EventLogger } from "./event-logger";
+import { ConversationHistory } from "./conversation-history";
+
+function createLogger() {
+  return {
+    logLlmStart: vi.fn(),
+    logLlmChunk: vi.fn(),
+    logLlmComplete: vi.fn(),
+    logError: vi.fn(),
+  };
+}
+
+function createLlm(id: string, chunks: string[]): LlmAdapter {
+  return {
+    id,
+    async *generate() {
+      for (const chunk of chunks) {
+        yield chunk;
+      }
+    },
+    stop: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+function createHistory(): ConversationHistory {
+  const history = new ConversationHistory();
+  history.append("you", "Hello everyone");
+  return history;
+}
+
+function createTts(): TtsAdapter {
+  return {
+    synthesize: vi.fn().mockResolvedValue(undefined),
+    stop: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe("TurnEngine", () => {
+  it("should stream the reply, log the LLM lifecycle and speak it", async () => {
+    const logger = createLogger();
+    const tts = createTts();
+    const onTurnEnd = vi.fn();
+
+    const engine = new TurnEngine({
+      sessionId: "session-1",
+      eventLogger: logger as unknown as EventLogger,
+      history: createHistory(),
+      llmAdapters: { claude: createLlm("claude", ["Hello ", "there."]) },
+      ttsAdapters: { claude: tts },
+      onTurnEnd,
+    });
+
+    await engine.respond(["claude"]);
+
+    expect(logger.logLlmStart).toHaveBeenCalledWith("session-1", "claude", "claude");
+    expect(logger.logLlmChunk).toHaveBeenCalledTimes(2);
+    expect(logger.logLlmComplete).toHaveBeenCalledWith("session-1", "claude", expect.any(Number));
+    expect(onTurnEnd).toHaveBeenCalledWith("claude", "Hello there.");
+    expect(tts.synthesize).toHaveBeenCalledWith("session-1", "Hello there.");
+    expect(engine.isBusy()).toBe(false);
+  });
+
+  it("should start speaking after the first sentence", async () => {
+    const tts = createTts();
+    let spokenBeforeStreamEnded = 0;
+
+    const llm: LlmAdapter = {
+      id: "claude",
+      async *generate() {
+        yield "First sentence here. ";
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        spokenBeforeStreamEnded = vi.mocked(tts.synthesize).mock.calls.length;
+        yield "Second sentence here.";
+      },
+      stop: vi.fn(),
+    };
+
+    const engine = new TurnEngine({
+      sessionId: "session-1",
+      eventLogger: createLogger() as unknown as EventLogger,
+      history: createHistory(),
+      llmAdapters: { claude: llm },
+      ttsAdapters: { claude: tts },
+    });
+
+    await engine.respond(["claude"]);
+
+    expect(spokenBeforeStreamEnded).toBe(1);
+    expect(tts.synthesize).toHaveBeenNthCalledWith(1, "session-1", "First sentence here.");
+    expect(tts.synthesize).toHaveBeenNthCalledWith(2, "session-1", "Second sentence here.");
+  });
+
+  it("should report each sentence as it is spoken", async () => {
+    const onSpeechStart = vi.fn();
+    const onSpeechEnd = vi.fn();
+
+    const engine = new TurnEngine({
+      sessionId: "session-1",
+      eventLogger: createLogger() as unknown as EventLogger,
+      history: createHistory(),
+      llmAdapters: { claude: createLlm("claude", ["First sentence here. ", "Second one."]) },
+      ttsAdapters: { claude: createTts() },
+      onSpeechStart,
+      onSpeechEnd,
+    });
+
+    await engine.respond(["claude"]);
+
+    expect(onSpeechStart.mock.calls).toEqual([
+      ["claude", "First sentence here."],
+      ["claude", "Second one."],
+    ]);
+    expect(onSpeechEnd).toHaveBeenCalledTimes(2);
+  });
+
+  it("should answer multiple targets in order", async () => {
+    const spoken: string[] = [];
+
+    const engine = new TurnEngine({
+      sessionId: "session-1",
+      eventLogger: createLogger() as unknown as EventLogger,
+      history: createHistory(),
+      llmAdapters: {
+        claude: createLlm("claude", ["From Claude"]),
+        guest: createLlm("groq", ["From guest"]),
+      },
+      ttsAdapters: {},
+      onTurnEnd: (speaker) => spoken.push(speaker),
+    });
+
+    await engine.respond(["claude", "guest"]);
+
+    expect(spoken).toEqual(["claude", "guest"]);
+  });
+
+  it("should let later speakers see earlier replies and the system prompt", async () => {
+    const guest = createLlm("groq", ["Agreed"]);
+    const generate = vi.spyOn(guest, "generate");
+
+    const engine = new TurnEngine({
+      sessionId: "session-1",
+      eventLogger: createLogger() as unknown as EventLogger,
+      history: createHistory(),
+      getSystemPrompt: (speaker) => `You are ${speaker}`,
+      llmAdapters: { claude: createLlm("claude", ["Claude's take"]), guest },
+      ttsAdapters: {},
+    });
+
+    await engine.respond(["claude", "guest"]);
+
+    expect(generate).toHaveBeenCalledWith("session-1", {
+      system: "You are guest",
+      messages: [{ role: "user", content: "Basil: Hello everyone\n\nClaude: Claude's take" }],
+    });
+  });
+
+  it("should pass a direction to every target", async () => {
+    const claude = createLlm("claude", ["Welcome to the show"]);
+    const generate = vi.spyOn(claude, "generate");
+
+    const engine = new TurnEngine({
+      sessionId: "session-1",
+      eventLogger: createLogger() as unknown as EventLogger,
+      history: new ConversationHistory(),
+      llmAdapters: { claude },
+      ttsAdapters: {},
+    });
+
+    await engine.respond(["claude"], "Open the show");
+
+    expect(generate).toHaveBeenCalledWith("session-1", {
+      system: undefined,
+      messages: [{ role: "user", content: "Showrunner: Open the show" }],
+    });
+  });
+
+  it("should queue follow-up replies between agents", async () => {
+    const spoken: string[] = [];
+    const getFollowUps = vi.fn((speaker: string) => (speaker === "claude" ? ["guest" as const] : []));
+
+    const engine = new TurnEngine({
+      sessionId: "session-1",
+      eventLogger: createLogger() as unknown as EventLogger,
+      history: createHistory(),
+      llmAdapters: {
+        claude: createLlm("claude", ["Guest, do you agree?"]),
+        guest: createLlm("groq", ["Mostly."]),
+      },
+      ttsAdapters: {},
+      onTurnEnd: (speaker) => spoken.push(speaker),
+      getFollowUps,
+    });
+
+    await engine.respond(["claude"]);
+
+    expect(spoken).toEqual(["claude", "guest"]);
+    expect(getFollowUps).toHaveBeenCalledWith("claude", "Guest, do you agree?", []);
+    expect(getFollowUps).toHaveBeenCalledWith("guest", "Mostly.", []);
+  });
+
+  it("should skip speakers without an LLM adapter", async () => {
+    const onTurnStart = vi.fn();
+
+    const engine = new TurnEngine({
+      sessionId: "session-1",
+      eventLogger: createLogger() as unknown as EventLogger,
+      history: createHistory(),
+      llmAdapters: {},
+      ttsAdapters: {},
+      onTurnStart,
+    });
+
+    await engine.respond(["guest"]);
+
+    expect(onTurnStart).not.toHaveBeenCalled();
+  });
+
+  it("should log LLM failures and keep going", async () => {
+    const logger = createLogger();
+    const failing: LlmAdapter = {
+      id: "claude",
+      async *generate() {
+        throw new Error("rate limited");
+      },
+      stop: vi.fn(),
+    };
+    const onTurnEnd = vi.fn();
+
+    const engine = new TurnEngine({
+      sessionId: "session-1",
+      eventLogger: logger as unknown as EventLogger,
+      history: createHistory(),
+      llmAdapters: { claude: failing, guest: createLlm("groq", ["Still here"]) },
+      ttsAdapters: {},
+      onTurnEnd,
+    });
+
+    await engine.respond(["claude", "guest"]);
+
+    expect(logger.logError).toHaveBeenCalledWith("session-1", expect.any(Error), {
+      service: "llm",
+      speaker: "claude",
+    });
+    expect(onTurnEnd).toHaveBeenCalledWith("guest", "Still here");
+  });
+
+  it("should stop the active adapters when cancelled mid-turn", async () => {
+    const llm: LlmAdapter = {
+      id: "claude",
+      async *generate() {
+        yield "Let me explain";
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        yield " at length";
+      },
+      stop: vi.fn().mockResolvedValue(undefined),
+    };
+    const tts = createTts();
+    const logger = createLogger();
+    const onTurnEnd = vi.fn();
+
+    const engine = new TurnEngine({
+      sessionId: "session-1",
+      eventLogger: logger as unknown as EventLogger,
+      history: createHistory(),
+      llmAdapters: { claude: llm },
+      ttsAdapters: { claude: tts },
+      onTurnEnd,
+    });
+
+    const turn = engine.respond(["claude"]);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await engine.cancel();
+    await turn;
+
+    expect(llm.stop).toHaveBeenCalledWith("session-1");
+    expect(tts.stop).toHaveBeenCalledWith("session-1");
+    expect(onTurnEnd).not.toHaveBeenCalled();
+    expect(tts.synthesize).not.toHaveBeenCalled();
+    expect(logger.logLlmComplete).not.toHaveBeenCalled();
+  });
+});
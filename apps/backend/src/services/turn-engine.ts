@@ -0,0 +1,170 @@
+import type { AgentSpeakerId } from "@basil/shared";
+import type { LlmAdapter, TtsAdapter } from "../adapters/interfaces.js";
+import type { EventLogger } from "./event-logger.js";
+import type { ConversationHistory } from "./conversation-history.js";
+import { metrics } from "./metrics.js";
+import { SpeechQueue } from "./speech-queue.js";
+import { TextChunker } from "./text-chunker.js";
+
+export type AgentSpeaker = AgentSpeakerId;
+
+export interface TurnEngineOptions {
+  sessionId: string;
+  eventLogger: EventLogger;
+  history: ConversationHistory;
+  getSystemPrompt?: (speaker: AgentSpeaker) => string | undefined;
+  llmAdapters: Partial<Record<AgentSpeaker, LlmAdapter>>;
+  ttsAdapters: Partial<Record<AgentSpeaker, TtsAdapter>>;
+  onTurnStart?: (speaker: AgentSpeaker) => void;
+  /** A sentence of the reply is about to be synthesized */
+  onSpeechStart?: (speaker: AgentSpeaker, text: string) => void;
+  /** That sentence has been synthesized (or cut off) */
+  onSpeechEnd?: (speaker: AgentSpeaker, text: string) => void;
+  onTurnEnd?: (speaker: AgentSpeaker, text: string) => void;
+  /** Agents who should reply to `speaker`, given who is already queued */
+  getFollowUps?: (speaker: AgentSpeaker, reply: string, queued: AgentSpeaker[]) => AgentSpeaker[];
+}
+
+/**
+ * Runs agent turns for a single session.
+ *
+ * Each turn streams a reply from the speaker's LLM adapter using the shared
+ * conversation history and logs the llm.start/chunk/complete lifecycle. Tokens
+ * are cut into sentences as they arrive and queued on the speaker's TTS
+ * adapter, so audio starts after the first sentence rather than the full
+ * reply; onSpeechStart/onSpeechEnd bracket each sentence's synthesis so its
+ * audio can be captioned. The finished reply is recorded in the history.
+ * Targets are answered one after another so later speakers hear earlier
+ * replies, and after each reply getFollowUps() may queue further agents so
+ * they can answer one another. An optional direction (a showrunner cue) is
+ * passed to every target as the closing user turn. Starting a new turn or
+ * calling cancel() abandons the current one, including any queued speech.
+ */
+export class TurnEngine {
+  private readonly options: TurnEngineOptions;
+  private turnId = 0;
+  private activeSpeaker?: AgentSpeaker;
+  private speechQueue?: SpeechQueue;
+
+  constructor(options: TurnEngineOptions) {
+    this.options = options;
+  }
+
+  isBusy(): boolean {
+    return this.activeSpeaker !== undefined;
+  }
+
+  hasPendingSpeech(speaker: AgentSpeaker): boolean {
+    return this.activeSpeaker === speaker && (this.speechQueue?.hasPendingSpeech() ?? false);
+  }
+
+  async respond(targets: AgentSpeaker[], direction?: string): Promise<void> {
+    if (this.isBusy()) {
+      await this.cancel();
+    }
+
+    const turnId = ++this.turnId;
+    const queue = [...targets];
+
+    while (queue.length > 0) {
+      if (turnId !== this.turnId) return;
+
+      const speaker = queue.shift()!;
+      const reply = await this.runTurn(turnId, speaker, direction);
+      if (!reply || turnId !== this.turnId) continue;
+
+      for (const next of this.options.getFollowUps?.(speaker, reply, queue) ?? []) {
+        if (next !== speaker && !queue.includes(next)) {
+          queue.push(next);
+        }
+      }
+    }
+  }
+
+  async cancel(): Promise<void> {
+    this.turnId += 1;
+
+    const speaker = this.activeSpeaker;
+    if (!speaker) return;
+    this.activeSpeaker = undefined;
+
+    const { sessionId, llmAdapters } = this.options;
+    try {
+      await llmAdapters[speaker]?.stop(sessionId);
+    } catch (error) {
+      console.warn(`[turn-engine] failed to cancel turn for ${speaker}`, error);
+    }
+
+    await this.speechQueue?.cancel();
+  }
+
+  private async runTurn(turnId: number, speaker: AgentSpeaker, direction?: string): Promise<string | undefined> {
+    const { sessionId, eventLogger, history, llmAdapters, ttsAdapters } = this.options;
+    const llm = llmAdapters[speaker];
+    if (!llm) {
+      console.warn(`[turn-engine] no LLM adapter for ${speaker}, skipping turn`);
+      return;
+    }
+
+    const request = history.buildRequest(speaker, this.options.getSystemPrompt?.(speaker), direction);
+    if (request.messages.length === 0) {
+      console.warn(`[turn-engine] nothing for ${speaker} to respond to, skipping turn`);
+      return;
+    }
+
+    const queue = new SpeechQueue(sessionId, ttsAdapters[speaker], {
+      onSegmentStart: (segment) => this.options.onSpeechStart?.(speaker, segment),
+      onSegmentEnd: (segment) => this.options.onSpeechEnd?.(speaker, segment),
+    });
+    const chunker = new TextChunker();
+
+    this.activeSpeaker = speaker;
+    this.speechQueue = queue;
+    this.options.onTurnStart?.(speaker);
+
+    const startedAt = Date.now();
+    let text = "";
+
+    try {
+      eventLogger.logLlmStart(sessionId, speaker, llm.id);
+
+      for await (const chunk of llm.generate(sessionId, request)) {
+        if (turnId !== this.turnId) break;
+        text += chunk;
+        eventLogger.logLlmChunk(sessionId, speaker, chunk);
+
+        for (const segment of chunker.push(chunk)) {
+          queue.enqueue(segment);
+        }
+      }
+
+      // A cancelled or superseded turn would skew the LLM latency figures
+      if (turnId === this.turnId) {
+        eventLogger.logLlmComplete(sessionId, speaker, Date.now() - startedAt);
+        metrics.llmDuration.observe({ provider: llm.id, speaker }, (Date.now() - startedAt) / 1000);
+      }
+
+      const reply = text.trim();
+      if (turnId !== this.turnId || !reply) return;
+
+      const rest = chunker.flush();
+      if (rest) {
+        queue.enqueue(rest);
+      }
+      queue.close();
+
+      history.append(speaker, reply);
+      await queue.drained();
+      return reply;
+    } catch (error) {
+      console.error(`[turn-engine] turn failed for ${speaker}:`, error);
+      eventLogger.logError(sessionId, error as Error, { service: "llm", speaker });
+    } finally {
+      queue.close();
+      if (turnId === this.turnId) {
+        this.activeSpeaker = undefined;
+        this.options.onTurnEnd?.(speaker, text.trim());
+      }
+    }
+  }
+}
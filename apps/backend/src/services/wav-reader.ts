@@ -0,0 +1,46 @@
+import { promises as fs } from "node:fs";
+import { bytesPerFrame, parseWavHeader, type AudioFormat } from "./audio-format.js";
+
+/**
+ * Reads the PCM data of a 16-bit WAV file a block at a time.
+ */
+export class WavReader {
+  private position: number;
+
+  private constructor(
+    private readonly handle: fs.FileHandle,
+    readonly path: string,
+    readonly format: AudioFormat,
+    dataOffset: number
+  ) {
+    this.position = dataOffset;
+  }
+
+  static async open(path: string): Promise<WavReader> {
+    const handle = await fs.open(path, "r");
+    const probe = Buffer.alloc(4096);
+    const { bytesRead } = await handle.read(probe, 0, probe.length, 0);
+    const header = parseWavHeader(probe.subarray(0, bytesRead));
+
+    if (!header) {
+      await handle.close();
+      throw new Error(`${path} is not a 16-bit PCM WAV file`);
+    }
+
+    return new WavReader(handle, path, header.format, header.dataOffset);
+  }
+
+  /** Returns up to `frames` whole frames; an empty buffer means the end of the file. */
+  async read(frames: number): Promise<Buffer> {
+    const frameSize = bytesPerFrame(this.format);
+    const buffer = Buffer.alloc(frames * frameSize);
+    const { bytesRead } = await this.handle.read(buffer, 0, buffer.length, this.position);
+    this.position += bytesRead;
+
+    return buffer.subarray(0, bytesRead - (bytesRead % frameSize));
+  }
+
+  close(): Promise<void> {
+    return this.handle.close();
+  }
+}
@@ -0,0 +1,65 @@
+import { promises as fs } from "node:fs";
+import { createWavHeader, WAV_HEADER_SIZE, type AudioFormat } from "./audio-format.js";
+
+/**
+ * Streams PCM into a WAV file on disk.
+ *
+ * A header with zero lengths is written up front so the file is usable even
+ * if the process dies mid-show; close() rewrites it with the final sizes.
+ * Writes are serialized, so callers may fire them without awaiting.
+ */
+export class WavWriter {
+  private readonly ready: Promise<fs.FileHandle>;
+  private pending: Promise<void>;
+  private dataLength = 0;
+  private closed = false;
+
+  constructor(
+    readonly path: string,
+    readonly format: AudioFormat
+  ) {
+    this.ready = fs.open(path, "w");
+    this.pending = this.ready
+      .then(async (handle) => {
+        await handle.write(createWavHeader(format, 0), 0, WAV_HEADER_SIZE, 0);
+      })
+      .catch((error) => {
+        console.error(`[wav-writer] failed to open ${path}:`, error);
+      });
+  }
+
+  get bytesWritten(): number {
+    return this.dataLength;
+  }
+
+  write(pcm: Buffer): Promise<void> {
+    if (this.closed || pcm.length === 0) return this.pending;
+
+    const position = WAV_HEADER_SIZE + this.dataLength;
+    this.dataLength += pcm.length;
+
+    this.pending = this.pending
+      .then(async () => {
+        const handle = await this.ready;
+        await handle.write(pcm, 0, pcm.length, position);
+      })
+      .catch((error) => {
+        console.error(`[wav-writer] failed to write ${this.path}:`, error);
+      });
+
+    return this.pending;
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    const handle = await this.ready;
+    try {
+      await this.pending;
+      await handle.write(createWavHeader(this.format, this.dataLength), 0, WAV_HEADER_SIZE, 0);
+    } finally {
+      await handle.close();
+    }
+  }
+}
@@ -0,0 +1,9 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { EpisodeReview } from "../../../components/episode-review";
+
+export default function EpisodeReviewPage() {
+  const { episodeId } = useParams<{ episodeId: string }>();
+  return <EpisodeReview episodeId={decodeURIComponent(episodeId)} />;
+}
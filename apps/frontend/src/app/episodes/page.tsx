@@ -0,0 +1,158 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import clsx from "clsx";
+import {
+  archiveEpisode,
+  deleteEpisode,
+  fetchEpisodes,
+  formatBytes,
+  formatDuration,
+  type EpisodeSummary,
+} from "../../lib/episodes";
+
+export default function EpisodesPage() {
+  const [showArchived, setShowArchived] = useState(false);
+  const [episodes, setEpisodes] = useState<EpisodeSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>();
+  const [filter, setFilter] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(undefined);
+    try {
+      setEpisodes(await fetchEpisodes(showArchived));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [showArchived]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const archive = async (episodeId: string) => {
+    try {
+      await archiveEpisode(episodeId);
+      await load();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const remove = async (episodeId: string) => {
+    if (!confirm(`Delete ${episodeId} and all of its recordings? This cannot be undone.`)) return;
+    try {
+      await deleteEpisode(episodeId);
+      await load();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const visible = episodes.filter((episode) =>
+    episode.episodeId.toLowerCase().includes(filter.trim().toLowerCase())
+  );
+
+  return (
+    <div className="min-h-screen bg-[#050717] text-slate-100">
+      <div className="mx-auto max-w-5xl px-6 py-8">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-white via-blue-100 to-purple-200 bg-clip-text text-transparent">
+              Episodes
+            </h1>
+            <p className="mt-2 text-sm text-slate-400">
+              Review past recordings, captions and the event timeline
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="rounded-lg bg-white/5 px-4 py-2 text-sm text-slate-300 hover:bg-white/10 transition-all border border-white/10"
+          >
+            Back to Studio
+          </Link>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 flex items-center gap-3">
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by episode id"
+            className="flex-1 rounded-lg border border-white/20 bg-white/5 px-4 py-2 text-sm text-slate-200 placeholder:text-slate-500 focus:border-white/40 focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={() => setShowArchived(!showArchived)}
+            className={clsx(
+              "rounded-lg px-4 py-2 text-sm font-semibold transition-all border",
+              showArchived
+                ? "bg-amber-500/10 text-amber-300 border-amber-500/30 hover:bg-amber-500/20"
+                : "bg-white/5 text-slate-300 border-white/10 hover:bg-white/10"
+            )}
+          >
+            {showArchived ? "Showing Archive" : "Show Archive"}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-xl border border-red-500/30 bg-red-500/10 p-4 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-slate-400">Loading episodes…</p>
+        ) : visible.length === 0 ? (
+          <p className="text-sm text-slate-400">No episodes yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((episode) => (
+              <div
+                key={episode.episodeId}
+                className="flex items-center justify-between gap-4 rounded-xl border border-white/10 bg-white/5 p-5 backdrop-blur-sm"
+              >
+                <Link href={`/episodes/${encodeURIComponent(episode.episodeId)}`} className="min-w-0 flex-1 group">
+                  <div className="truncate font-semibold text-slate-100 group-hover:text-blue-300 transition-all">
+                    {episode.episodeId}
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-slate-400 font-mono">
+                    <span>{new Date(episode.startedAt).toLocaleString()}</span>
+                    <span>{episode.durationMs === null ? "in progress" : formatDuration(episode.durationMs / 1000)}</span>
+                    <span>{episode.files.length} files</span>
+                    <span>{formatBytes(episode.totalSize)}</span>
+                  </div>
+                </Link>
+                <div className="flex items-center gap-2">
+                  {!episode.archived && (
+                    <button
+                      type="button"
+                      onClick={() => archive(episode.episodeId)}
+                      className="rounded-lg bg-amber-500/10 px-3 py-2 text-xs font-semibold text-amber-300 hover:bg-amber-500/20 transition-all border border-amber-500/30"
+                    >
+                      Archive
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => remove(episode.episodeId)}
+                    className="rounded-lg bg-red-500/10 px-3 py-2 text-xs font-semibold text-red-300 hover:bg-red-500/20 transition-all border border-red-500/30"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
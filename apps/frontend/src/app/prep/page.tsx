@@ -1,8 +1,16 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import clsx from "clsx";
+import {
+  briefingName,
+  fetchBriefing,
+  fetchBriefings,
+  saveBriefing as saveBriefingFile,
+  type Briefing,
+  type BriefingSummary,
+} from "../../lib/briefings";
 
 interface BriefingData {
   title: string;
@@ -21,6 +29,61 @@ interface AIBriefing {
   content: string;
 }
 
+const DEFAULT_CLAUDE_BRIEFING: AIBriefing = {
+  role: "Host and moderator",
+  perspective: "Balanced, thoughtful, asks probing questions",
+  expertise: [""],
+  content: "",
+};
+
+const DEFAULT_GUEST_BRIEFING: AIBriefing = {
+  name: "Guest",
+  role: "Guest expert",
+  perspective: "Knowledgeable, opinionated, engaging",
+  expertise: [""],
+  content: "",
+};
+
+// Both agents are prompted with the whole briefing, so each one's role is a section of the notes
+const CLAUDE_HEADING = "## Claude's Role";
+const GUEST_HEADING = "## Guest's Role";
+
+function roleSection(heading: string, ai: AIBriefing): string {
+  const fields = [
+    ai.name && `**Name:** ${ai.name}`,
+    `**Role:** ${ai.role}`,
+    `**Perspective:** ${ai.perspective}`,
+    `**Expertise:** ${ai.expertise.filter((area) => area.trim()).join("; ")}`,
+  ].filter(Boolean);
+  return [heading, fields.join("\n"), ai.content.trim()].filter(Boolean).join("\n\n");
+}
+
+function parseRoleSection(section: string | undefined, fallback: AIBriefing): AIBriefing {
+  if (section === undefined) return fallback;
+
+  const ai: AIBriefing = { ...fallback, name: undefined, expertise: [""], content: "" };
+  const rest: string[] = [];
+  for (const line of section.trim().split("\n")) {
+    const field = line.match(/^\*\*(Name|Role|Perspective|Expertise):\*\* ?(.*)$/);
+    if (!field) {
+      rest.push(line);
+    } else if (field[1] === "Expertise") {
+      ai.expertise = field[2] ? field[2].split("; ") : [""];
+    } else {
+      ai[field[1].toLowerCase() as "name" | "role" | "perspective"] = field[2];
+    }
+  }
+  ai.content = rest.join("\n").trim();
+  return ai;
+}
+
+/** Splits saved notes back into the general notes and each agent's role */
+function splitContent(content: string): { notes: string; claude?: string; guest?: string } {
+  const [notes, afterClaude] = `\n${content}`.split(`\n${CLAUDE_HEADING}\n`);
+  const [claude, guest] = (afterClaude ?? "").split(`\n${GUEST_HEADING}\n`);
+  return { notes: notes.trim(), claude: afterClaude === undefined ? undefined : claude, guest };
+}
+
 export default function PrepPage() {
   const router = useRouter();
   const [activeTab, setActiveTab] = useState<"general" | "claude" | "guest">("general");
@@ -34,20 +97,41 @@ export default function PrepPage() {
     content: "",
   });
 
-  const [claudeBriefing, setClaudeBriefing] = useState<AIBriefing>({
-    role: "Host and moderator",
-    perspective: "Balanced, thoughtful, asks probing questions",
-    expertise: [""],
-    content: "",
-  });
-
-  const [guestBriefing, setGuestBriefing] = useState<AIBriefing>({
-    name: "Guest",
-    role: "Guest expert",
-    perspective: "Knowledgeable, opinionated, engaging",
-    expertise: [""],
-    content: "",
-  });
+  const [claudeBriefing, setClaudeBriefing] = useState<AIBriefing>(DEFAULT_CLAUDE_BRIEFING);
+  const [guestBriefing, setGuestBriefing] = useState<AIBriefing>(DEFAULT_GUEST_BRIEFING);
+
+  // Briefings are files on the backend, so the studio can attach them to an episode
+  const [savedBriefings, setSavedBriefings] = useState<BriefingSummary[]>([]);
+  const [loadedName, setLoadedName] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchBriefings()
+      .then(setSavedBriefings)
+      .catch((e) => setError((e as Error).message));
+  }, []);
+
+  const loadBriefing = async (name: string) => {
+    setError(null);
+    try {
+      const saved = await fetchBriefing(name);
+      const { notes, claude, guest } = splitContent(saved.content);
+      setBriefing({
+        title: saved.metadata.title ?? "",
+        topic: saved.metadata.topic ?? "",
+        tone: saved.metadata.tone ?? "",
+        mustCover: saved.metadata.mustCover?.length ? saved.metadata.mustCover : [""],
+        avoidTopics: saved.metadata.avoidTopics?.length ? saved.metadata.avoidTopics : [""],
+        content: notes,
+      });
+      setClaudeBriefing(parseRoleSection(claude, DEFAULT_CLAUDE_BRIEFING));
+      setGuestBriefing(parseRoleSection(guest, DEFAULT_GUEST_BRIEFING));
+      setLoadedName(name);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
 
   const addMustCoverPoint = () => {
     setBriefing({ ...briefing, mustCover: [...briefing.mustCover, ""] });
@@ -117,17 +201,44 @@ export default function PrepPage() {
     setGuestBriefing({ ...guestBriefing, expertise: updated });
   };
 
-  const saveBriefing = () => {
-    // Save to localStorage
-    localStorage.setItem("currentBriefing", JSON.stringify(briefing));
-    localStorage.setItem("claudeBriefing", JSON.stringify(claudeBriefing));
-    localStorage.setItem("guestBriefing", JSON.stringify(guestBriefing));
-    alert("Briefing saved! Both AIs will be prepped with this information.");
+  /** Saves to the backend's briefings dir and returns the file name, or null if saving failed */
+  const saveBriefing = async (): Promise<string | null> => {
+    const file: Briefing = {
+      name: loadedName ?? briefingName(briefing.title),
+      metadata: {
+        title: briefing.title.trim() || undefined,
+        topic: briefing.topic.trim() || undefined,
+        tone: briefing.tone.trim() || undefined,
+        mustCover: briefing.mustCover.filter((point) => point.trim()),
+        avoidTopics: briefing.avoidTopics.filter((topic) => topic.trim()),
+      },
+      content: [
+        briefing.content.trim(),
+        roleSection(CLAUDE_HEADING, claudeBriefing),
+        roleSection(GUEST_HEADING, guestBriefing),
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+    };
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await saveBriefingFile(file);
+      setLoadedName(saved.name);
+      setSavedBriefings(await fetchBriefings());
+      return saved.name;
+    } catch (e) {
+      setError((e as Error).message);
+      return null;
+    } finally {
+      setSaving(false);
+    }
   };
 
-  const startConversation = () => {
-    saveBriefing();
-    router.push("/");
+  const startConversation = async () => {
+    const name = await saveBriefing();
+    if (name) router.push(`/?briefing=${encodeURIComponent(name)}`);
   };
 
   return (
@@ -151,6 +262,29 @@ export default function PrepPage() {
           </a>
         </div>
 
+        {/* Saved briefings */}
+        <div className="mb-6 flex items-center gap-3 rounded-xl border border-white/10 bg-white/5 px-6 py-4 backdrop-blur-sm">
+          <label htmlFor="saved-briefing" className="text-sm font-semibold text-slate-200">
+            Saved Briefings
+          </label>
+          <select
+            id="saved-briefing"
+            value={loadedName ?? ""}
+            onChange={(e) => (e.target.value ? loadBriefing(e.target.value) : setLoadedName(null))}
+            className="flex-1 rounded-lg border border-white/20 bg-white/5 px-4 py-2 text-sm text-slate-200 focus:border-white/40 focus:outline-none"
+          >
+            <option value="">New briefing</option>
+            {savedBriefings.map((saved) => (
+              <option key={saved.name} value={saved.name}>
+                {saved.metadata.title || saved.name}
+              </option>
+            ))}
+          </select>
+          {loadedName && <span className="text-xs font-mono text-slate-500">{loadedName}</span>}
+        </div>
+
+        {error && <p className="mb-6 text-sm text-red-400">{error}</p>}
+
         {/* Tabs */}
         <div className="mb-6 flex gap-2 border-b border-white/10">
           <button
@@ -505,14 +639,16 @@ export default function PrepPage() {
             <button
               type="button"
               onClick={saveBriefing}
-              className="flex-1 rounded-lg bg-blue-500/10 px-6 py-3 text-sm font-semibold text-blue-300 hover:bg-blue-500/20 transition-all border border-blue-500/30"
+              disabled={saving}
+              className="flex-1 rounded-lg bg-blue-500/10 px-6 py-3 text-sm font-semibold text-blue-300 hover:bg-blue-500/20 transition-all border border-blue-500/30 disabled:opacity-50"
             >
-              Save Briefing
+              {saving ? "Saving..." : "Save Briefing"}
             </button>
             <button
               type="button"
               onClick={startConversation}
-              className="flex-1 rounded-lg bg-gradient-to-r from-emerald-500 to-teal-500 px-6 py-3 text-sm font-bold text-white hover:from-emerald-600 hover:to-teal-600 transition-all shadow-lg shadow-emerald-500/50"
+              disabled={saving}
+              className="flex-1 rounded-lg bg-gradient-to-r from-emerald-500 to-teal-500 px-6 py-3 text-sm font-bold text-white hover:from-emerald-600 hover:to-teal-600 transition-all shadow-lg shadow-emerald-500/50 disabled:opacity-50"
             >
               Start Conversation →
             </button>
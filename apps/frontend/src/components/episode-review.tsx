@@ -0,0 +1,527 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import clsx from "clsx";
+import {
+  EPISODE_SPEAKERS,
+  episodeFileUrl,
+  fetchEpisode,
+  fetchEpisodeText,
+  formatDuration,
+  parseEvents,
+  parseVtt,
+  type EpisodeCaption,
+  type EpisodeEvent,
+  type EpisodeSpeaker,
+  type EpisodeSummary,
+} from "../lib/episodes";
+
+type TimelineKind = "speech" | "thinking" | "barge-in" | "command" | "segment" | "error";
+
+interface TimelineItem {
+  kind: TimelineKind;
+  lane: EpisodeSpeaker | "thinking" | "markers";
+  /** Seconds from the start of the recording */
+  start: number;
+  end?: number;
+  label: string;
+}
+
+const SPEAKER_LABELS: Record<EpisodeSpeaker, string> = {
+  you: "Basil",
+  remote: "Remote Guest",
+  claude: "Claude",
+  guest: "Guest",
+};
+
+const SPEAKER_COLORS: Record<EpisodeSpeaker, { text: string; bar: string }> = {
+  you: { text: "text-emerald-300", bar: "bg-emerald-500/60" },
+  remote: { text: "text-violet-300", bar: "bg-violet-500/60" },
+  claude: { text: "text-orange-300", bar: "bg-orange-500/60" },
+  guest: { text: "text-purple-300", bar: "bg-purple-500/60" },
+};
+
+const KIND_STYLES: Record<TimelineKind, { label: string; marker: string; chip: string }> = {
+  speech: { label: "Speech", marker: "bg-slate-400", chip: "border-slate-500/40 text-slate-300" },
+  thinking: { label: "Thinking", marker: "bg-blue-400/50", chip: "border-blue-500/40 text-blue-300" },
+  "barge-in": { label: "Barge-ins", marker: "bg-red-400", chip: "border-red-500/40 text-red-300" },
+  command: { label: "Commands", marker: "bg-cyan-400", chip: "border-cyan-500/40 text-cyan-300" },
+  segment: { label: "Segments", marker: "bg-amber-300", chip: "border-amber-500/40 text-amber-300" },
+  error: { label: "Errors", marker: "bg-rose-600", chip: "border-rose-500/40 text-rose-300" },
+};
+
+const LANES: TimelineItem["lane"][] = ["you", "remote", "claude", "guest", "thinking", "markers"];
+
+interface RecordingTime {
+  /** Seconds from the start of the recording */
+  time: number;
+  /** False for a moment while the episode was off the record */
+  recorded: boolean;
+}
+
+/**
+ * Maps log timestamps onto the recording. Logs without episode.* lifecycle
+ * events were recorded from `origin` on. Otherwise only the stretches from
+ * episode.start or episode.resume to the next pause or stop are in the
+ * masters, back to back, as in the backend's transcript export. A moment
+ * off the record maps to where the recording carries on.
+ */
+function recordingClock(events: EpisodeEvent[], origin: number): (timestamp: number) => RecordingTime {
+  if (!events.some((event) => event.type.startsWith("episode."))) {
+    return (timestamp) => ({ time: Math.max(0, timestamp - origin) / 1000, recorded: true });
+  }
+
+  const spans: { start: number; end: number }[] = [];
+  let start: number | undefined;
+  for (const event of events) {
+    if (event.type === "episode.start" || event.type === "episode.resume") {
+      start ??= event.timestamp;
+    } else if ((event.type === "episode.pause" || event.type === "episode.stop") && start !== undefined) {
+      spans.push({ start, end: event.timestamp });
+      start = undefined;
+    }
+  }
+  if (start !== undefined) spans.push({ start, end: Infinity });
+
+  return (timestamp) => {
+    let elapsed = 0;
+    for (const span of spans) {
+      if (timestamp < span.start) return { time: elapsed / 1000, recorded: false };
+      if (timestamp < span.end) return { time: (elapsed + timestamp - span.start) / 1000, recorded: true };
+      elapsed += span.end - span.start;
+    }
+    return { time: elapsed / 1000, recorded: false };
+  };
+}
+
+/**
+ * Turns the event log into timeline items. Speech spans come from VAD for
+ * the host and from TTS start/complete for the agents. Markers for moments
+ * off the record are left out.
+ */
+function buildTimeline(events: EpisodeEvent[], origin: number): TimelineItem[] {
+  const items: TimelineItem[] = [];
+  const open = new Map<string, RecordingTime>();
+  const clock = recordingClock(events, origin);
+  const at = (event: EpisodeEvent) => clock(event.timestamp);
+  const speaker = (event: EpisodeEvent) => String(event.speaker ?? "") as EpisodeSpeaker;
+  const name = (id: unknown) => SPEAKER_LABELS[id as EpisodeSpeaker] ?? String(id);
+  const marker = (event: EpisodeEvent, kind: TimelineKind, label: string) => {
+    const { time, recorded } = at(event);
+    if (recorded) items.push({ kind, lane: "markers", start: time, label });
+  };
+
+  for (const event of events) {
+    switch (event.type) {
+      case "vad.speech-start":
+      case "tts.start":
+        open.set(speaker(event), at(event));
+        break;
+
+      case "vad.speech-end":
+      case "tts.complete": {
+        const start = open.get(speaker(event));
+        const end = at(event);
+        open.delete(speaker(event));
+        // Speech that ran into or out of a pause keeps its recorded part
+        if (start !== undefined && (start.recorded || end.time > start.time) && EPISODE_SPEAKERS.includes(speaker(event))) {
+          items.push({ kind: "speech", lane: speaker(event), start: start.time, end: end.time, label: `${name(event.speaker)} speaking` });
+        }
+        break;
+      }
+
+      case "mode.thinking": {
+        const start = at(event);
+        if (!start.recorded) break;
+        items.push({
+          kind: "thinking",
+          lane: "thinking",
+          start: start.time,
+          end: start.time + Number(event.duration ?? 0) / 1000,
+          label: `${name(event.speaker)} thinking`,
+        });
+        break;
+      }
+
+      case "mode.normal": {
+        // Thinking can be ended early; trim the open span
+        const thinking = [...items].reverse().find((item) => item.kind === "thinking");
+        if (thinking && thinking.end !== undefined && thinking.end > at(event).time) {
+          thinking.end = at(event).time;
+        }
+        break;
+      }
+
+      case "barge-in": {
+        const interrupted = Array.isArray(event.interrupted) ? event.interrupted.map(name).join(" and ") : "";
+        marker(event, "barge-in", `${name(event.interrupter)} cut in on ${interrupted}`);
+        break;
+      }
+
+      case "command.route": {
+        const targets = Array.isArray(event.targets) ? event.targets.map(name).join(", ") : "";
+        marker(event, "command", `Command: ${event.action}${targets ? ` → ${targets}` : ""}`);
+        break;
+      }
+
+      case "show.segment":
+        marker(event, "segment", `Segment: ${event.title}`);
+        break;
+
+      case "error":
+        marker(event, "error", `Error: ${event.error}`);
+        break;
+    }
+  }
+
+  return items.sort((a, b) => a.start - b.start);
+}
+
+function trackLabel(filename: string): string {
+  if (filename.startsWith("program.")) return "Program mix";
+  const [speaker, ...rest] = filename.split(".");
+  const label = SPEAKER_LABELS[speaker as EpisodeSpeaker] ?? speaker;
+  return rest.includes("normalized") ? `${label} (normalized)` : label;
+}
+
+function trackOrder(filename: string): number {
+  if (filename.startsWith("program.")) return 0;
+  const index = EPISODE_SPEAKERS.indexOf(filename.split(".")[0] as EpisodeSpeaker);
+  return 1 + (index === -1 ? EPISODE_SPEAKERS.length : index) + (filename.includes(".normalized.") ? 10 : 0);
+}
+
+export function EpisodeReview({ episodeId }: { episodeId: string }) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeCaptionRef = useRef<HTMLButtonElement>(null);
+  const resumeRef = useRef<{ time: number; playing: boolean }>(undefined);
+
+  const [episode, setEpisode] = useState<EpisodeSummary>();
+  const [captions, setCaptions] = useState<EpisodeCaption[]>([]);
+  const [events, setEvents] = useState<EpisodeEvent[]>([]);
+  const [error, setError] = useState<string>();
+  const [track, setTrack] = useState<string>();
+  const [currentTime, setCurrentTime] = useState(0);
+  const [audioDuration, setAudioDuration] = useState(0);
+  const [hiddenKinds, setHiddenKinds] = useState<Set<TimelineKind>>(new Set(["speech"]));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const loaded = await fetchEpisode(episodeId);
+        const names = new Set(loaded.files.map((file) => file.name));
+
+        const captionLists = await Promise.all(
+          EPISODE_SPEAKERS.filter((speaker) => names.has(`${speaker}.vtt`)).map(async (speaker) =>
+            parseVtt(await fetchEpisodeText(episodeId, `${speaker}.vtt`), speaker)
+          )
+        );
+        const loadedEvents = names.has("events.jsonl")
+          ? parseEvents(await fetchEpisodeText(episodeId, "events.jsonl"))
+          : [];
+
+        if (cancelled) return;
+        setEpisode(loaded);
+        setCaptions(captionLists.flat().sort((a, b) => a.start - b.start));
+        setEvents(loadedEvents);
+        setTrack(
+          loaded.files
+            .map((file) => file.name)
+            .filter((name) => name.endsWith(".wav"))
+            .sort((a, b) => trackOrder(a) - trackOrder(b))[0]
+        );
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [episodeId]);
+
+  const tracks = useMemo(
+    () =>
+      (episode?.files ?? [])
+        .map((file) => file.name)
+        .filter((name) => name.endsWith(".wav"))
+        .sort((a, b) => trackOrder(a) - trackOrder(b)),
+    [episode]
+  );
+
+  // Logs without episode lifecycle events count from the recorder start; fall back to the session start
+  const origin = useMemo(() => {
+    const recordingStart = episode?.metadata?.recordingStartTime;
+    if (typeof recordingStart === "string" && !Number.isNaN(Date.parse(recordingStart))) {
+      return Date.parse(recordingStart);
+    }
+    return (events.find((event) => event.type === "session.start") ?? events[0])?.timestamp ?? 0;
+  }, [episode, events]);
+
+  const timeline = useMemo(() => buildTimeline(events, origin), [events, origin]);
+
+  const duration = Math.max(
+    audioDuration,
+    (episode?.durationMs ?? 0) / 1000,
+    captions[captions.length - 1]?.end ?? 0,
+    timeline[timeline.length - 1]?.end ?? timeline[timeline.length - 1]?.start ?? 0,
+    1
+  );
+
+  const trackSpeaker = track ? (track.split(".")[0] as EpisodeSpeaker) : undefined;
+  const isolated = trackSpeaker && EPISODE_SPEAKERS.includes(trackSpeaker) ? trackSpeaker : undefined;
+  const activeCaptions = captions.filter(
+    (caption) => caption.start <= currentTime && currentTime < caption.end && (!isolated || caption.speaker === isolated)
+  );
+  const activeCaption = captions.findIndex((caption) => caption.start <= currentTime && currentTime < caption.end);
+
+  useEffect(() => {
+    activeCaptionRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activeCaption]);
+
+  const seek = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, seconds);
+    setCurrentTime(audio.currentTime);
+  };
+
+  const switchTrack = (filename: string) => {
+    const audio = audioRef.current;
+    // Keep the playhead where it was when swapping between tracks
+    resumeRef.current = audio ? { time: audio.currentTime, playing: !audio.paused } : undefined;
+    setTrack(filename);
+  };
+
+  const onLoadedMetadata = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    setAudioDuration(audio.duration || 0);
+
+    const resume = resumeRef.current;
+    resumeRef.current = undefined;
+    if (resume) {
+      audio.currentTime = resume.time;
+      if (resume.playing) void audio.play();
+    }
+  };
+
+  const toggleKind = (kind: TimelineKind) => {
+    const next = new Set(hiddenKinds);
+    if (next.has(kind)) {
+      next.delete(kind);
+    } else {
+      next.add(kind);
+    }
+    setHiddenKinds(next);
+  };
+
+  const listedEvents = timeline.filter((item) => !hiddenKinds.has(item.kind));
+
+  return (
+    <div className="min-h-screen bg-[#050717] text-slate-100">
+      <div className="mx-auto max-w-6xl px-6 py-8">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div className="min-w-0">
+            <h1 className="truncate text-3xl font-bold tracking-tight bg-gradient-to-r from-white via-blue-100 to-purple-200 bg-clip-text text-transparent">
+              {episodeId}
+            </h1>
+            {episode && (
+              <p className="mt-2 text-sm text-slate-400 font-mono">
+                {new Date(episode.startedAt).toLocaleString()} · {formatDuration(duration)}
+                {episode.archived && " · archived"}
+              </p>
+            )}
+          </div>
+          <Link
+            href="/episodes"
+            className="rounded-lg bg-white/5 px-4 py-2 text-sm text-slate-300 hover:bg-white/10 transition-all border border-white/10"
+          >
+            All Episodes
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-xl border border-red-500/30 bg-red-500/10 p-4 text-sm text-red-300">{error}</div>
+        )}
+
+        {!episode && !error && <p className="text-sm text-slate-400">Loading episode…</p>}
+
+        {episode && (
+          <div className="space-y-6">
+            {/* Player */}
+            <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur-sm">
+              <div className="mb-4 flex flex-wrap gap-2">
+                {tracks.map((filename) => (
+                  <button
+                    key={filename}
+                    type="button"
+                    onClick={() => switchTrack(filename)}
+                    className={clsx(
+                      "rounded-lg px-3 py-1 text-xs font-semibold transition-all border",
+                      filename === track
+                        ? "border-blue-500/50 bg-blue-500/20 text-blue-200"
+                        : "border-white/10 bg-white/5 text-slate-400 hover:text-slate-200"
+                    )}
+                  >
+                    {trackLabel(filename)}
+                  </button>
+                ))}
+              </div>
+
+              {track ? (
+                <audio
+                  ref={audioRef}
+                  src={episodeFileUrl(episodeId, track)}
+                  controls
+                  preload="metadata"
+                  onLoadedMetadata={onLoadedMetadata}
+                  onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                  onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                  className="w-full"
+                />
+              ) : (
+                <p className="text-sm text-slate-400">This episode has no audio tracks.</p>
+              )}
+
+              {/* Current caption */}
+              <div className="mt-4 min-h-[3.5rem] rounded-lg border border-white/10 bg-black/30 px-4 py-3 text-sm">
+                {activeCaptions.length === 0 ? (
+                  <span className="text-slate-600">—</span>
+                ) : (
+                  activeCaptions.map((caption, index) => (
+                    <p key={index}>
+                      <span className={clsx("font-semibold", SPEAKER_COLORS[caption.speaker].text)}>
+                        {SPEAKER_LABELS[caption.speaker]}:
+                      </span>{" "}
+                      {caption.text}
+                    </p>
+                  ))
+                )}
+              </div>
+            </div>
+
+            {/* Timeline */}
+            <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur-sm">
+              <div className="mb-3 flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-slate-200">Timeline</h2>
+                <span className="text-xs text-slate-500 font-mono">
+                  {formatDuration(currentTime)} / {formatDuration(duration)}
+                </span>
+              </div>
+              <div className="space-y-1">
+                {LANES.map((lane) => (
+                  <div key={lane} className="flex items-center gap-3">
+                    <span className="w-16 shrink-0 text-right text-xs text-slate-500">
+                      {lane === "markers" ? "Events" : lane === "thinking" ? "Thinking" : SPEAKER_LABELS[lane]}
+                    </span>
+                    <div
+                      className="relative h-5 flex-1 cursor-pointer rounded bg-white/5"
+                      onClick={(e) => {
+                        const rect = e.currentTarget.getBoundingClientRect();
+                        seek(((e.clientX - rect.left) / rect.width) * duration);
+                      }}
+                    >
+                      {timeline
+                        .filter((item) => item.lane === lane)
+                        .map((item, index) => (
+                          <div
+                            key={index}
+                            title={`${formatDuration(item.start)} ${item.label}`}
+                            className={clsx(
+                              "absolute top-0 h-full rounded-sm",
+                              item.kind === "speech" && EPISODE_SPEAKERS.includes(lane as EpisodeSpeaker)
+                                ? SPEAKER_COLORS[lane as EpisodeSpeaker].bar
+                                : KIND_STYLES[item.kind].marker
+                            )}
+                            style={{
+                              left: `${(item.start / duration) * 100}%`,
+                              width:
+                                item.end === undefined
+                                  ? "2px"
+                                  : `max(2px, ${((item.end - item.start) / duration) * 100}%)`,
+                            }}
+                          />
+                        ))}
+                      <div
+                        className="pointer-events-none absolute top-0 h-full w-px bg-white"
+                        style={{ left: `${(currentTime / duration) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              {/* Captions */}
+              <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur-sm">
+                <h2 className="mb-3 text-sm font-semibold text-slate-200">Captions</h2>
+                <div className="max-h-[28rem] space-y-1 overflow-y-auto pr-2">
+                  {captions.length === 0 && <p className="text-sm text-slate-500">No captions were recorded.</p>}
+                  {captions.map((caption, index) => (
+                    <button
+                      key={index}
+                      ref={index === activeCaption ? activeCaptionRef : undefined}
+                      type="button"
+                      onClick={() => seek(caption.start)}
+                      className={clsx(
+                        "block w-full rounded-lg px-3 py-2 text-left text-sm transition-all",
+                        index === activeCaption ? "bg-white/10" : "hover:bg-white/5"
+                      )}
+                    >
+                      <span className="mr-2 font-mono text-xs text-slate-500">{formatDuration(caption.start)}</span>
+                      <span className={clsx("font-semibold", SPEAKER_COLORS[caption.speaker].text)}>
+                        {SPEAKER_LABELS[caption.speaker]}:
+                      </span>{" "}
+                      <span className="text-slate-300">{caption.text}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Events */}
+              <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur-sm">
+                <div className="mb-3 flex flex-wrap items-center gap-2">
+                  <h2 className="mr-auto text-sm font-semibold text-slate-200">Events</h2>
+                  {(Object.keys(KIND_STYLES) as TimelineKind[]).map((kind) => (
+                    <button
+                      key={kind}
+                      type="button"
+                      onClick={() => toggleKind(kind)}
+                      className={clsx(
+                        "rounded-full border px-2 py-0.5 text-xs transition-all",
+                        KIND_STYLES[kind].chip,
+                        hiddenKinds.has(kind) && "opacity-40"
+                      )}
+                    >
+                      {KIND_STYLES[kind].label}
+                    </button>
+                  ))}
+                </div>
+                <div className="max-h-[28rem] space-y-1 overflow-y-auto pr-2">
+                  {listedEvents.length === 0 && <p className="text-sm text-slate-500">No events to show.</p>}
+                  {listedEvents.map((item, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => seek(item.start)}
+                      className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-left text-sm hover:bg-white/5 transition-all"
+                    >
+                      <span className={clsx("h-2 w-2 shrink-0 rounded-full", KIND_STYLES[item.kind].marker)} />
+                      <span className="font-mono text-xs text-slate-500">{formatDuration(item.start)}</span>
+                      <span className="truncate text-slate-300">{item.label}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
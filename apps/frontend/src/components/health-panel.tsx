@@ -0,0 +1,105 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import clsx from "clsx";
+import { fetchDeepHealth, type DeepHealthReport } from "../lib/health";
+
+const STATUS_STYLES: Record<DeepHealthReport["status"], { label: string; className: string }> = {
+  ok: { label: "All providers ready", className: "bg-emerald-500/10 text-emerald-300 border-emerald-500/30" },
+  degraded: { label: "Fallbacks unavailable", className: "bg-amber-500/10 text-amber-300 border-amber-500/30" },
+  down: { label: "Not ready to go live", className: "bg-red-500/10 text-red-300 border-red-500/30" },
+};
+
+/** Pre-flight provider checks from GET /health/deep */
+export function HealthPanel() {
+  const [report, setReport] = useState<DeepHealthReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const check = useCallback(async (refresh: boolean) => {
+    setChecking(true);
+    setError(null);
+    try {
+      setReport(await fetchDeepHealth(refresh));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    check(false);
+  }, [check]);
+
+  const openCircuits = Object.entries(report?.circuits ?? {}).filter(([, state]) => state !== "closed");
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur-sm space-y-4">
+      <div className="flex items-center gap-3">
+        <h3 className="text-sm font-semibold text-slate-200">Pre-flight Checks</h3>
+        {report && (
+          <span className={clsx("rounded-md border px-2 py-0.5 text-xs font-semibold", STATUS_STYLES[report.status].className)}>
+            {STATUS_STYLES[report.status].label}
+          </span>
+        )}
+        {report && (
+          <span className="text-xs text-slate-500">
+            Checked {new Date(report.checkedAt).toLocaleTimeString()}
+            {report.cached && " (cached)"}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={() => check(true)}
+          disabled={checking}
+          className="ml-auto rounded-lg bg-white/5 px-4 py-2 text-sm text-slate-300 hover:bg-white/10 transition-all border border-white/10 disabled:opacity-50"
+        >
+          {checking ? "Checking..." : "Re-check"}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {report && !report.adapters.enabled && (
+        <p className="text-xs text-amber-400">
+          Mock adapters are active (USE_REAL_ADAPTERS is off); these are the providers a live show would use.
+        </p>
+      )}
+
+      {report && (
+        <ul className="grid grid-cols-2 gap-2">
+          {report.probes.map((probe) => (
+            <li
+              key={probe.name}
+              className="flex items-start gap-3 rounded-lg border border-white/10 bg-white/5 px-3 py-2"
+            >
+              <span
+                className={clsx(
+                  "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                  probe.status === "ok" ? "bg-emerald-500" : probe.fallback ? "bg-amber-500" : "bg-red-500"
+                )}
+              />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-slate-200">
+                  <span className="font-mono">{probe.name}</span>
+                  {probe.fallback && <span className="ml-2 text-xs text-slate-500">fallback</span>}
+                </p>
+                <p className="truncate text-xs text-slate-400" title={probe.detail}>
+                  {probe.detail}
+                </p>
+              </div>
+              <span className="text-xs font-mono text-slate-500">{probe.durationMs} ms</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {openCircuits.length > 0 && (
+        <p className="text-xs text-amber-400">
+          Circuit open: {openCircuits.map(([name, state]) => `${name} (${state})`).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
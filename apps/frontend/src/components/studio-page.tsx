@@ -1,11 +1,14 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import clsx from "clsx";
 import { Orb, type AgentState } from "./ui/orb";
 import { useStudioStore } from "../state/studio-store";
 import { SettingsModal } from "./settings-modal";
-import type { SpeakerId } from "@basil/shared";
+import { HealthPanel } from "./health-panel";
+import { fetchBriefings, type BriefingSummary } from "../lib/briefings";
+import type { ClientRole, EpisodeStatus, SpeakerId } from "@basil/shared";
 
 const speakerDisplay: Record<SpeakerId, { label: string; colors: [string, string]; accent: string }> = {
   you: {
@@ -13,6 +16,11 @@ const speakerDisplay: Record<SpeakerId, { label: string; colors: [string, string
     colors: ["#0EA5E9", "#22D3EE"],
     accent: "from-cyan-500/70 to-emerald-400/70",
   },
+  remote: {
+    label: "Remote Guest",
+    colors: ["#8B5CF6", "#A78BFA"],
+    accent: "from-violet-500/70 to-purple-400/70",
+  },
   claude: {
     label: "Claude Haiku 4.5",
     colors: ["#D97B5E", "#C15F3C"],
@@ -27,6 +35,15 @@ const speakerDisplay: Record<SpeakerId, { label: string; colors: [string, string
 
 const DEFAULT_GUEST_COLORS: [string, string] = ["#F59E0B", "#F97316"];
 
+const CLIENT_ROLES: ClientRole[] = ["host", "producer", "viewer", "remote-guest"];
+
+const EPISODE_STATUS_LABELS: Record<EpisodeStatus, string> = {
+  armed: "Armed",
+  recording: "Recording",
+  paused: "Paused",
+  stopped: "Stopped",
+};
+
 const orbStateToAgentState = (state: string | undefined): AgentState => {
   switch (state) {
     case "speaking":
@@ -46,8 +63,27 @@ interface ColorPreset {
 }
 
 export function StudioPage() {
-  const { connect, connection, orbStates, captions, sharedScreen, autopilot, toggleAutopilot, lastAck } =
-    useStudioStore();
+  const {
+    connect,
+    connection,
+    orbStates,
+    captions,
+    sharedScreen,
+    autopilot,
+    showSegment,
+    toggleAutopilot,
+    toggleThinking,
+    lastAck,
+    failovers,
+    role,
+    episode,
+    startEpisode,
+    attachBriefing,
+    pauseEpisode,
+    resumeEpisode,
+    stopEpisode,
+  } = useStudioStore();
+  const canControl = role === "host" || role === "producer";
   const [showControls, setShowControls] = useState(true);
   const [recordingView, setRecordingView] = useState(false);
   const [guestColors, setGuestColors] = useState<[string, string]>(DEFAULT_GUEST_COLORS);
@@ -56,11 +92,35 @@ export function StudioPage() {
   const [presetName, setPresetName] = useState("");
   const [showSettings, setShowSettings] = useState(false);
   const [thinkingCountdown, setThinkingCountdown] = useState<number | null>(null);
+  const [episodeTitle, setEpisodeTitle] = useState("");
+  const [briefings, setBriefings] = useState<BriefingSummary[]>([]);
+  /** A briefing picked on /prep, attached once the backend has said who this window is */
+  const [pendingBriefing, setPendingBriefing] = useState<string | null>(null);
 
   useEffect(() => {
-    connect();
+    // Separate shows on one backend are picked with ?episode=<id>, and each window says what it is with ?role=
+    const params = new URLSearchParams(window.location.search);
+    const episodeId = params.get("episode") ?? undefined;
+    const requestedRole = CLIENT_ROLES.find((candidate) => candidate === params.get("role"));
+    // A viewer is an OBS browser source: just the orbs and captions
+    if (requestedRole === "viewer") setRecordingView(true);
+    setPendingBriefing(params.get("briefing"));
+    connect(episodeId, requestedRole);
   }, [connect]);
 
+  useEffect(() => {
+    if (!canControl) return;
+    fetchBriefings()
+      .then(setBriefings)
+      .catch((error) => console.warn("Failed to list briefings", error));
+  }, [canControl]);
+
+  useEffect(() => {
+    if (!pendingBriefing || !canControl || !episode || episode.status === "stopped") return;
+    if (episode.briefing !== pendingBriefing) attachBriefing(pendingBriefing);
+    setPendingBriefing(null);
+  }, [pendingBriefing, canControl, episode, attachBriefing]);
+
   // Load saved presets from localStorage on mount
   useEffect(() => {
     const saved = localStorage.getItem('guestColorPresets');
@@ -189,6 +249,7 @@ export function StudioPage() {
 
     const speakerColor: Record<SpeakerId, string> = {
       you: "from-cyan-400 to-emerald-400",
+      remote: "from-violet-400 to-purple-400",
       claude: "from-orange-400 to-orange-600",
       guest: "from-orange-400 to-amber-400",
     };
@@ -199,7 +260,7 @@ export function StudioPage() {
         {/* Main Caption */}
         <div className="relative overflow-hidden rounded-2xl border border-white/10 bg-gradient-to-br from-black/40 via-black/30 to-black/40 p-8 backdrop-blur-xl shadow-2xl">
           <div className="absolute top-0 right-0 h-32 w-32 bg-gradient-to-br opacity-10 blur-3xl" style={{
-            background: `linear-gradient(to bottom right, ${latestCaption.speaker === 'you' ? '#0EA5E9' : latestCaption.speaker === 'claude' ? '#D97B5E' : '#F59E0B'}, transparent)`
+            background: `linear-gradient(to bottom right, ${speakerDisplay[latestCaption.speaker].colors[0]}, transparent)`
           }} />
           
           <div className="relative space-y-4">
@@ -208,6 +269,7 @@ export function StudioPage() {
                 <div className={clsx(
                   "h-2 w-2 rounded-full animate-pulse",
                   latestCaption.speaker === "you" ? "bg-cyan-400" :
+                  latestCaption.speaker === "remote" ? "bg-violet-400" :
                   latestCaption.speaker === "claude" ? "bg-orange-500" :
                   "bg-orange-400"
                 )} />
@@ -240,6 +302,7 @@ export function StudioPage() {
               <div className={clsx(
                 "mt-1 h-1.5 w-1.5 flex-shrink-0 rounded-full",
                 caption.speaker === "you" ? "bg-cyan-400" :
+                caption.speaker === "remote" ? "bg-violet-400" :
                 caption.speaker === "claude" ? "bg-orange-500" :
                 "bg-orange-400"
               )} />
@@ -279,19 +342,21 @@ export function StudioPage() {
             {lightMode ? "🌙 Dark Mode" : "☀️ Light Mode"}
           </button>
 
-          {/* Exit Recording View Button */}
-          <button
-            type="button"
-            onClick={() => setRecordingView(false)}
-            className={clsx(
-              "rounded-lg px-6 py-2 text-sm font-semibold transition-all border",
-              lightMode
-                ? "bg-red-500/10 text-red-700 hover:bg-red-500/20 border-red-500/30"
-                : "bg-red-500/20 text-red-300 hover:bg-red-500/30 border-red-500/50"
-            )}
-          >
-            Exit Recording View
-          </button>
+          {/* Exit Recording View Button; a viewer has nothing to exit to */}
+          {role !== "viewer" && (
+            <button
+              type="button"
+              onClick={() => setRecordingView(false)}
+              className={clsx(
+                "rounded-lg px-6 py-2 text-sm font-semibold transition-all border",
+                lightMode
+                  ? "bg-red-500/10 text-red-700 hover:bg-red-500/20 border-red-500/30"
+                  : "bg-red-500/20 text-red-300 hover:bg-red-500/30 border-red-500/50"
+              )}
+            >
+              Exit Recording View
+            </button>
+          )}
         </div>
 
         {/* Two Orbs with proper spacing for masking */}
@@ -371,6 +436,12 @@ export function StudioPage() {
             >
               📝 Prep
             </a>
+            <Link
+              href="/episodes"
+              className="rounded-lg bg-blue-500/10 px-4 py-2 text-sm font-semibold text-blue-300 hover:bg-blue-500/20 transition-all border border-blue-500/30"
+            >
+              🎧 Episodes
+            </Link>
             <button
               type="button"
               onClick={() => {
@@ -388,11 +459,80 @@ export function StudioPage() {
             >
               {showControls ? "Hide" : "Show"} Controls
             </button>
+            {canControl && episode && episode.status !== "stopped" && (
+              <select
+                value={episode.briefing ?? ""}
+                onChange={(e) => e.target.value && attachBriefing(e.target.value)}
+                title="Briefing the agents are prepared with"
+                className="w-48 rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-slate-200 focus:border-purple-500/50 focus:outline-none"
+              >
+                <option value="" disabled>
+                  No briefing
+                </option>
+                {briefings.map((briefing) => (
+                  <option key={briefing.name} value={briefing.name}>
+                    {briefing.metadata.title || briefing.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {canControl && episode?.status === "armed" && (
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={episodeTitle}
+                  onChange={(e) => setEpisodeTitle(e.target.value)}
+                  placeholder="Episode title"
+                  className="w-44 rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:border-red-500/50 focus:outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() => startEpisode(episodeTitle.trim() || undefined)}
+                  className="rounded-lg bg-red-500/20 px-4 py-2 text-sm font-semibold text-red-200 hover:bg-red-500/30 transition-all border border-red-500/40"
+                >
+                  ● Start Recording
+                </button>
+              </div>
+            )}
+            {canControl && (episode?.status === "recording" || episode?.status === "paused") && (
+              <>
+                <button
+                  type="button"
+                  onClick={episode.status === "recording" ? pauseEpisode : resumeEpisode}
+                  className="rounded-lg bg-amber-500/10 px-4 py-2 text-sm font-semibold text-amber-300 hover:bg-amber-500/20 transition-all border border-amber-500/30"
+                >
+                  {episode.status === "recording" ? "Pause" : "Resume"}
+                </button>
+                <button
+                  type="button"
+                  onClick={stopEpisode}
+                  className="rounded-lg bg-red-500/10 px-4 py-2 text-sm font-semibold text-red-300 hover:bg-red-500/20 transition-all border border-red-500/30"
+                >
+                  ■ Stop
+                </button>
+              </>
+            )}
+            {canControl && (
+              <button
+                type="button"
+                onClick={() => toggleThinking()}
+                className={clsx(
+                  "rounded-lg px-4 py-2 text-sm font-semibold transition-all border",
+                  sharedScreen.mode === "thinking"
+                    ? "bg-purple-500/30 text-purple-200 border-purple-400/50"
+                    : "bg-purple-500/10 text-purple-300 hover:bg-purple-500/20 border-purple-500/30"
+                )}
+              >
+                {sharedScreen.mode === "thinking" ? "End Thinking" : "Thinking Mode"}
+              </button>
+            )}
             <button
               type="button"
               onClick={toggleAutopilot}
+              disabled={!canControl}
+              title={canControl ? undefined : `A ${role} cannot run autopilot`}
               className={clsx(
-                "rounded-lg px-5 py-2.5 text-sm font-semibold transition-all duration-300 border",
+                "rounded-lg px-5 py-2.5 text-sm font-semibold transition-all duration-300 border disabled:cursor-not-allowed disabled:opacity-50",
                 autopilot
                   ? "bg-gradient-to-r from-indigo-500 to-purple-500 text-white shadow-lg shadow-indigo-500/50 border-indigo-400/50 scale-105"
                   : "bg-white/5 text-slate-200 hover:bg-white/10 border-white/10 hover:border-white/20",
@@ -401,6 +541,11 @@ export function StudioPage() {
               <span className="flex items-center gap-2">
                 <span className={clsx("w-2 h-2 rounded-full", autopilot ? "bg-white animate-pulse" : "bg-slate-400")} />
                 Autopilot {autopilot ? "Active" : "Standby"}
+                {autopilot && showSegment && (
+                  <span className="text-xs font-normal text-white/80">
+                    · {showSegment.title} ({showSegment.index + 1}/{showSegment.total})
+                  </span>
+                )}
               </span>
             </button>
           </div>
@@ -582,10 +727,21 @@ export function StudioPage() {
                 )}
               </div>
 
+              <HealthPanel />
+
               <div className="grid grid-cols-3 gap-4">
-                <ControlCard icon="🎙️" title="Microphone" status="Ready" />
+                <ControlCard
+                  icon="🎙️"
+                  title="Microphone"
+                  status={role === "host" || role === "remote-guest" ? "Ready" : "Not used"}
+                />
                 <ControlCard icon="🎧" title="Audio Mix" status="Monitoring" />
-                <ControlCard icon="⏺️" title="Recording" status="Standby" active />
+                <ControlCard
+                  icon="⏺️"
+                  title="Recording"
+                  status={episode ? EPISODE_STATUS_LABELS[episode.status] : "Standby"}
+                  active={episode?.status === "recording"}
+                />
               </div>
               
               <div className="flex items-center justify-between rounded-xl border border-white/10 bg-white/5 px-6 py-4 backdrop-blur-sm">
@@ -593,6 +749,15 @@ export function StudioPage() {
                   <StatusBadge label="Phase 1" value="Complete" color="emerald" />
                   <StatusBadge label="Adapters" value="Wired" color="blue" />
                   <StatusBadge label="Services" value="Ready" color="purple" />
+                  <StatusBadge label="Role" value={role} color="blue" />
+                  {Object.entries(failovers).map(([role, { status, primary }]) => (
+                    <StatusBadge
+                      key={role}
+                      label={`${status.speaker ? `${status.speaker} ` : ""}${status.service.toUpperCase()}`}
+                      value={status.provider}
+                      color={status.provider === primary ? "emerald" : "amber"}
+                    />
+                  ))}
                 </div>
                 
                 {lastAck && (
@@ -664,9 +829,18 @@ function ControlCard({ icon, title, status, active }: { icon: string; title: str
   );
 }
 
-function StatusBadge({ label, value, color }: { label: string; value: string; color: "emerald" | "blue" | "purple" }) {
+function StatusBadge({
+  label,
+  value,
+  color,
+}: {
+  label: string;
+  value: string;
+  color: "emerald" | "blue" | "purple" | "amber";
+}) {
   const colorClasses = {
     emerald: "bg-emerald-500/10 text-emerald-400 border-emerald-500/20",
+    amber: "bg-amber-500/10 text-amber-400 border-amber-500/20",
     blue: "bg-blue-500/10 text-blue-400 border-blue-500/20",
     purple: "bg-purple-500/10 text-purple-400 border-purple-500/20",
   };
@@ -0,0 +1,52 @@
+import { backendUrl } from "./episodes";
+
+/** Frontmatter of a briefing file in the backend's briefings dir */
+export interface BriefingMetadata {
+  title?: string;
+  topic?: string;
+  tone?: string;
+  mustCover?: string[];
+  avoidTopics?: string[];
+  targetDuration?: number;
+}
+
+export interface BriefingSummary {
+  /** File name, e.g. "future-of-ai.md"; what episode.briefing attaches */
+  name: string;
+  metadata: BriefingMetadata;
+}
+
+export interface Briefing extends BriefingSummary {
+  content: string;
+}
+
+/** A file name the backend accepts for a briefing titled `title` */
+export function briefingName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "briefing"}.md`;
+}
+
+export async function fetchBriefings(): Promise<BriefingSummary[]> {
+  const response = await fetch(`${backendUrl}/api/briefings`);
+  if (!response.ok) throw new Error(`Failed to list briefings (${response.status})`);
+  return response.json();
+}
+
+export async function fetchBriefing(name: string): Promise<Briefing> {
+  const response = await fetch(`${backendUrl}/api/briefings/${encodeURIComponent(name)}`);
+  if (!response.ok) throw new Error(`Failed to load briefing (${response.status})`);
+  return response.json();
+}
+
+export async function saveBriefing(briefing: Briefing): Promise<Briefing> {
+  const response = await fetch(`${backendUrl}/api/briefings`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(briefing),
+  });
+  if (!response.ok) throw new Error(`Failed to save briefing (${response.status})`);
+  return response.json();
+}
@@ -0,0 +1,128 @@
+export const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL ?? "http://localhost:4000";
+
+export type EpisodeSpeaker = "you" | "remote" | "claude" | "guest";
+
+export const EPISODE_SPEAKERS: EpisodeSpeaker[] = ["you", "remote", "claude", "guest"];
+
+export interface EpisodeFile {
+  name: string;
+  size: number;
+  modifiedAt: string;
+}
+
+export interface EpisodeSummary {
+  episodeId: string;
+  archived: boolean;
+  startedAt: string;
+  durationMs: number | null;
+  totalSize: number;
+  files: EpisodeFile[];
+  metadata: Record<string, unknown> | null;
+}
+
+export interface EpisodeCaption {
+  speaker: EpisodeSpeaker;
+  /** Seconds from the start of the recording */
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** A line of events.jsonl; fields beyond these vary by type */
+export interface EpisodeEvent {
+  type: string;
+  timestamp: number;
+  sessionId: string;
+  [field: string]: unknown;
+}
+
+export function episodeFileUrl(episodeId: string, filename: string): string {
+  return `${backendUrl}/api/episodes/${encodeURIComponent(episodeId)}/files/${encodeURIComponent(filename)}`;
+}
+
+export async function fetchEpisodes(archived = false): Promise<EpisodeSummary[]> {
+  const response = await fetch(`${backendUrl}/api/episodes${archived ? "?archived=true" : ""}`);
+  if (!response.ok) throw new Error(`Failed to list episodes (${response.status})`);
+  return response.json();
+}
+
+export async function fetchEpisode(episodeId: string): Promise<EpisodeSummary> {
+  const response = await fetch(`${backendUrl}/api/episodes/${encodeURIComponent(episodeId)}`);
+  if (!response.ok) throw new Error(`Failed to load episode (${response.status})`);
+  return response.json();
+}
+
+export async function archiveEpisode(episodeId: string): Promise<void> {
+  const response = await fetch(`${backendUrl}/api/episodes/${encodeURIComponent(episodeId)}/archive`, {
+    method: "POST",
+  });
+  if (!response.ok) throw new Error(`Failed to archive episode (${response.status})`);
+}
+
+export async function deleteEpisode(episodeId: string): Promise<void> {
+  const response = await fetch(`${backendUrl}/api/episodes/${encodeURIComponent(episodeId)}`, {
+    method: "DELETE",
+  });
+  if (!response.ok) throw new Error(`Failed to delete episode (${response.status})`);
+}
+
+export async function fetchEpisodeText(episodeId: string, filename: string): Promise<string> {
+  const response = await fetch(episodeFileUrl(episodeId, filename));
+  if (!response.ok) throw new Error(`Failed to load ${filename} (${response.status})`);
+  return response.text();
+}
+
+/** Parses the cues of a WebVTT file as written by the recorder. */
+export function parseVtt(content: string, speaker: EpisodeSpeaker): EpisodeCaption[] {
+  const captions: EpisodeCaption[] = [];
+
+  for (const block of content.split(/\r?\n\r?\n/)) {
+    const lines = block.split(/\r?\n/).filter(Boolean);
+    const timing = lines.findIndex((line) => line.includes("-->"));
+    if (timing === -1) continue;
+
+    const [start, end] = lines[timing].split("-->").map((part) => parseTimestamp(part.trim()));
+    const text = lines.slice(timing + 1).join(" ").trim();
+    if (text && !Number.isNaN(start) && !Number.isNaN(end)) {
+      captions.push({ speaker, start, end, text });
+    }
+  }
+
+  return captions;
+}
+
+/** Parses events.jsonl, skipping lines that are not valid JSON. */
+export function parseEvents(content: string): EpisodeEvent[] {
+  const events: EpisodeEvent[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      // A torn last line from a session that did not shut down cleanly
+    }
+  }
+  return events;
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+function parseTimestamp(value: string): number {
+  // hh:mm:ss.mmm or mm:ss.mmm, ignoring any cue settings after the time
+  const parts = value.split(/\s+/)[0].split(":").map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
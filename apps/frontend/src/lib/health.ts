@@ -0,0 +1,30 @@
+import { backendUrl } from "./episodes";
+
+export interface HealthProbe {
+  name: string;
+  service: "stt" | "tts" | "llm";
+  provider: string;
+  fallback: boolean;
+  status: "ok" | "failed";
+  detail: string;
+  durationMs: number;
+}
+
+/** Body of GET /health/deep */
+export interface DeepHealthReport {
+  status: "ok" | "degraded" | "down";
+  checkedAt: string;
+  cached: boolean;
+  probes: HealthProbe[];
+  adapters: { enabled: boolean };
+  circuits: Record<string, "closed" | "open" | "half-open">;
+}
+
+export async function fetchDeepHealth(refresh = false): Promise<DeepHealthReport> {
+  const response = await fetch(`${backendUrl}/health/deep${refresh ? "?refresh=true" : ""}`);
+  // 503 still carries the report; it just means a primary provider failed
+  if (!response.ok && response.status !== 503) {
+    throw new Error(`Failed to run health checks (${response.status})`);
+  }
+  return response.json();
+}
@@ -3,35 +3,64 @@
 import { create } from "zustand";
 import { io, Socket } from "socket.io-client";
 import type {
+  AgentSpeakerId,
   CaptionPayload,
+  ClientRole,
   ClientToServerEvents,
+  EpisodeState,
   OrchestratorStateSnapshot,
   ServerToClientEvents,
   SpeakerId,
   OrbState,
   SharedScreenState,
+  ShowSegmentPayload,
+  ProviderStatusPayload,
 } from "@basil/shared";
 
 export type ConnectionStatus = "idle" | "connecting" | "connected" | "error";
 
+/** The provider a role is on after a failover, and the one it started on */
+export interface ProviderFailover {
+  status: ProviderStatusPayload;
+  primary: string;
+}
+
 interface StudioState {
   connection: ConnectionStatus;
   autopilot: boolean;
   orbStates: Record<SpeakerId, OrbState>;
   captions: CaptionPayload[];
   sharedScreen: SharedScreenState;
-  connect: () => void;
+  showSegment?: ShowSegmentPayload;
+  /** Roles that have switched provider this session, keyed by service and speaker */
+  failovers: Record<string, ProviderFailover>;
+  /** The role the backend gave this window, which may be viewer if the requested seat was taken */
+  role: ClientRole;
+  /** Whether the show is armed, on the record, paused or over; unknown until the backend says */
+  episode?: EpisodeState;
+  /** Joins the episode's room on the backend; without one, the backend's default episode */
+  connect: (episodeId?: string, role?: ClientRole) => void;
   toggleAutopilot: () => void;
+  toggleThinking: (speaker?: AgentSpeakerId) => void;
+  startEpisode: (title?: string, briefing?: string) => void;
+  /** Prepares the agents with a briefing saved from /prep, by file name */
+  attachBriefing: (name: string) => void;
+  pauseEpisode: () => void;
+  resumeEpisode: () => void;
+  stopEpisode: () => void;
   lastAck?: string;
 }
 
 const defaultOrbState: Record<SpeakerId, OrbState> = {
   you: "idle",
+  remote: "idle",
   claude: "idle",
   guest: "idle",
 };
 
 let socket: Socket<ServerToClientEvents, ClientToServerEvents> | undefined;
+/** Lets a reconnect pick up the same seat and recording instead of joining as someone new */
+let resumeToken: string | undefined;
 
 const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL ?? "http://localhost:4000";
 
@@ -41,22 +70,31 @@ export const useStudioStore = create<StudioState>((set, get) => ({
   orbStates: { ...defaultOrbState },
   captions: [],
   sharedScreen: { mode: "conversation" },
-  connect: () => {
+  failovers: {},
+  role: "host",
+  connect: (episodeId, role = "host") => {
     if (typeof window === "undefined") return;
 
     if (!socket) {
-      set({ connection: "connecting" });
+      set({ connection: "connecting", role });
+      const auth = episodeId ? { episodeId } : {};
 
       socket = io(backendUrl, {
+        auth,
         transports: ["websocket"],
         reconnection: true,
         reconnectionAttempts: 5,
         reconnectionDelay: 1000,
       });
 
+      // Lets the backend count reconnects separately from fresh connections
+      socket.io.on("reconnect_attempt", () => {
+        if (socket) socket.auth = { ...auth, reconnect: true };
+      });
+
       socket.on("connect", () => {
         set({ connection: "connected" });
-        socket?.emit("hello", { participantName: "frontend" });
+        socket?.emit("hello", { episodeId, participantName: "frontend", role, resumeToken });
         socket?.emit("client.request-state");
       });
 
@@ -72,7 +110,7 @@ export const useStudioStore = create<StudioState>((set, get) => ({
       socket.on("reconnect", (attemptNumber) => {
         console.log(`Reconnected after ${attemptNumber} attempts`);
         set({ connection: "connected" });
-        socket?.emit("hello", { participantName: "frontend" });
+        socket?.emit("hello", { episodeId, participantName: "frontend", role, resumeToken });
         socket?.emit("client.request-state");
       });
 
@@ -80,15 +118,29 @@ export const useStudioStore = create<StudioState>((set, get) => ({
         set({ lastAck: message });
       });
 
+      socket.on("session.role", (granted: ClientRole) => {
+        set({ role: granted });
+      });
+
+      socket.on("session.resume-token", (token: string) => {
+        resumeToken = token;
+      });
+
       socket.on("state.snapshot", (snapshot: OrchestratorStateSnapshot) => {
         set({
           autopilot: snapshot.autopilot,
           orbStates: snapshot.orbStates,
           captions: snapshot.captions,
           sharedScreen: snapshot.sharedScreen,
+          showSegment: snapshot.showSegment,
+          episode: snapshot.episode,
         });
       });
 
+      socket.on("episode.state", (state: EpisodeState) => {
+        set({ episode: state });
+      });
+
       socket.on("orb.state", (speaker, state) => {
         set((prev) => ({
           orbStates: { ...prev.orbStates, [speaker]: state },
@@ -136,6 +188,20 @@ export const useStudioStore = create<StudioState>((set, get) => ({
       socket.on("shared-screen.state", (state) => {
         set({ sharedScreen: state });
       });
+
+      socket.on("show.segment", (segment) => {
+        set({ showSegment: segment });
+      });
+
+      socket.on("provider.status", (status: ProviderStatusPayload) => {
+        const role = status.speaker ? `${status.service}:${status.speaker}` : status.service;
+        set((prev) => ({
+          failovers: {
+            ...prev.failovers,
+            [role]: { status, primary: prev.failovers[role]?.primary ?? status.previous },
+          },
+        }));
+      });
     } else if (socket.disconnected) {
       set({ connection: "connecting" });
       socket.connect();
@@ -144,7 +210,25 @@ export const useStudioStore = create<StudioState>((set, get) => ({
   toggleAutopilot: () => {
     const current = get().autopilot;
     socket?.emit("client.toggle-autopilot", !current);
-    set({ autopilot: !current });
+    set({ autopilot: !current, showSegment: current ? undefined : get().showSegment });
+  },
+  toggleThinking: (speaker = "claude") => {
+    socket?.emit("client.toggle-thinking", { on: get().sharedScreen.mode !== "thinking", speaker });
+  },
+  startEpisode: (title, briefing) => {
+    socket?.emit("episode.start", { title, briefing });
+  },
+  attachBriefing: (name) => {
+    socket?.emit("episode.briefing", name);
+  },
+  pauseEpisode: () => {
+    socket?.emit("episode.pause");
+  },
+  resumeEpisode: () => {
+    socket?.emit("episode.resume");
+  },
+  stopEpisode: () => {
+    socket?.emit("episode.stop");
   },
 }));
 
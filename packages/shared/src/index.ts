@@ -1,4 +1,8 @@
-export type SpeakerId = "you" | "claude" | "guest";
+/** The people at microphones: the host and an optional remote guest */
+export type HumanSpeakerId = "you" | "remote";
+/** The AI voices */
+export type AgentSpeakerId = "claude" | "guest";
+export type SpeakerId = HumanSpeakerId | AgentSpeakerId;
 
 export type OrbState = "idle" | "listening" | "thinking" | "speaking" | "muted" | "error";
 
@@ -34,14 +38,86 @@ export interface SharedScreenState {
   thinking?: SharedScreenThinkingState;
 }
 
+export type ShowSegmentId =
+  | "cold-open"
+  | "guest-stance"
+  | "cross-exam"
+  | "steelman-swap"
+  | "verdict"
+  | "outro";
+
+export interface ShowSegmentPayload {
+  id: ShowSegmentId;
+  title: string;
+  index: number;
+  total: number;
+  startedAt: number;
+  endsAt: number;
+}
+
 export interface RecordingReadyPayload {
   episodeId: string;
   files: string[];
 }
 
+/**
+ * Where an episode is in its lifecycle. A room opens armed: the conversation
+ * runs but nothing is recorded until the episode starts. Pauses are cut from
+ * the masters, and stopping finalizes them.
+ */
+export type EpisodeStatus = "armed" | "recording" | "paused" | "stopped";
+
+export interface EpisodeState {
+  episodeId: string;
+  status: EpisodeStatus;
+  title?: string;
+  /** File name of the briefing the agents were prepared with */
+  briefing?: string;
+  /** When recording started */
+  startedAt?: number;
+}
+
+export interface EpisodeStartPayload {
+  title?: string;
+  /** File name of a briefing to prepare the agents with */
+  briefing?: string;
+}
+
+export type ProviderService = "stt" | "tts" | "llm";
+
+/** Sent when a role fails over to a fallback provider, or back to its primary */
+export interface ProviderStatusPayload {
+  service: ProviderService;
+  /** Whose voice (TTS) or replies (LLM); absent for STT */
+  speaker?: AgentSpeakerId;
+  provider: string;
+  previous: string;
+  /** The failure that caused the switch */
+  reason?: string;
+  at: number;
+}
+
+/**
+ * What a connection does in the studio. The host and a remote guest each
+ * stream a microphone; a producer controls the show without audio; a viewer
+ * (e.g. an OBS browser source) only renders orbs and captions.
+ */
+export type ClientRole = "host" | "producer" | "viewer" | "remote-guest";
+
 export interface ClientHelloPayload {
   episodeId?: string;
   participantName?: string;
+  /** Defaults to "host" */
+  role?: ClientRole;
+  /** From `session.resume-token`; reclaims this client's place in the room after a reconnect */
+  resumeToken?: string;
+}
+
+export interface ClientThinkingPayload {
+  on: boolean;
+  /** Who thinks; Claude when omitted */
+  speaker?: AgentSpeakerId;
+  durationMs?: number;
 }
 
 export interface OrchestratorStateSnapshot {
@@ -49,13 +125,22 @@ export interface OrchestratorStateSnapshot {
   captions: CaptionPayload[];
   autopilot: boolean;
   sharedScreen: SharedScreenState;
+  showSegment?: ShowSegmentPayload;
+  episode?: EpisodeState;
 }
 
 export interface ClientToServerEvents {
   hello(payload: ClientHelloPayload): void;
   "audio.chunk"(chunk: ArrayBuffer): void;
   "client.toggle-autopilot"(on: boolean): void;
+  "client.toggle-thinking"(payload: ClientThinkingPayload): void;
   "client.request-state"(): void;
+  "episode.start"(payload: EpisodeStartPayload): void;
+  /** Prepares the agents with a saved briefing, by file name, from their next turn */
+  "episode.briefing"(name: string): void;
+  "episode.pause"(): void;
+  "episode.resume"(): void;
+  "episode.stop"(): void;
 }
 
 export interface ServerToClientEvents {
@@ -64,9 +149,16 @@ export interface ServerToClientEvents {
   "mode.thinking"(payload: ModeThinkingPayload): void;
   "mode.normal"(payload: ModeNormalPayload): void;
   "recording.ready"(payload: RecordingReadyPayload): void;
+  "episode.state"(state: EpisodeState): void;
   "server.ack"(message: string): void;
   "state.snapshot"(snapshot: OrchestratorStateSnapshot): void;
   "shared-screen.state"(state: SharedScreenState): void;
+  "show.segment"(payload: ShowSegmentPayload): void;
+  "provider.status"(payload: ProviderStatusPayload): void;
+  /** The role the server gave this connection; a taken microphone seat demotes it to viewer */
+  "session.role"(role: ClientRole): void;
+  /** Send back in `hello` after a reconnect to resume instead of joining afresh */
+  "session.resume-token"(token: string): void;
 }
 
 // Persona and configuration types
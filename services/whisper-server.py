@@ -20,21 +20,37 @@ print(f"Loading Whisper model: {model_size} on {device}")
 model = WhisperModel(model_size, device=device, compute_type=compute_type)
 print("Model loaded successfully")
 
+# faster-whisper expects 16 kHz audio
+MODEL_SAMPLE_RATE = 16000
+
+
+def resample(audio: np.ndarray, sample_rate: int) -> np.ndarray:
+    """Linear resample to the model's rate; plenty for speech"""
+    if sample_rate == MODEL_SAMPLE_RATE or len(audio) == 0:
+        return audio
+    target = np.arange(len(audio) * MODEL_SAMPLE_RATE // sample_rate) / MODEL_SAMPLE_RATE
+    source = np.arange(len(audio)) / sample_rate
+    return np.interp(target, source, audio).astype(np.float32)
+
 @app.post("/transcribe")
 async def transcribe(request: Request):
     """
     Transcribe audio chunk sent as raw PCM data
-    Expected format: 16-bit PCM, 16kHz, mono
+    Expected format: 16-bit PCM, mono, at the rate in the X-Sample-Rate header (16kHz if absent)
+
+    Returns the text with segment and word timings, in seconds from the
+    start of the posted chunk
     """
     try:
         # Read raw audio data
         audio_data = await request.body()
+        sample_rate = int(request.headers.get("x-sample-rate", MODEL_SAMPLE_RATE))
         
         # Convert bytes to numpy array (assuming 16-bit PCM)
         audio_array = np.frombuffer(audio_data, dtype=np.int16)
         
         # Normalize to [-1, 1]
-        audio_float = audio_array.astype(np.float32) / 32768.0
+        audio_float = resample(audio_array.astype(np.float32) / 32768.0, sample_rate)
         
         # Transcribe
         segments, info = model.transcribe(
@@ -42,22 +58,40 @@ async def transcribe(request: Request):
             language="en",
             beam_size=5,
             vad_filter=True,
-            vad_parameters=dict(min_silence_duration_ms=500)
+            vad_parameters=dict(min_silence_duration_ms=500),
+            word_timestamps=True
         )
         
         # Collect all segments
         text_parts = []
+        words = []
+        start = None
+        end = None
         for segment in segments:
             text_parts.append(segment.text)
+            start = segment.start if start is None else start
+            end = segment.end
+            for word in segment.words or []:
+                words.append({
+                    "word": word.word,
+                    "start": word.start,
+                    "end": word.end,
+                    "probability": word.probability
+                })
         
         full_text = " ".join(text_parts).strip()
         
-        return {
+        response = {
             "text": full_text,
             "is_final": True,
+            "words": words,
             "language": info.language,
             "language_probability": info.language_probability
         }
+        if start is not None:
+            response["start"] = start
+            response["end"] = end
+        return response
     
     except Exception as e:
         return {